@@ -1,40 +1,97 @@
-import { useState } from 'react'
+import { useCallback } from 'react'
 import { ThemeProvider } from './contexts/ThemeContext'
+import { CommandProvider, useRegisterCommands } from './contexts/CommandContext'
 import YAMLVisualizer from './components/YAMLVisualizer'
+import TabBar from './components/TabBar'
+import DraftManager from './components/DraftManager'
+import CommandPalette from './components/CommandPalette'
+import { useTabs, isTabDirty, getTabTitle } from './hooks/useTabs'
+import { deleteDraft, type Draft } from './utils/drafts'
 import './App.css'
 
-function App() {
-  const [yamlData, setYamlData] = useState<any>({})
-  const [fileName, setFileName] = useState<string>('')
+function AppContent() {
+  const { tabs, activeTabId, setActiveTabId, updateTab, addTab, closeTab } = useTabs()
+
+  // 关闭有未保存修改的标签页前确认
+  const handleCloseTab = useCallback((id: string) => {
+    const tab = tabs.find(item => item.id === id)
+    if (tab && isTabDirty(tab) && !confirm(`「${getTabTitle(tab)}」有未保存的修改，确定关闭并丢弃这些修改吗？`)) {
+      return
+    }
+    closeTab(id)
+    // 用户已确认丢弃修改，草稿不再需要恢复
+    deleteDraft(id).catch(error => alert(`删除草稿失败: ${error instanceof Error ? error.message : '未知错误'}`))
+  }, [tabs, closeTab])
+
+  // 草稿在新标签页中打开，保持未保存状态以便继续自动保存
+  const handleRestoreDraft = useCallback((draft: Draft) => {
+    addTab({ fileName: draft.fileName, text: draft.text, savedText: '', viewState: draft.viewState })
+  }, [addTab])
 
-  const handleFileLoad = (data: any, name: string) => {
-    setYamlData(data)
-    setFileName(name)
-  }
+  // 标签页命令：在标签页之间循环切换
+  const switchTab = useCallback((offset: number) => {
+    const index = tabs.findIndex(tab => tab.id === activeTabId)
+    const next = tabs[(index + offset + tabs.length) % tabs.length]
+    if (next) setActiveTabId(next.id)
+  }, [tabs, activeTabId, setActiveTabId])
 
-  const handleDataChange = (data: any) => {
-    setYamlData(data)
-  }
+  useRegisterCommands([
+    { id: 'tab.new', category: '标签页', title: '新建标签页', keywords: 'new tab', run: () => addTab() },
+    { id: 'tab.close', category: '标签页', title: '关闭当前标签页', keywords: 'close tab', run: () => handleCloseTab(activeTabId) },
+    { id: 'tab.next', category: '标签页', title: '切换到下一个标签页', keywords: 'next tab', disabled: tabs.length < 2, run: () => switchTab(1) },
+    { id: 'tab.previous', category: '标签页', title: '切换到上一个标签页', keywords: 'previous tab', disabled: tabs.length < 2, run: () => switchTab(-1) },
+  ])
 
   return (
-    <ThemeProvider>
+    <>
       <div className="app">
+        <TabBar
+          tabs={tabs}
+          activeTabId={activeTabId}
+          onSelect={setActiveTabId}
+          onClose={handleCloseTab}
+          onAdd={addTab}
+          actions={<DraftManager tabs={tabs} onRestore={handleRestoreDraft} />}
+        />
         <main className="app-main">
-          <YAMLVisualizer
-            data={yamlData}
-            fileName={fileName}
-            onDataChange={handleDataChange}
-            onFileLoad={handleFileLoad}
-            onReset={() => {
-              setYamlData({})
-              setFileName('')
-            }}
-          />
+          {/* 每个标签页保留自己的 YAMLVisualizer 实例，切换时不丢失编辑器、展开、搜索等状态；
+              每个标签页也是一个命令作用域，命令面板只列出当前标签页注册的命令 */}
+          {tabs.map(tab => (
+            <div key={tab.id} className={`app-tab-panel ${tab.id === activeTabId ? 'active' : ''}`}>
+              <CommandProvider active={tab.id === activeTabId}>
+                <YAMLVisualizer
+                  data={tab.data}
+                  fileName={tab.fileName}
+                  initialText={tab.text}
+                  initialViewState={tab.viewState}
+                  documentId={tab.id}
+                  isDirty={isTabDirty(tab)}
+                  isActive={tab.id === activeTabId}
+                  onDataChange={(data) => updateTab(tab.id, { data })}
+                  onFileLoad={(data, name, text) => updateTab(tab.id, { data, fileName: name, text, savedText: text })}
+                  onTextChange={(text) => updateTab(tab.id, { text })}
+                  onFileNameChange={(name) => updateTab(tab.id, { fileName: name })}
+                  onSave={(text) => updateTab(tab.id, { savedText: text })}
+                  onReset={() => updateTab(tab.id, { data: {}, fileName: '', text: '', savedText: '' })}
+                />
+              </CommandProvider>
+            </div>
+          ))}
         </main>
       </div>
+      <CommandPalette />
+    </>
+  )
+}
+
+function App() {
+  return (
+    <ThemeProvider>
+      <CommandProvider>
+        <AppContent />
+      </CommandProvider>
     </ThemeProvider>
   )
 }
 
 export default App
-
@@ -0,0 +1,166 @@
+import { useState, useEffect, useRef, useMemo, useCallback } from 'react'
+import { useCommandRegistry, type Command } from '../contexts/CommandContext'
+import { fuzzyMatch } from '../utils/fuzzyMatch'
+import './CommandPalette.css'
+
+interface PaletteItem {
+  command: Command
+  score: number
+  // 标题中匹配的字符位置（匹配的是分类或关键字时为空）
+  indices: number[]
+}
+
+// 按模糊匹配得分排序；标题匹配优先于分类和关键字匹配，查询为空时保持注册顺序
+function filterCommands(commands: Command[], query: string): PaletteItem[] {
+  const items: PaletteItem[] = []
+  commands.forEach(command => {
+    const titleMatch = fuzzyMatch(query, command.title)
+    if (titleMatch) {
+      items.push({ command, score: titleMatch.score, indices: titleMatch.indices })
+      return
+    }
+    const extraMatch = fuzzyMatch(query, `${command.category ?? ''} ${command.keywords ?? ''}`)
+    if (extraMatch) {
+      items.push({ command, score: extraMatch.score - 1, indices: [] })
+    }
+  })
+  if (query.trim()) {
+    items.sort((a, b) => b.score - a.score)
+  }
+  return items
+}
+
+function HighlightedTitle({ title, indices }: { title: string; indices: number[] }) {
+  if (indices.length === 0) return <>{title}</>
+  const matched = new Set(indices)
+  return (
+    <>
+      {title.split('').map((char, index) => matched.has(index)
+        ? <mark key={index} className="command-palette-match">{char}</mark>
+        : char
+      )}
+    </>
+  )
+}
+
+// 命令面板：Ctrl+Shift+P 打开，模糊搜索所有已注册的命令
+export default function CommandPalette() {
+  const registry = useCommandRegistry()
+  const [isOpen, setIsOpen] = useState(false)
+  const [commands, setCommands] = useState<Command[]>([])
+  const [query, setQuery] = useState('')
+  const [activeIndex, setActiveIndex] = useState(0)
+  const inputRef = useRef<HTMLInputElement>(null)
+  const listRef = useRef<HTMLDivElement>(null)
+  // 打开面板前获得焦点的元素，关闭后焦点回到该元素
+  const previousFocusRef = useRef<HTMLElement | null>(null)
+
+  const open = useCallback(() => {
+    previousFocusRef.current = document.activeElement as HTMLElement | null
+    setCommands(registry.getCommands())
+    setQuery('')
+    setActiveIndex(0)
+    setIsOpen(true)
+  }, [registry])
+
+  const close = useCallback(() => {
+    setIsOpen(false)
+    previousFocusRef.current?.focus()
+    previousFocusRef.current = null
+  }, [])
+
+  // 捕获阶段监听，优先于 Monaco 编辑器自带的命令面板快捷键
+  useEffect(() => {
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if ((e.ctrlKey || e.metaKey) && e.shiftKey && e.key.toLowerCase() === 'p') {
+        e.preventDefault()
+        e.stopPropagation()
+        if (isOpen) {
+          close()
+        } else {
+          open()
+        }
+      }
+    }
+    window.addEventListener('keydown', handleKeyDown, true)
+    return () => window.removeEventListener('keydown', handleKeyDown, true)
+  }, [isOpen, open, close])
+
+  useEffect(() => {
+    if (isOpen) {
+      inputRef.current?.focus()
+    }
+  }, [isOpen])
+
+  const items = useMemo(() => filterCommands(commands, query), [commands, query])
+
+  useEffect(() => {
+    setActiveIndex(0)
+  }, [query])
+
+  // 保持当前选中的命令在可视范围内
+  useEffect(() => {
+    listRef.current?.querySelector('.command-palette-item.active')?.scrollIntoView({ block: 'nearest' })
+  }, [activeIndex, items])
+
+  const runCommand = useCallback((command: Command) => {
+    if (command.disabled) return
+    close()
+    command.run()
+  }, [close])
+
+  const handleKeyDown = useCallback((e: React.KeyboardEvent<HTMLInputElement>) => {
+    if (e.key === 'ArrowDown' || e.key === 'ArrowUp') {
+      e.preventDefault()
+      if (items.length === 0) return
+      const step = e.key === 'ArrowDown' ? 1 : -1
+      setActiveIndex(index => (index + step + items.length) % items.length)
+    } else if (e.key === 'Enter') {
+      e.preventDefault()
+      const item = items[activeIndex]
+      if (item) runCommand(item.command)
+    } else if (e.key === 'Escape') {
+      e.preventDefault()
+      close()
+    }
+  }, [items, activeIndex, runCommand, close])
+
+  if (!isOpen) return null
+
+  return (
+    <div className="command-palette-overlay" onMouseDown={close}>
+      <div className="command-palette" onMouseDown={(e) => e.stopPropagation()}>
+        <input
+          ref={inputRef}
+          type="text"
+          className="command-palette-input"
+          value={query}
+          onChange={(e) => setQuery(e.target.value)}
+          onKeyDown={handleKeyDown}
+          placeholder="输入命令名称搜索"
+        />
+        <div className="command-palette-list" ref={listRef}>
+          {items.length === 0 ? (
+            <div className="command-palette-empty">没有匹配的命令</div>
+          ) : (
+            items.map(({ command, indices }, index) => (
+              <button
+                key={command.id}
+                className={`command-palette-item ${index === activeIndex ? 'active' : ''}`}
+                onClick={() => runCommand(command)}
+                onMouseMove={() => setActiveIndex(index)}
+                disabled={command.disabled}
+              >
+                {command.category && <span className="command-palette-category">{command.category}:</span>}
+                <span className="command-palette-title">
+                  <HighlightedTitle title={command.title} indices={indices} />
+                </span>
+                {command.keybinding && <kbd className="command-palette-keybinding">{command.keybinding}</kbd>}
+              </button>
+            ))
+          )}
+        </div>
+      </div>
+    </div>
+  )
+}
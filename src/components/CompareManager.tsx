@@ -0,0 +1,183 @@
+import { useState, useEffect, useRef, useCallback } from 'react'
+import { CloseIcon, ChevronDownIcon, DiffIcon } from './Icons'
+import { useRegisterCommands } from '../contexts/CommandContext'
+import { convertToYamlText, IMPORT_ACCEPT } from '../utils/importFormats'
+import { parseYamlStream } from '../utils/yamlDocuments'
+import './CompareManager.css'
+
+interface CompareManagerProps {
+  isActive: boolean
+  compareName: string
+  onCompareLoad: (text: string, name: string) => void
+  onCompareClose: () => void
+}
+
+export default function CompareManager({ isActive, compareName, onCompareLoad, onCompareClose }: CompareManagerProps) {
+  const [isOpen, setIsOpen] = useState(false)
+  const [showPasteDialog, setShowPasteDialog] = useState(false)
+  const [compareText, setCompareText] = useState('')
+  const menuRef = useRef<HTMLDivElement>(null)
+  const fileInputRef = useRef<HTMLInputElement>(null)
+
+  // 解析对比文本（非 YAML 格式先转换为 YAML），失败时提示错误
+  const applyCompareText = useCallback((text: string, name: string): boolean => {
+    try {
+      const yamlText = convertToYamlText(text, name)
+      const errors = parseYamlStream(yamlText).flatMap(doc => doc.errors)
+      if (errors.length > 0) {
+        throw errors[0]
+      }
+      onCompareLoad(yamlText, name)
+      return true
+    } catch (error) {
+      alert(`加载对比内容失败: ${error instanceof Error ? error.message : '未知错误'}`)
+      return false
+    }
+  }, [onCompareLoad])
+
+  const handleFileSelect = useCallback(async (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0]
+    event.target.value = ''
+    if (!file) return
+    const text = await file.text()
+    if (applyCompareText(text, file.name)) {
+      setIsOpen(false)
+    }
+  }, [applyCompareText])
+
+  const handlePasteApply = useCallback(() => {
+    if (applyCompareText(compareText, '粘贴的内容')) {
+      setShowPasteDialog(false)
+      setCompareText('')
+      setIsOpen(false)
+    }
+  }, [compareText, applyCompareText])
+
+  // 点击外部关闭菜单
+  useEffect(() => {
+    const handleClickOutside = (event: MouseEvent) => {
+      if (menuRef.current && !menuRef.current.contains(event.target as Node)) {
+        setIsOpen(false)
+      }
+    }
+
+    if (isOpen) {
+      document.addEventListener('mousedown', handleClickOutside)
+    }
+
+    return () => {
+      document.removeEventListener('mousedown', handleClickOutside)
+    }
+  }, [isOpen])
+
+  useRegisterCommands([
+    { id: 'compare.loadFile', category: '对比', title: '从文件加载对比文档', keywords: 'compare diff file', run: () => fileInputRef.current?.click() },
+    { id: 'compare.paste', category: '对比', title: '粘贴文本进行对比', keywords: 'compare diff paste', run: () => setShowPasteDialog(true) },
+    { id: 'compare.close', category: '对比', title: '关闭对比', keywords: 'compare diff close', disabled: !isActive, run: onCompareClose },
+  ])
+
+  return (
+    <>
+      <div className="compare-menu-container" ref={menuRef}>
+        <button
+          className={`btn btn-secondary ${isActive ? 'active' : ''}`}
+          onClick={() => setIsOpen(!isOpen)}
+          title={isActive ? `正在对比: ${compareName}` : '与另一个文件按结构对比'}
+        >
+          <DiffIcon size={14} />
+          <span>对比</span>
+          <ChevronDownIcon size={12} />
+        </button>
+        <input
+          ref={fileInputRef}
+          type="file"
+          accept={IMPORT_ACCEPT}
+          onChange={handleFileSelect}
+          style={{ display: 'none' }}
+        />
+        {isOpen && (
+          <div className="compare-menu">
+            {isActive && (
+              <div className="compare-menu-current" title={compareName}>
+                {compareName}
+              </div>
+            )}
+            <button
+              className="compare-menu-item"
+              onClick={() => fileInputRef.current?.click()}
+            >
+              从文件加载...
+            </button>
+            <button
+              className="compare-menu-item"
+              onClick={() => {
+                setShowPasteDialog(true)
+                setIsOpen(false)
+              }}
+            >
+              粘贴文本...
+            </button>
+            {isActive && (
+              <button
+                className="compare-menu-item compare-menu-item-danger"
+                onClick={() => {
+                  onCompareClose()
+                  setIsOpen(false)
+                }}
+              >
+                关闭对比
+              </button>
+            )}
+          </div>
+        )}
+      </div>
+
+      {/* 粘贴对比文本对话框 */}
+      {showPasteDialog && (
+        <div className="compare-dialog-overlay">
+          <div className="compare-dialog">
+            <div className="compare-dialog-header">
+              <span className="compare-dialog-title">粘贴要对比的内容</span>
+              <button
+                className="compare-dialog-close"
+                onClick={() => {
+                  setShowPasteDialog(false)
+                  setCompareText('')
+                }}
+              >
+                <CloseIcon size={16} />
+              </button>
+            </div>
+            <div className="compare-dialog-content">
+              <textarea
+                value={compareText}
+                onChange={(e) => setCompareText(e.target.value)}
+                placeholder="支持 YAML、JSON、TOML、XML"
+                rows={14}
+                autoFocus
+              />
+            </div>
+            <div className="compare-dialog-footer">
+              <button
+                className="btn btn-secondary"
+                onClick={() => {
+                  setShowPasteDialog(false)
+                  setCompareText('')
+                }}
+              >
+                取消
+              </button>
+              <button
+                className="btn btn-primary"
+                onClick={handlePasteApply}
+                disabled={!compareText.trim()}
+              >
+                对比
+              </button>
+            </div>
+          </div>
+        </div>
+      )}
+    </>
+  )
+}
@@ -0,0 +1,116 @@
+import { countDiffKinds, formatDiffValue, DIFF_KIND_LABELS, type DiffEntry, type DiffKind } from '../utils/structuralDiff'
+import { CloseIcon } from './Icons'
+import './DiffPanel.css'
+
+interface DiffPanelProps {
+  entries: DiffEntry[]
+  compareName: string
+  identityKey: string
+  onIdentityKeyChange: (key: string) => void
+  isOpen: boolean
+  onToggle: () => void
+  onSelect: (entry: DiffEntry) => void
+  onClose: () => void
+  // 与快照对比时，把差异所在的子树恢复为快照中的值
+  onRestore?: (entry: DiffEntry) => void
+}
+
+const DIFF_KINDS: DiffKind[] = ['added', 'removed', 'changed', 'moved']
+
+// 差异条目的说明文本
+function describeEntry(entry: DiffEntry): string {
+  switch (entry.kind) {
+    case 'added':
+      return formatDiffValue(entry.newValue)
+    case 'removed':
+      return formatDiffValue(entry.oldValue)
+    case 'changed':
+      return `${formatDiffValue(entry.oldValue)} → ${formatDiffValue(entry.newValue)}`
+    case 'moved':
+      return `从 ${entry.fromPath || '(根)'} 移动`
+  }
+}
+
+export default function DiffPanel({
+  entries,
+  compareName,
+  identityKey,
+  onIdentityKeyChange,
+  isOpen,
+  onToggle,
+  onSelect,
+  onClose,
+  onRestore,
+}: DiffPanelProps) {
+  const counts = countDiffKinds(entries)
+
+  return (
+    <div className={`diff-panel ${isOpen ? 'open' : ''}`}>
+      <div className="diff-panel-header" onClick={onToggle}>
+        <span className="diff-panel-title">
+          差异
+          <span className="diff-panel-name" title={compareName}>{compareName}</span>
+          {DIFF_KINDS.map(kind => counts[kind] > 0 && (
+            <span key={kind} className={`diff-count diff-count-${kind}`} title={DIFF_KIND_LABELS[kind]}>
+              {DIFF_KIND_LABELS[kind]} {counts[kind]}
+            </span>
+          ))}
+        </span>
+        <span className="diff-panel-actions">
+          <span className="diff-panel-toggle">
+            {isOpen ? '▼' : '▶'}
+          </span>
+          <button
+            className="diff-panel-close"
+            onClick={(e) => {
+              e.stopPropagation()
+              onClose()
+            }}
+            title="关闭对比"
+          >
+            <CloseIcon size={14} />
+          </button>
+        </span>
+      </div>
+      {isOpen && (
+        <div className="diff-panel-content">
+          <label className="diff-identity">
+            <span>数组按字段匹配</span>
+            <input
+              type="text"
+              value={identityKey}
+              onChange={(e) => onIdentityKeyChange(e.target.value)}
+              placeholder="如 name，留空按索引比较"
+            />
+          </label>
+          {entries.length === 0 ? (
+            <div className="diff-empty">两个文档结构相同</div>
+          ) : (
+            entries.map((entry, index) => (
+              <div key={`${entry.kind}-${entry.path}-${index}`} className="diff-item-row">
+                <button
+                  className={`diff-item diff-item-${entry.kind}`}
+                  onClick={() => onSelect(entry)}
+                  title={entry.kind === 'removed' ? '定位到父级' : '定位到该位置'}
+                >
+                  <span className="diff-item-kind">{DIFF_KIND_LABELS[entry.kind]}</span>
+                  <span className="diff-item-path">{entry.path || '(根)'}</span>
+                  <span className="diff-item-detail">{describeEntry(entry)}</span>
+                </button>
+                {onRestore && (
+                  <button
+                    className="diff-item-restore"
+                    onClick={() => onRestore(entry)}
+                    title="将该节点恢复为快照中的值"
+                  >
+                    恢复
+                  </button>
+                )}
+              </div>
+            ))
+          )}
+        </div>
+      )}
+    </div>
+  )
+}
@@ -0,0 +1,165 @@
+import { useState, useEffect, useRef, useCallback } from 'react'
+import { CloseIcon, DraftIcon } from './Icons'
+import { useRegisterCommands } from '../contexts/CommandContext'
+import { listDrafts, deleteDraft, clearDrafts, formatDraftTime, type Draft } from '../utils/drafts'
+import type { EditorTab } from '../hooks/useTabs'
+import './DraftManager.css'
+
+interface DraftManagerProps {
+  tabs: EditorTab[]
+  onRestore: (draft: Draft) => void
+}
+
+// 草稿内容与已打开的标签页一致时无需恢复
+function isDraftOpen(draft: Draft, tabs: EditorTab[]): boolean {
+  return tabs.some(tab => tab.id === draft.id && tab.text === draft.text)
+}
+
+export default function DraftManager({ tabs, onRestore }: DraftManagerProps) {
+  const [drafts, setDrafts] = useState<Draft[]>([])
+  const [showDialog, setShowDialog] = useState(false)
+  const [isLaunchPrompt, setIsLaunchPrompt] = useState(false)
+  const [error, setError] = useState('')
+  const tabsRef = useRef(tabs)
+  useEffect(() => {
+    tabsRef.current = tabs
+  }, [tabs])
+
+  const loadDrafts = useCallback(async (): Promise<Draft[]> => {
+    try {
+      const items = await listDrafts()
+      setDrafts(items)
+      setError('')
+      return items
+    } catch (err) {
+      setError(`读取草稿失败: ${err instanceof Error ? err.message : '未知错误'}`)
+      return []
+    }
+  }, [])
+
+  // 启动时检查上次未保存的草稿，有可恢复的内容时提示
+  useEffect(() => {
+    loadDrafts().then(items => {
+      if (items.some(draft => !isDraftOpen(draft, tabsRef.current))) {
+        setIsLaunchPrompt(true)
+        setShowDialog(true)
+      }
+    })
+  }, [loadDrafts])
+
+  const openDialog = useCallback(() => {
+    setIsLaunchPrompt(false)
+    setShowDialog(true)
+    loadDrafts()
+  }, [loadDrafts])
+
+  const handleDiscard = useCallback(async (draft: Draft) => {
+    try {
+      await deleteDraft(draft.id)
+      setDrafts(prev => prev.filter(item => item.id !== draft.id))
+    } catch (err) {
+      alert(`丢弃草稿失败: ${err instanceof Error ? err.message : '未知错误'}`)
+    }
+  }, [])
+
+  const handleDiscardAll = useCallback(async () => {
+    if (!confirm('确定丢弃所有草稿吗？已打开标签页中的修改不受影响，但其草稿会被删除。')) return
+    try {
+      await clearDrafts()
+      setDrafts([])
+    } catch (err) {
+      alert(`丢弃草稿失败: ${err instanceof Error ? err.message : '未知错误'}`)
+    }
+  }, [])
+
+  // 在新标签页中打开草稿，原草稿由新标签页的自动保存接管
+  const handleRestore = useCallback((draft: Draft) => {
+    onRestore(draft)
+    setDrafts(prev => prev.filter(item => item.id !== draft.id))
+    deleteDraft(draft.id).catch(err => alert(`删除已恢复的草稿失败: ${err instanceof Error ? err.message : '未知错误'}`))
+  }, [onRestore])
+
+  const visibleDrafts = isLaunchPrompt ? drafts.filter(draft => !isDraftOpen(draft, tabs)) : drafts
+
+  useRegisterCommands([
+    { id: 'draft.open', category: '草稿', title: '查看自动保存的草稿', keywords: 'draft autosave recover', run: openDialog },
+  ])
+
+  return (
+    <>
+      <button className="draft-manager-btn" onClick={openDialog} title="自动保存的草稿">
+        <DraftIcon size={14} />
+        <span>草稿</span>
+      </button>
+
+      {showDialog && (
+        <div className="draft-dialog-overlay">
+          <div className="draft-dialog">
+            <div className="draft-dialog-header">
+              <span className="draft-dialog-title">{isLaunchPrompt ? '恢复未保存的草稿' : '草稿'}</span>
+              <button className="draft-dialog-close" onClick={() => setShowDialog(false)}>
+                <CloseIcon size={16} />
+              </button>
+            </div>
+            <div className="draft-dialog-content">
+              <div className="draft-dialog-hint">
+                {isLaunchPrompt
+                  ? '上次关闭页面时有未保存的修改，可以在新标签页中恢复，或丢弃不需要的草稿。'
+                  : '有未保存修改的文档会在后台自动保存为草稿，保存文件或关闭标签页后草稿会被删除。'}
+              </div>
+              {error && <div className="draft-error">{error}</div>}
+              {visibleDrafts.length === 0 ? (
+                <div className="draft-empty">暂无草稿</div>
+              ) : (
+                <div className="draft-list">
+                  {visibleDrafts.map(draft => {
+                    const isOpen = isDraftOpen(draft, tabs)
+                    const lineCount = draft.text ? draft.text.split('\n').length : 0
+                    return (
+                      <div key={draft.id} className="draft-item">
+                        <div className="draft-item-info">
+                          <span className="draft-item-name" title={draft.fileName}>
+                            {draft.fileName || '未命名文件.yaml'}
+                          </span>
+                          <span className="draft-item-meta">
+                            {formatDraftTime(draft.updatedAt)} · {lineCount} 行
+                            {isOpen && ' · 已在标签页中打开'}
+                          </span>
+                        </div>
+                        <div className="draft-item-actions">
+                          <button
+                            className="btn btn-primary"
+                            onClick={() => handleRestore(draft)}
+                            disabled={isOpen}
+                            title="在新标签页中打开草稿"
+                          >
+                            恢复
+                          </button>
+                          <button className="btn btn-secondary" onClick={() => handleDiscard(draft)}>
+                            丢弃
+                          </button>
+                        </div>
+                      </div>
+                    )
+                  })}
+                </div>
+              )}
+            </div>
+            <div className="draft-dialog-footer">
+              <button
+                className="btn btn-secondary"
+                onClick={handleDiscardAll}
+                disabled={drafts.length === 0}
+              >
+                全部丢弃
+              </button>
+              <button className="btn btn-primary" onClick={() => setShowDialog(false)}>
+                {isLaunchPrompt ? '稍后处理' : '关闭'}
+              </button>
+            </div>
+          </div>
+        </div>
+      )}
+    </>
+  )
+}
@@ -0,0 +1,219 @@
+import { useState, useMemo, useEffect, useRef } from 'react'
+import { REPLACE_SCOPE_LABELS, type FindReplaceOptions, type ReplacementMatch, type ReplaceScope } from '../utils/findReplace'
+import { CloseIcon } from './Icons'
+import './FindReplacePanel.css'
+
+interface FindReplacePanelProps {
+  initialQuery: string
+  isOpen: boolean
+  onToggle: () => void
+  onClose: () => void
+  // 按当前文档计算替换预览，文档变化时函数随之更新
+  findMatches: (options: FindReplaceOptions) => ReplacementMatch[]
+  // selectedIds 为 null 时应用全部替换
+  onApply: (options: FindReplaceOptions, selectedIds: Set<string> | null) => void
+  onSelect: (path: string) => void
+}
+
+const REPLACE_SCOPES: ReplaceScope[] = ['both', 'keys', 'values']
+
+export default function FindReplacePanel({
+  initialQuery,
+  isOpen,
+  onToggle,
+  onClose,
+  findMatches,
+  onApply,
+  onSelect,
+}: FindReplacePanelProps) {
+  const [options, setOptions] = useState<FindReplaceOptions>({
+    query: initialQuery,
+    replacement: '',
+    useRegex: false,
+    caseSensitive: false,
+    scope: 'both',
+    subtreePath: '',
+  })
+  // 取消勾选的替换项（新出现的匹配默认勾选）
+  const [excluded, setExcluded] = useState<Set<string>>(new Set())
+  const queryInputRef = useRef<HTMLInputElement>(null)
+
+  useEffect(() => {
+    if (isOpen) {
+      queryInputRef.current?.focus()
+    }
+  }, [isOpen])
+
+  const { matches, error } = useMemo(() => {
+    try {
+      return { matches: findMatches(options), error: '' }
+    } catch (e) {
+      return { matches: [] as ReplacementMatch[], error: e instanceof Error ? e.message : String(e) }
+    }
+  }, [findMatches, options])
+
+  const updateOptions = (patch: Partial<FindReplaceOptions>) => {
+    setOptions(prev => ({ ...prev, ...patch }))
+    setExcluded(new Set())
+  }
+
+  const applicable = matches.filter(match => !match.conflict)
+  const selectedCount = applicable.filter(match => !excluded.has(match.id)).length
+  const allSelected = applicable.length > 0 && selectedCount === applicable.length
+
+  const toggleMatch = (id: string) => {
+    setExcluded(prev => {
+      const next = new Set(prev)
+      if (next.has(id)) {
+        next.delete(id)
+      } else {
+        next.add(id)
+      }
+      return next
+    })
+  }
+
+  const handleApplySelected = () => {
+    onApply(options, new Set(applicable.filter(match => !excluded.has(match.id)).map(match => match.id)))
+    setExcluded(new Set())
+  }
+
+  const handleApplyAll = () => {
+    onApply(options, null)
+    setExcluded(new Set())
+  }
+
+  return (
+    <div className={`find-replace-panel ${isOpen ? 'open' : ''}`}>
+      <div className="find-replace-header" onClick={onToggle}>
+        <span className="find-replace-title">
+          查找替换
+          {options.query && !error && <span className="find-replace-count">{matches.length}</span>}
+        </span>
+        <span className="find-replace-actions">
+          <span className="find-replace-toggle">
+            {isOpen ? '▼' : '▶'}
+          </span>
+          <button
+            className="find-replace-close"
+            onClick={(e) => {
+              e.stopPropagation()
+              onClose()
+            }}
+            title="关闭查找替换"
+          >
+            <CloseIcon size={14} />
+          </button>
+        </span>
+      </div>
+      {isOpen && (
+        <div className="find-replace-content">
+          <div className="find-replace-row">
+            <input
+              ref={queryInputRef}
+              type="text"
+              className="find-replace-input"
+              value={options.query}
+              onChange={(e) => updateOptions({ query: e.target.value })}
+              placeholder="查找"
+            />
+            <button
+              className={`find-replace-option ${options.useRegex ? 'active' : ''}`}
+              onClick={() => updateOptions({ useRegex: !options.useRegex })}
+              title="使用正则表达式"
+            >
+              .*
+            </button>
+            <button
+              className={`find-replace-option ${options.caseSensitive ? 'active' : ''}`}
+              onClick={() => updateOptions({ caseSensitive: !options.caseSensitive })}
+              title="区分大小写"
+            >
+              Aa
+            </button>
+          </div>
+          <div className="find-replace-row">
+            <input
+              type="text"
+              className="find-replace-input"
+              value={options.replacement}
+              onChange={(e) => updateOptions({ replacement: e.target.value })}
+              placeholder={options.useRegex ? '替换为（可用 $1、$<name> 引用捕获组）' : '替换为'}
+            />
+          </div>
+          <div className="find-replace-row">
+            <select
+              className="find-replace-select"
+              value={options.scope}
+              onChange={(e) => updateOptions({ scope: e.target.value as ReplaceScope })}
+              title="替换范围"
+            >
+              {REPLACE_SCOPES.map(scope => (
+                <option key={scope} value={scope}>{REPLACE_SCOPE_LABELS[scope]}</option>
+              ))}
+            </select>
+            <input
+              type="text"
+              className="find-replace-input find-replace-subtree"
+              value={options.subtreePath}
+              onChange={(e) => updateOptions({ subtreePath: e.target.value })}
+              placeholder="限定子树，如 /spec/template（留空为整个文档）"
+            />
+          </div>
+          {error && <div className="find-replace-error">正则表达式无效：{error}</div>}
+
+          {options.query && !error && (
+            matches.length === 0 ? (
+              <div className="find-replace-empty">没有匹配项</div>
+            ) : (
+              <>
+                <div className="find-replace-summary">
+                  <label className="find-replace-check">
+                    <input
+                      type="checkbox"
+                      checked={allSelected}
+                      disabled={applicable.length === 0}
+                      onChange={() => setExcluded(allSelected ? new Set(applicable.map(match => match.id)) : new Set())}
+                    />
+                    <span>已选择 {selectedCount} / {matches.length} 处</span>
+                  </label>
+                  <span className="find-replace-buttons">
+                    <button className="find-replace-btn" onClick={handleApplySelected} disabled={selectedCount === 0}>
+                      替换选中
+                    </button>
+                    <button className="find-replace-btn primary" onClick={handleApplyAll} disabled={applicable.length === 0}>
+                      全部替换
+                    </button>
+                  </span>
+                </div>
+                <div className="find-replace-list">
+                  {matches.map(match => (
+                    <div
+                      key={match.id}
+                      className={`find-replace-item ${match.conflict ? 'conflict' : ''}`}
+                      title={match.conflict ? '新键名为空或与同级键重复，将跳过' : undefined}
+                    >
+                      <input
+                        type="checkbox"
+                        checked={!match.conflict && !excluded.has(match.id)}
+                        disabled={match.conflict}
+                        onChange={() => toggleMatch(match.id)}
+                      />
+                      <span className={`find-replace-kind ${match.kind}`}>{match.kind === 'key' ? '键' : '值'}</span>
+                      <button className="find-replace-path" onClick={() => onSelect(match.path)} title="定位到该位置">
+                        {match.path || '(根)'}
+                      </button>
+                      <span className="find-replace-before">{match.before}</span>
+                      <span className="find-replace-arrow">→</span>
+                      <span className="find-replace-after">{match.after || '(空)'}</span>
+                    </div>
+                  ))}
+                </div>
+              </>
+            )
+          )}
+        </div>
+      )}
+    </div>
+  )
+}
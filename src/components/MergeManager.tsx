@@ -0,0 +1,147 @@
+import { useState, useRef, useCallback } from 'react'
+import { CloseIcon, MergeIcon } from './Icons'
+import { useRegisterCommands } from '../contexts/CommandContext'
+import { convertToYamlText, IMPORT_ACCEPT } from '../utils/importFormats'
+import { parseYamlStream } from '../utils/yamlDocuments'
+import './MergeManager.css'
+
+export interface MergeSource {
+  text: string
+  name: string
+}
+
+interface MergeManagerProps {
+  isActive: boolean
+  onMergeStart: (base: MergeSource, theirs: MergeSource) => void
+}
+
+type SourceRole = 'base' | 'theirs'
+
+const EMPTY_SOURCE: MergeSource = { text: '', name: '' }
+
+const SOURCE_LABELS: Record<SourceRole, string> = {
+  base: '基础版本（共同祖先）',
+  theirs: '对方版本',
+}
+
+export default function MergeManager({ isActive, onMergeStart }: MergeManagerProps) {
+  const [showDialog, setShowDialog] = useState(false)
+  const [sources, setSources] = useState<Record<SourceRole, MergeSource>>({ base: EMPTY_SOURCE, theirs: EMPTY_SOURCE })
+  const baseFileInputRef = useRef<HTMLInputElement>(null)
+  const theirsFileInputRef = useRef<HTMLInputElement>(null)
+
+  const closeDialog = useCallback(() => {
+    setShowDialog(false)
+    setSources({ base: EMPTY_SOURCE, theirs: EMPTY_SOURCE })
+  }, [])
+
+  const handleFileSelect = useCallback(async (role: SourceRole, event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0]
+    event.target.value = ''
+    if (!file) return
+    const text = await file.text()
+    setSources(prev => ({ ...prev, [role]: { text, name: file.name } }))
+  }, [])
+
+  // 转换为 YAML 并检查语法，失败时提示错误
+  const handleStart = useCallback(() => {
+    try {
+      const converted = (['base', 'theirs'] as SourceRole[]).map(role => {
+        const source = sources[role]
+        const name = source.name || `粘贴的${SOURCE_LABELS[role]}`
+        const text = convertToYamlText(source.text, name)
+        const errors = parseYamlStream(text).flatMap(doc => doc.errors)
+        if (errors.length > 0) {
+          throw new Error(`${SOURCE_LABELS[role]}: ${errors[0].message}`)
+        }
+        return { text, name }
+      })
+      onMergeStart(converted[0], converted[1])
+      closeDialog()
+    } catch (error) {
+      alert(`开始合并失败: ${error instanceof Error ? error.message : '未知错误'}`)
+    }
+  }, [sources, onMergeStart, closeDialog])
+
+  const renderSource = (role: SourceRole, inputRef: React.RefObject<HTMLInputElement>) => (
+    <div className="merge-source">
+      <div className="merge-source-header">
+        <span className="merge-source-label">{SOURCE_LABELS[role]}</span>
+        <button className="btn btn-secondary" onClick={() => inputRef.current?.click()}>
+          选择文件...
+        </button>
+        <input
+          ref={inputRef}
+          type="file"
+          accept={IMPORT_ACCEPT}
+          onChange={(e) => handleFileSelect(role, e)}
+          style={{ display: 'none' }}
+        />
+      </div>
+      {sources[role].name && (
+        <div className="merge-source-name" title={sources[role].name}>{sources[role].name}</div>
+      )}
+      <textarea
+        value={sources[role].text}
+        onChange={(e) => {
+          const text = e.target.value
+          setSources(prev => ({ ...prev, [role]: { text, name: '' } }))
+        }}
+        placeholder="选择文件或粘贴内容（支持 YAML、JSON、TOML、XML）"
+        rows={12}
+      />
+    </div>
+  )
+
+  useRegisterCommands([
+    { id: 'merge.open', category: '合并', title: '三方合并', keywords: 'merge three-way', run: () => setShowDialog(true) },
+  ])
+
+  return (
+    <>
+      <button
+        className={`btn btn-secondary ${isActive ? 'active' : ''}`}
+        onClick={() => setShowDialog(true)}
+        title="三方合并：以当前文档作为我方版本"
+      >
+        <MergeIcon size={14} />
+        <span>合并</span>
+      </button>
+
+      {/* 三方合并对话框 */}
+      {showDialog && (
+        <div className="merge-dialog-overlay">
+          <div className="merge-dialog">
+            <div className="merge-dialog-header">
+              <span className="merge-dialog-title">三方合并</span>
+              <button className="merge-dialog-close" onClick={closeDialog}>
+                <CloseIcon size={16} />
+              </button>
+            </div>
+            <div className="merge-dialog-content">
+              <div className="merge-dialog-hint">
+                当前文档作为我方版本。双方不冲突的修改会自动应用，冲突的字段可在表单中选择我方、对方或手动编辑。
+              </div>
+              <div className="merge-sources">
+                {renderSource('base', baseFileInputRef)}
+                {renderSource('theirs', theirsFileInputRef)}
+              </div>
+            </div>
+            <div className="merge-dialog-footer">
+              <button className="btn btn-secondary" onClick={closeDialog}>
+                取消
+              </button>
+              <button
+                className="btn btn-primary"
+                onClick={handleStart}
+                disabled={!sources.base.text.trim() || !sources.theirs.text.trim()}
+              >
+                开始合并
+              </button>
+            </div>
+          </div>
+        </div>
+      )}
+    </>
+  )
+}
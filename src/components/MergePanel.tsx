@@ -0,0 +1,100 @@
+import { formatMergeValue, MERGE_RESOLUTION_LABELS, type MergeConflict, type MergeResolution } from '../utils/threeWayMerge'
+import './MergePanel.css'
+
+interface MergePanelProps {
+  conflicts: MergeConflict[]
+  resolutions: Map<string, MergeResolution>
+  theirsName: string
+  appliedCount: number
+  isOpen: boolean
+  onToggle: () => void
+  onSelect: (conflict: MergeConflict) => void
+  onResolve: (conflict: MergeConflict, resolution: MergeResolution) => void
+  onFinish: () => void
+}
+
+const RESOLUTIONS: MergeResolution[] = ['ours', 'theirs', 'manual']
+
+export default function MergePanel({
+  conflicts,
+  resolutions,
+  theirsName,
+  appliedCount,
+  isOpen,
+  onToggle,
+  onSelect,
+  onResolve,
+  onFinish,
+}: MergePanelProps) {
+  const unresolvedCount = conflicts.filter(conflict => !resolutions.has(conflict.path)).length
+
+  return (
+    <div className={`merge-panel ${isOpen ? 'open' : ''}`}>
+      <div className="merge-panel-header" onClick={onToggle}>
+        <span className="merge-panel-title">
+          合并
+          <span className="merge-panel-name" title={theirsName}>{theirsName}</span>
+          {unresolvedCount > 0 ? (
+            <span className="merge-count merge-count-unresolved">{unresolvedCount} 个冲突未解决</span>
+          ) : (
+            <span className="merge-count merge-count-resolved">冲突已全部解决</span>
+          )}
+        </span>
+        <span className="merge-panel-actions">
+          <span className="merge-panel-toggle">
+            {isOpen ? '▼' : '▶'}
+          </span>
+          <button
+            className="btn btn-primary merge-finish-btn"
+            onClick={(e) => {
+              e.stopPropagation()
+              onFinish()
+            }}
+            title="结束合并模式"
+          >
+            完成合并
+          </button>
+        </span>
+      </div>
+      {isOpen && (
+        <div className="merge-panel-content">
+          <div className="merge-summary">已自动应用 {appliedCount} 处对方修改，共 {conflicts.length} 个冲突</div>
+          {conflicts.map(conflict => {
+            const resolution = resolutions.get(conflict.path)
+            return (
+              <div
+                key={conflict.path}
+                className={`merge-conflict ${resolution ? 'resolved' : ''}`}
+              >
+                <button
+                  className="merge-conflict-path"
+                  onClick={() => onSelect(conflict)}
+                  title="在表单中定位"
+                >
+                  {conflict.path || '(根)'}
+                </button>
+                <div className="merge-conflict-values">
+                  <span title={formatMergeValue(conflict.base)}>基础: {formatMergeValue(conflict.base)}</span>
+                  <span title={formatMergeValue(conflict.ours)}>我方: {formatMergeValue(conflict.ours)}</span>
+                  <span title={formatMergeValue(conflict.theirs)}>对方: {formatMergeValue(conflict.theirs)}</span>
+                </div>
+                <div className="merge-conflict-actions">
+                  {RESOLUTIONS.map(option => (
+                    <button
+                      key={option}
+                      className={`merge-resolve-btn ${resolution === option ? 'active' : ''}`}
+                      onClick={() => onResolve(conflict, option)}
+                      title={option === 'manual' ? '保留表单中手动编辑的值' : `使用${MERGE_RESOLUTION_LABELS[option]}的值`}
+                    >
+                      {MERGE_RESOLUTION_LABELS[option]}
+                    </button>
+                  ))}
+                </div>
+              </div>
+            )
+          })}
+        </div>
+      )}
+    </div>
+  )
+}
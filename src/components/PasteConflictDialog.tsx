@@ -0,0 +1,54 @@
+import { CloseIcon } from './Icons'
+import { PASTE_COLLISION_LABELS, type PasteCollision } from '../utils/subtreeClipboard'
+import './PasteConflictDialog.css'
+
+interface PasteConflictDialogProps {
+  keys: string[]
+  onResolve: (collision: PasteCollision) => void
+  onCancel: () => void
+}
+
+const COLLISION_HINTS: Record<PasteCollision, string> = {
+  overwrite: '用粘贴的值替换已有的值',
+  rename: '保留已有的键，粘贴的键加上 _copy 后缀',
+  merge: '对象逐键深度合并，其他值使用粘贴的值',
+}
+
+const COLLISIONS: PasteCollision[] = ['overwrite', 'rename', 'merge']
+
+// 粘贴的键与目标对象中已有的键冲突时，选择处理方式
+export default function PasteConflictDialog({ keys, onResolve, onCancel }: PasteConflictDialogProps) {
+  return (
+    <div className="paste-dialog-overlay" onMouseDown={(e) => e.stopPropagation()}>
+      <div className="paste-dialog">
+        <div className="paste-dialog-header">
+          <span className="paste-dialog-title">键已存在</span>
+          <button className="paste-dialog-close" onClick={onCancel}>
+            <CloseIcon size={16} />
+          </button>
+        </div>
+        <div className="paste-dialog-content">
+          <div className="paste-dialog-hint">以下键在目标位置已存在，请选择处理方式：</div>
+          <div className="paste-dialog-keys">
+            {keys.map(key => (
+              <code key={key}>{key}</code>
+            ))}
+          </div>
+          <div className="paste-dialog-options">
+            {COLLISIONS.map(collision => (
+              <button key={collision} className="paste-dialog-option" onClick={() => onResolve(collision)}>
+                <span className="paste-dialog-option-label">{PASTE_COLLISION_LABELS[collision]}</span>
+                <span className="paste-dialog-option-hint">{COLLISION_HINTS[collision]}</span>
+              </button>
+            ))}
+          </div>
+        </div>
+        <div className="paste-dialog-footer">
+          <button className="btn btn-secondary" onClick={onCancel}>
+            取消
+          </button>
+        </div>
+      </div>
+    </div>
+  )
+}
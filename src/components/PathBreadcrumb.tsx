@@ -0,0 +1,156 @@
+import { useState, useEffect, useRef, Fragment } from 'react'
+import { appendPath, formatPath, getValueAtPath, pointerToSegments, type PathSegment } from '../utils/path'
+import { ChevronRightIcon, ChevronDownIcon, ChevronUpIcon, CopyIcon, FoldIcon } from './Icons'
+import './PathBreadcrumb.css'
+
+interface PathBreadcrumbProps {
+  data: any
+  // 当前路径：表单中获得焦点的字段或编辑器光标所在的节点，null 表示尚未选中任何节点
+  path: string | null
+  onNavigate: (path: string) => void
+  // 只展开当前分支，折叠其他所有节点
+  onFocusBranch: (path: string) => void
+}
+
+function formatSegment(segment: PathSegment): string {
+  return typeof segment === 'number' ? `[${segment}]` : segment
+}
+
+// 节点的直接子项：对象的键或数组的索引
+function getChildSegments(value: any): PathSegment[] {
+  if (Array.isArray(value)) return value.map((_, index) => index)
+  if (typeof value === 'object' && value !== null) return Object.keys(value)
+  return []
+}
+
+export default function PathBreadcrumb({ data, path, onNavigate, onFocusBranch }: PathBreadcrumbProps) {
+  // 打开了同级节点菜单的路径段索引
+  const [menuIndex, setMenuIndex] = useState<number | null>(null)
+  const [copied, setCopied] = useState(false)
+  const menuRef = useRef<HTMLDivElement>(null)
+
+  useEffect(() => {
+    const handleClickOutside = (event: MouseEvent) => {
+      if (menuRef.current && !menuRef.current.contains(event.target as Node)) {
+        setMenuIndex(null)
+      }
+    }
+    if (menuIndex !== null) {
+      document.addEventListener('mousedown', handleClickOutside)
+    }
+    return () => {
+      document.removeEventListener('mousedown', handleClickOutside)
+    }
+  }, [menuIndex])
+
+  useEffect(() => {
+    setMenuIndex(null)
+  }, [path])
+
+  if (path === null) {
+    return (
+      <div className="path-breadcrumb">
+        <span className="breadcrumb-hint">点击表单中的字段或在编辑器中移动光标以显示路径</span>
+      </div>
+    )
+  }
+
+  const segments = pointerToSegments(path, data)
+  const parentPath = formatPath(segments.slice(0, -1))
+
+  const navigate = (target: string) => {
+    setMenuIndex(null)
+    onNavigate(target)
+  }
+
+  const handleCopy = async () => {
+    try {
+      await navigator.clipboard.writeText(path)
+      setCopied(true)
+      window.setTimeout(() => setCopied(false), 1500)
+    } catch (error) {
+      alert(`复制路径失败: ${error instanceof Error ? error.message : '未知错误'}`)
+    }
+  }
+
+  return (
+    <div className="path-breadcrumb">
+      <div className="breadcrumb-trail">
+        <button
+          className={`breadcrumb-segment ${segments.length === 0 ? 'current' : ''}`}
+          onClick={() => navigate('')}
+          title="根节点"
+        >
+          根
+        </button>
+        {segments.map((segment, index) => {
+          const segmentParent = segments.slice(0, index)
+          const segmentParentPath = formatPath(segmentParent)
+          const siblings = getChildSegments(getValueAtPath(data, segmentParent))
+          const isLast = index === segments.length - 1
+          return (
+            <Fragment key={index}>
+              <ChevronRightIcon size={12} className="breadcrumb-separator" />
+              <div className="breadcrumb-item" ref={menuIndex === index ? menuRef : undefined}>
+                <button
+                  className={`breadcrumb-segment ${isLast ? 'current' : ''}`}
+                  onClick={() => navigate(formatPath(segments.slice(0, index + 1)))}
+                  title={formatPath(segments.slice(0, index + 1))}
+                >
+                  {formatSegment(segment)}
+                </button>
+                {siblings.length > 1 && (
+                  <button
+                    className={`breadcrumb-siblings-btn ${menuIndex === index ? 'active' : ''}`}
+                    onClick={() => setMenuIndex(menuIndex === index ? null : index)}
+                    title="跳转到同级节点"
+                  >
+                    <ChevronDownIcon size={10} />
+                  </button>
+                )}
+                {menuIndex === index && (
+                  <div className="breadcrumb-menu">
+                    {siblings.map(sibling => (
+                      <button
+                        key={String(sibling)}
+                        className={`breadcrumb-menu-item ${sibling === segment ? 'current' : ''}`}
+                        onClick={() => navigate(appendPath(segmentParentPath, sibling))}
+                      >
+                        {formatSegment(sibling)}
+                      </button>
+                    ))}
+                  </div>
+                )}
+              </div>
+            </Fragment>
+          )
+        })}
+      </div>
+      <div className="breadcrumb-actions">
+        <button
+          className="breadcrumb-action"
+          onClick={() => navigate(parentPath)}
+          disabled={segments.length === 0}
+          title="跳转到父级"
+        >
+          <ChevronUpIcon size={14} />
+        </button>
+        <button
+          className="breadcrumb-action"
+          onClick={() => onFocusBranch(path)}
+          title="只展开当前分支，折叠其他节点"
+        >
+          <FoldIcon size={14} />
+        </button>
+        <button
+          className="breadcrumb-action"
+          onClick={handleCopy}
+          disabled={segments.length === 0}
+          title={copied ? '已复制' : '复制路径'}
+        >
+          <CopyIcon size={14} />
+        </button>
+      </div>
+    </div>
+  )
+}
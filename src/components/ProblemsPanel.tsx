@@ -0,0 +1,50 @@
+import { PROBLEM_SOURCE_LABELS, type Problem } from '../utils/problems'
+import './ProblemsPanel.css'
+
+interface ProblemsPanelProps {
+  problems: Problem[]
+  isOpen: boolean
+  onToggle: () => void
+  onSelect: (problem: Problem) => void
+}
+
+export default function ProblemsPanel({ problems, isOpen, onToggle, onSelect }: ProblemsPanelProps) {
+  const errorCount = problems.filter(p => p.severity === 'error').length
+  const warningCount = problems.length - errorCount
+
+  return (
+    <div className={`problems-panel ${isOpen ? 'open' : ''}`}>
+      <div className="problems-panel-header" onClick={onToggle}>
+        <span className="problems-panel-title">
+          问题
+          {errorCount > 0 && <span className="problems-count problems-count-error">{errorCount}</span>}
+          {warningCount > 0 && <span className="problems-count problems-count-warning">{warningCount}</span>}
+        </span>
+        <span className="problems-panel-toggle">
+          {isOpen ? '▼' : '▶'}
+        </span>
+      </div>
+      {isOpen && (
+        <div className="problems-panel-content">
+          {problems.length === 0 ? (
+            <div className="problems-empty">未发现问题</div>
+          ) : (
+            problems.map((problem, index) => (
+              <button
+                key={`${problem.path}-${index}`}
+                className={`problem-item problem-${problem.severity}`}
+                onClick={() => onSelect(problem)}
+                title="定位到该位置"
+              >
+                <span className="problem-severity">{problem.severity === 'error' ? '✖' : '⚠'}</span>
+                <span className="problem-message">{problem.message}</span>
+                <span className="problem-source">{PROBLEM_SOURCE_LABELS[problem.source]}</span>
+                <span className="problem-path">{problem.path || '(根)'}</span>
+              </button>
+            ))
+          )}
+        </div>
+      )}
+    </div>
+  )
+}
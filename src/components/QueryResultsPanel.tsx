@@ -0,0 +1,64 @@
+import { formatDiffValue } from '../utils/structuralDiff'
+import { QUERY_LANGUAGE_LABELS, type QueryLanguage, type QueryResult } from '../utils/pathQuery'
+import './QueryResultsPanel.css'
+
+interface QueryResultsPanelProps {
+  language: QueryLanguage
+  results: QueryResult[]
+  error: string
+  isOpen: boolean
+  onToggle: () => void
+  onSelect: (path: string) => void
+}
+
+// 结果过多时只渲染前面的部分，表单中仍按全部结果过滤
+const MAX_VISIBLE_RESULTS = 500
+
+export default function QueryResultsPanel({ language, results, error, isOpen, onToggle, onSelect }: QueryResultsPanelProps) {
+  const visibleResults = results.slice(0, MAX_VISIBLE_RESULTS)
+
+  return (
+    <div className={`query-results-panel ${isOpen ? 'open' : ''}`}>
+      <div className="query-results-header" onClick={onToggle}>
+        <span className="query-results-title">
+          {QUERY_LANGUAGE_LABELS[language]} 查询结果
+          {!error && <span className="query-results-count">{results.length}</span>}
+        </span>
+        <span className="query-results-toggle">
+          {isOpen ? '▼' : '▶'}
+        </span>
+      </div>
+      {isOpen && (
+        <div className="query-results-content">
+          {error ? (
+            <div className="query-results-error">{error}</div>
+          ) : results.length === 0 ? (
+            <div className="query-results-empty">没有匹配的节点</div>
+          ) : (
+            <>
+              {visibleResults.map((result, index) => result.path !== null ? (
+                <button
+                  key={`${result.path}-${index}`}
+                  className="query-result-item"
+                  onClick={() => onSelect(result.path as string)}
+                  title="定位到该位置"
+                >
+                  <span className="query-result-path">{result.path || '(根)'}</span>
+                  <span className="query-result-value">{formatDiffValue(result.value)}</span>
+                </button>
+              ) : (
+                <div key={`computed-${index}`} className="query-result-item computed" title="计算得到的值，不对应文档中的节点">
+                  <span className="query-result-path">(计算值)</span>
+                  <span className="query-result-value">{formatDiffValue(result.value)}</span>
+                </div>
+              ))}
+              {results.length > MAX_VISIBLE_RESULTS && (
+                <div className="query-results-more">仅显示前 {MAX_VISIBLE_RESULTS} 条，共 {results.length} 条</div>
+              )}
+            </>
+          )}
+        </div>
+      )}
+    </div>
+  )
+}
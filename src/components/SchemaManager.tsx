@@ -0,0 +1,183 @@
+import { useState, useEffect, useRef, useCallback } from 'react'
+import * as YAML from 'yaml'
+import { CloseIcon, ChevronDownIcon } from './Icons'
+import { useRegisterCommands } from '../contexts/CommandContext'
+import { compileSchema, getSchemaDraft } from '../utils/schemaValidation'
+import './SchemaManager.css'
+
+interface SchemaManagerProps {
+  schema: any | null
+  schemaName: string
+  onSchemaChange: (schema: any | null, name: string) => void
+}
+
+export default function SchemaManager({ schema, schemaName, onSchemaChange }: SchemaManagerProps) {
+  const [isOpen, setIsOpen] = useState(false)
+  const [showPasteDialog, setShowPasteDialog] = useState(false)
+  const [schemaText, setSchemaText] = useState('')
+  const menuRef = useRef<HTMLDivElement>(null)
+  const fileInputRef = useRef<HTMLInputElement>(null)
+
+  // 解析并编译 schema，失败时提示错误
+  const applySchemaText = useCallback((text: string, name: string): boolean => {
+    try {
+      const parsed = YAML.parse(text)
+      if (!parsed || typeof parsed !== 'object' || Array.isArray(parsed)) {
+        alert('Schema 必须是一个 JSON 对象')
+        return false
+      }
+      compileSchema(parsed)
+      onSchemaChange(parsed, name)
+      return true
+    } catch (error) {
+      alert(`加载 Schema 失败: ${error instanceof Error ? error.message : '未知错误'}`)
+      return false
+    }
+  }, [onSchemaChange])
+
+  const handleFileSelect = useCallback(async (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0]
+    event.target.value = ''
+    if (!file) return
+    const text = await file.text()
+    if (applySchemaText(text, file.name)) {
+      setIsOpen(false)
+    }
+  }, [applySchemaText])
+
+  const handlePasteApply = useCallback(() => {
+    if (applySchemaText(schemaText, '粘贴的 Schema')) {
+      setShowPasteDialog(false)
+      setSchemaText('')
+      setIsOpen(false)
+    }
+  }, [schemaText, applySchemaText])
+
+  // 点击外部关闭菜单
+  useEffect(() => {
+    const handleClickOutside = (event: MouseEvent) => {
+      if (menuRef.current && !menuRef.current.contains(event.target as Node)) {
+        setIsOpen(false)
+      }
+    }
+
+    if (isOpen) {
+      document.addEventListener('mousedown', handleClickOutside)
+    }
+
+    return () => {
+      document.removeEventListener('mousedown', handleClickOutside)
+    }
+  }, [isOpen])
+
+  useRegisterCommands([
+    { id: 'schema.loadFile', category: 'Schema', title: '从文件加载 JSON Schema', keywords: 'schema load file', run: () => fileInputRef.current?.click() },
+    { id: 'schema.paste', category: 'Schema', title: '粘贴 JSON Schema', keywords: 'schema paste', run: () => setShowPasteDialog(true) },
+    { id: 'schema.remove', category: 'Schema', title: '移除 Schema', keywords: 'schema remove', disabled: !schema, run: () => onSchemaChange(null, '') },
+  ])
+
+  return (
+    <>
+      <div className="schema-menu-container" ref={menuRef}>
+        <button
+          className={`btn btn-secondary ${schema ? 'active' : ''}`}
+          onClick={() => setIsOpen(!isOpen)}
+          title={schema ? `当前 Schema: ${schemaName}` : '关联 JSON Schema 进行校验'}
+        >
+          <span>Schema</span>
+          <ChevronDownIcon size={12} />
+        </button>
+        <input
+          ref={fileInputRef}
+          type="file"
+          accept=".json,.yaml,.yml"
+          onChange={handleFileSelect}
+          style={{ display: 'none' }}
+        />
+        {isOpen && (
+          <div className="schema-menu">
+            {schema && (
+              <div className="schema-menu-current">
+                <div className="schema-menu-current-name" title={schemaName}>{schemaName}</div>
+                <div className="schema-menu-current-draft">{getSchemaDraft(schema)}</div>
+              </div>
+            )}
+            <button
+              className="schema-menu-item"
+              onClick={() => fileInputRef.current?.click()}
+            >
+              从文件加载...
+            </button>
+            <button
+              className="schema-menu-item"
+              onClick={() => {
+                setShowPasteDialog(true)
+                setIsOpen(false)
+              }}
+            >
+              粘贴 Schema...
+            </button>
+            {schema && (
+              <button
+                className="schema-menu-item schema-menu-item-danger"
+                onClick={() => {
+                  onSchemaChange(null, '')
+                  setIsOpen(false)
+                }}
+              >
+                移除 Schema
+              </button>
+            )}
+          </div>
+        )}
+      </div>
+
+      {/* 粘贴 Schema 对话框 */}
+      {showPasteDialog && (
+        <div className="schema-dialog-overlay">
+          <div className="schema-dialog">
+            <div className="schema-dialog-header">
+              <span className="schema-dialog-title">粘贴 JSON Schema</span>
+              <button
+                className="schema-dialog-close"
+                onClick={() => {
+                  setShowPasteDialog(false)
+                  setSchemaText('')
+                }}
+              >
+                <CloseIcon size={16} />
+              </button>
+            </div>
+            <div className="schema-dialog-content">
+              <textarea
+                value={schemaText}
+                onChange={(e) => setSchemaText(e.target.value)}
+                placeholder='支持 draft-07 与 2020-12，例如 {"type": "object", "required": ["name"]}'
+                rows={14}
+                autoFocus
+              />
+            </div>
+            <div className="schema-dialog-footer">
+              <button
+                className="btn btn-secondary"
+                onClick={() => {
+                  setShowPasteDialog(false)
+                  setSchemaText('')
+                }}
+              >
+                取消
+              </button>
+              <button
+                className="btn btn-primary"
+                onClick={handlePasteApply}
+                disabled={!schemaText.trim()}
+              >
+                应用
+              </button>
+            </div>
+          </div>
+        </div>
+      )}
+    </>
+  )
+}
@@ -0,0 +1,224 @@
+import { useState, useEffect, useCallback } from 'react'
+import { CloseIcon, HistoryIcon } from './Icons'
+import { useRegisterCommands } from '../contexts/CommandContext'
+import {
+  listSnapshots,
+  deleteSnapshot,
+  clearSnapshots,
+  getSnapshotLabel,
+  formatSnapshotDay,
+  formatSnapshotTime,
+  type Snapshot,
+} from '../utils/snapshots'
+import { SNAPSHOT_INTERVAL_OPTIONS } from '../hooks/useSnapshots'
+import './SnapshotManager.css'
+
+interface SnapshotManagerProps {
+  documentId?: string
+  // 快照列表版本号，变化时重新读取
+  version: number
+  interval: number
+  onIntervalChange: (minutes: number) => void
+  onCreate: (name: string) => void
+  onCompare: (snapshot: Snapshot) => void
+  onRestore: (snapshot: Snapshot) => void
+}
+
+type SnapshotScope = 'document' | 'all'
+
+// 按天分组，时间线中每组显示一个日期标题
+function groupByDay(snapshots: Snapshot[]): Array<{ day: string; items: Snapshot[] }> {
+  const groups: Array<{ day: string; items: Snapshot[] }> = []
+  snapshots.forEach(snapshot => {
+    const day = formatSnapshotDay(snapshot.createdAt)
+    const last = groups[groups.length - 1]
+    if (last && last.day === day) {
+      last.items.push(snapshot)
+    } else {
+      groups.push({ day, items: [snapshot] })
+    }
+  })
+  return groups
+}
+
+export default function SnapshotManager({
+  documentId,
+  version,
+  interval,
+  onIntervalChange,
+  onCreate,
+  onCompare,
+  onRestore,
+}: SnapshotManagerProps) {
+  const [showDialog, setShowDialog] = useState(false)
+  const [snapshots, setSnapshots] = useState<Snapshot[]>([])
+  const [scope, setScope] = useState<SnapshotScope>('document')
+  const [snapshotName, setSnapshotName] = useState('')
+  const [error, setError] = useState('')
+
+  const loadSnapshots = useCallback(async () => {
+    try {
+      setSnapshots(await listSnapshots(scope === 'document' ? documentId : undefined))
+      setError('')
+    } catch (err) {
+      setError(`读取快照失败: ${err instanceof Error ? err.message : '未知错误'}`)
+    }
+  }, [scope, documentId])
+
+  useEffect(() => {
+    if (showDialog) {
+      loadSnapshots()
+    }
+  }, [showDialog, loadSnapshots, version])
+
+  const handleCreate = useCallback(() => {
+    onCreate(snapshotName)
+    setSnapshotName('')
+  }, [snapshotName, onCreate])
+
+  const handleDelete = useCallback(async (snapshot: Snapshot) => {
+    try {
+      await deleteSnapshot(snapshot.id)
+      setSnapshots(prev => prev.filter(item => item.id !== snapshot.id))
+    } catch (err) {
+      alert(`删除快照失败: ${err instanceof Error ? err.message : '未知错误'}`)
+    }
+  }, [])
+
+  // 默认只清理自动快照，手动命名的快照需要逐个删除
+  const handleClear = useCallback(async () => {
+    const autoCount = snapshots.filter(snapshot => snapshot.trigger !== 'manual').length
+    if (autoCount === 0) return
+    if (!confirm(`确定删除${scope === 'document' ? '当前文档' : '所有文档'}的 ${autoCount} 个自动快照吗？手动创建的快照会保留。`)) return
+    try {
+      await clearSnapshots(snapshots, false)
+      await loadSnapshots()
+    } catch (err) {
+      alert(`清理快照失败: ${err instanceof Error ? err.message : '未知错误'}`)
+    }
+  }, [snapshots, scope, loadSnapshots])
+
+  const handleCompare = useCallback((snapshot: Snapshot) => {
+    onCompare(snapshot)
+    setShowDialog(false)
+  }, [onCompare])
+
+  const handleRestore = useCallback((snapshot: Snapshot) => {
+    if (!confirm(`确定用快照「${getSnapshotLabel(snapshot)}」替换当前文档吗？恢复前会自动保存当前内容的快照。`)) return
+    onRestore(snapshot)
+    setShowDialog(false)
+  }, [onRestore])
+
+  useRegisterCommands([
+    { id: 'snapshot.open', category: '历史', title: '查看版本历史', keywords: 'snapshot history version', run: () => setShowDialog(true) },
+  ])
+
+  return (
+    <>
+      <button
+        className="btn btn-secondary"
+        onClick={() => setShowDialog(true)}
+        title="版本历史：查看、对比和恢复本地快照"
+      >
+        <HistoryIcon size={14} />
+        <span>历史</span>
+      </button>
+
+      {showDialog && (
+        <div className="snapshot-dialog-overlay">
+          <div className="snapshot-dialog">
+            <div className="snapshot-dialog-header">
+              <span className="snapshot-dialog-title">版本历史</span>
+              <button className="snapshot-dialog-close" onClick={() => setShowDialog(false)}>
+                <CloseIcon size={16} />
+              </button>
+            </div>
+            <div className="snapshot-toolbar">
+              <input
+                type="text"
+                value={snapshotName}
+                onChange={(e) => setSnapshotName(e.target.value)}
+                onKeyDown={(e) => {
+                  if (e.key === 'Enter') handleCreate()
+                }}
+                placeholder="快照名称（可选）"
+              />
+              <button className="btn btn-primary" onClick={handleCreate} disabled={!documentId}>
+                创建快照
+              </button>
+              <label className="snapshot-option">
+                <span>定时快照</span>
+                <select value={interval} onChange={(e) => onIntervalChange(Number(e.target.value))}>
+                  {SNAPSHOT_INTERVAL_OPTIONS.map(minutes => (
+                    <option key={minutes} value={minutes}>
+                      {minutes === 0 ? '关闭' : `每 ${minutes} 分钟`}
+                    </option>
+                  ))}
+                </select>
+              </label>
+              <label className="snapshot-option">
+                <span>范围</span>
+                <select value={scope} onChange={(e) => setScope(e.target.value as SnapshotScope)}>
+                  <option value="document">当前文档</option>
+                  <option value="all">所有文档</option>
+                </select>
+              </label>
+            </div>
+            <div className="snapshot-dialog-content">
+              {error && <div className="snapshot-error">{error}</div>}
+              {snapshots.length === 0 ? (
+                <div className="snapshot-empty">暂无快照。加载、保存文件和应用模板前会自动创建快照</div>
+              ) : (
+                <div className="snapshot-timeline">
+                  {groupByDay(snapshots).map(group => (
+                    <div key={group.day} className="snapshot-day">
+                      <div className="snapshot-day-title">{group.day}</div>
+                      {group.items.map(snapshot => (
+                        <div key={snapshot.id} className={`snapshot-item snapshot-item-${snapshot.trigger}`}>
+                          <span className="snapshot-dot" />
+                          <div className="snapshot-item-info">
+                            <span className="snapshot-item-title">
+                              <span className="snapshot-item-time">{formatSnapshotTime(snapshot.createdAt)}</span>
+                              <span className="snapshot-item-label">{getSnapshotLabel(snapshot)}</span>
+                            </span>
+                            <span className="snapshot-item-meta" title={snapshot.fileName}>
+                              {snapshot.fileName || '未命名文件.yaml'} · {snapshot.text.split('\n').length} 行
+                            </span>
+                          </div>
+                          <div className="snapshot-item-actions">
+                            <button className="btn btn-secondary" onClick={() => handleCompare(snapshot)} title="与当前文档按结构对比">
+                              对比
+                            </button>
+                            <button className="btn btn-secondary" onClick={() => handleRestore(snapshot)} title="用快照替换整个文档">
+                              恢复
+                            </button>
+                            <button className="btn btn-secondary" onClick={() => handleDelete(snapshot)}>
+                              删除
+                            </button>
+                          </div>
+                        </div>
+                      ))}
+                    </div>
+                  ))}
+                </div>
+              )}
+            </div>
+            <div className="snapshot-dialog-footer">
+              <span className="snapshot-dialog-hint">对比后可在差异列表中只恢复某个节点</span>
+              <button
+                className="btn btn-secondary"
+                onClick={handleClear}
+                disabled={!snapshots.some(snapshot => snapshot.trigger !== 'manual')}
+              >
+                清理自动快照
+              </button>
+              <button className="btn btn-primary" onClick={() => setShowDialog(false)}>
+                关闭
+              </button>
+            </div>
+          </div>
+        </div>
+      )}
+    </>
+  )
+}
@@ -1,4 +1,5 @@
 import { useMemo } from 'react'
+import { parseYamlStream } from '../utils/yamlDocuments'
 import './StatsPanel.css'
 
 interface StatsPanelProps {
@@ -96,12 +97,32 @@ export default function StatsPanel({ data, yamlText, isOpen, onToggle }: StatsPa
       return Math.round((bytes / Math.pow(k, i)) * 100) / 100 + ' ' + sizes[i]
     }
 
-    const itemCount = countItems(data)
-    const maxDepth = calculateDepth(data)
-    const typeDistribution = calculateTypeDistribution(data)
+    // 多文档流（--- 分隔）统计所有文档，单文档时直接使用当前数据
+    let documents: any[] = [data]
+    try {
+      const docs = parseYamlStream(yamlText)
+      if (docs.length > 1) {
+        documents = docs.map(doc => doc.toJS())
+      }
+    } catch {
+      // 解析失败时只统计当前数据
+    }
+
+    const itemCount = documents.reduce((sum, doc) => sum + countItems(doc), 0)
+    const maxDepth = Math.max(...documents.map(doc => calculateDepth(doc)))
+    const typeDistribution = documents
+      .map(doc => calculateTypeDistribution(doc))
+      .reduce((total, current) => ({
+        string: total.string + current.string,
+        number: total.number + current.number,
+        boolean: total.boolean + current.boolean,
+        object: total.object + current.object,
+        array: total.array + current.array,
+      }))
     const totalTypes = Object.values(typeDistribution).reduce((sum, count) => sum + count, 0)
 
     return {
+      documentCount: documents.length,
       itemCount,
       maxDepth,
       fileSize: formatFileSize(fileSize),
@@ -121,6 +142,13 @@ export default function StatsPanel({ data, yamlText, isOpen, onToggle }: StatsPa
       </div>
       {isOpen && (
         <div className="stats-panel-content">
+          {stats.documentCount > 1 && (
+            <div className="stat-item">
+              <div className="stat-label">文档数量</div>
+              <div className="stat-value">{stats.documentCount}</div>
+            </div>
+          )}
+
           <div className="stat-item">
             <div className="stat-label">配置项数量</div>
             <div className="stat-value">{stats.itemCount}</div>
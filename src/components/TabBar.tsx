@@ -0,0 +1,58 @@
+import { CloseIcon, PlusIcon } from './Icons'
+import { getTabTitle, isTabDirty, type EditorTab } from '../hooks/useTabs'
+import './TabBar.css'
+
+interface TabBarProps {
+  tabs: EditorTab[]
+  activeTabId: string
+  onSelect: (id: string) => void
+  onClose: (id: string) => void
+  onAdd: () => void
+  // 标签栏右侧的附加操作
+  actions?: React.ReactNode
+}
+
+export default function TabBar({ tabs, activeTabId, onSelect, onClose, onAdd, actions }: TabBarProps) {
+  return (
+    <div className="tab-bar">
+      <div className="tab-list">
+        {tabs.map(tab => {
+          const title = getTabTitle(tab)
+          const isDirty = isTabDirty(tab)
+          return (
+            <div
+              key={tab.id}
+              className={`tab-item ${tab.id === activeTabId ? 'active' : ''}`}
+              onClick={() => onSelect(tab.id)}
+              onMouseDown={(e) => {
+                // 中键关闭标签页
+                if (e.button === 1) {
+                  e.preventDefault()
+                  onClose(tab.id)
+                }
+              }}
+              title={isDirty ? `${title}（有未保存的修改）` : title}
+            >
+              <span className="tab-title">{title}</span>
+              {isDirty && <span className="tab-dirty" />}
+              <button
+                className="tab-close"
+                onClick={(e) => {
+                  e.stopPropagation()
+                  onClose(tab.id)
+                }}
+                title="关闭标签页"
+              >
+                <CloseIcon size={12} />
+              </button>
+            </div>
+          )
+        })}
+      </div>
+      <button className="tab-add" onClick={() => onAdd()} title="新建标签页">
+        <PlusIcon size={14} />
+      </button>
+      {actions && <div className="tab-bar-actions">{actions}</div>}
+    </div>
+  )
+}
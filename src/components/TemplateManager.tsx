@@ -1,5 +1,6 @@
 import { useState, useCallback, useEffect, useRef } from 'react'
 import { CloseIcon, DeleteIcon, PlusIcon, ChevronDownIcon } from './Icons'
+import { useRegisterCommands } from '../contexts/CommandContext'
 import './TemplateManager.css'
 
 export interface Template {
@@ -324,6 +325,10 @@ export default function TemplateManager({ currentData, onApplyTemplate, onSaveAs
 
   const allTemplates = [...PRESET_TEMPLATES, ...userTemplates]
 
+  useRegisterCommands([
+    { id: 'template.open', category: '模板', title: '打开模板列表', keywords: 'template preset', run: () => setIsOpen(true) },
+  ])
+
   return (
     <>
       <div className="template-menu-container" ref={menuRef}>
@@ -0,0 +1,119 @@
+import { useMemo } from 'react'
+import { formatPath } from '../utils/path'
+import type { WorkflowGraph } from '../utils/workflowAnalysis'
+import './WorkflowGraphPanel.css'
+
+interface WorkflowGraphPanelProps {
+  graph: WorkflowGraph
+  isOpen: boolean
+  onToggle: () => void
+  onSelect: (path: string) => void
+}
+
+const NODE_WIDTH = 140
+const NODE_HEIGHT = 32
+const COLUMN_GAP = 48
+const ROW_GAP = 12
+const PADDING = 8
+// 循环依赖的连线绕到节点下方，需要额外的高度
+const BACKWARD_EDGE_DEPTH = 24
+// 节点中显示的名称最大字符数，超出部分以省略号表示
+const MAX_LABEL_LENGTH = 16
+
+interface NodeLayout {
+  x: number
+  y: number
+}
+
+function truncateLabel(label: string): string {
+  return label.length > MAX_LABEL_LENGTH ? `${label.slice(0, MAX_LABEL_LENGTH - 1)}…` : label
+}
+
+// 任务依赖图：按依赖层级从左到右排列，点击任务跳转到表单中对应的位置
+export default function WorkflowGraphPanel({ graph, isOpen, onToggle, onSelect }: WorkflowGraphPanelProps) {
+  const { positions, width, height } = useMemo(() => {
+    const positions = new Map<string, NodeLayout>()
+    const rowsPerColumn = new Map<number, number>()
+    graph.jobs.forEach(job => {
+      const row = rowsPerColumn.get(job.level) ?? 0
+      rowsPerColumn.set(job.level, row + 1)
+      positions.set(job.id, {
+        x: PADDING + job.level * (NODE_WIDTH + COLUMN_GAP),
+        y: PADDING + row * (NODE_HEIGHT + ROW_GAP),
+      })
+    })
+    const columns = Math.max(0, ...Array.from(rowsPerColumn.keys())) + 1
+    const rows = Math.max(0, ...Array.from(rowsPerColumn.values()))
+    return {
+      positions,
+      width: PADDING * 2 + columns * NODE_WIDTH + (columns - 1) * COLUMN_GAP,
+      height: PADDING * 2 + rows * NODE_HEIGHT + Math.max(0, rows - 1) * ROW_GAP
+        + (graph.jobs.some(job => job.inCycle) ? BACKWARD_EDGE_DEPTH : 0),
+    }
+  }, [graph])
+
+  const cycleCount = graph.jobs.filter(job => job.inCycle).length
+
+  return (
+    <div className={`workflow-graph-panel ${isOpen ? 'open' : ''}`}>
+      <div className="workflow-graph-header" onClick={onToggle}>
+        <span className="workflow-graph-title">
+          任务依赖图
+          <span className="workflow-graph-count">{graph.jobs.length}</span>
+          {cycleCount > 0 && <span className="workflow-graph-cycle-hint">存在循环依赖</span>}
+        </span>
+        <span className="workflow-graph-toggle">
+          {isOpen ? '▼' : '▶'}
+        </span>
+      </div>
+      {isOpen && (
+        <div className="workflow-graph-content">
+          {graph.jobs.length === 0 ? (
+            <div className="workflow-graph-empty">没有任务</div>
+          ) : (
+            <svg className="workflow-graph" width={width} height={height}>
+              {graph.jobs.flatMap(job => job.needs.map(need => {
+                const from = positions.get(need)!
+                const to = positions.get(job.id)!
+                const startX = from.x + NODE_WIDTH
+                const startY = from.y + NODE_HEIGHT / 2
+                const endX = to.x
+                const endY = to.y + NODE_HEIGHT / 2
+                // 循环中指向前面列或同一列的依赖画成虚线
+                const isBackward = endX <= startX
+                const d = isBackward
+                  ? `M ${from.x + NODE_WIDTH / 2} ${from.y + NODE_HEIGHT} C ${from.x + NODE_WIDTH / 2} ${from.y + NODE_HEIGHT + BACKWARD_EDGE_DEPTH}, ${to.x + NODE_WIDTH / 2} ${to.y + NODE_HEIGHT + BACKWARD_EDGE_DEPTH}, ${to.x + NODE_WIDTH / 2} ${to.y + NODE_HEIGHT}`
+                  : `M ${startX} ${startY} C ${startX + COLUMN_GAP / 2} ${startY}, ${endX - COLUMN_GAP / 2} ${endY}, ${endX} ${endY}`
+                return (
+                  <path
+                    key={`${need}->${job.id}`}
+                    className={`workflow-graph-edge ${isBackward ? 'backward' : ''}`}
+                    d={d}
+                  />
+                )
+              }))}
+              {graph.jobs.map(job => {
+                const { x, y } = positions.get(job.id)!
+                return (
+                  <g
+                    key={job.id}
+                    className={`workflow-graph-node ${job.inCycle ? 'cycle' : ''}`}
+                    transform={`translate(${x}, ${y})`}
+                    onClick={() => onSelect(formatPath(['jobs', job.id]))}
+                    role="button"
+                  >
+                    <title>{job.name === job.id ? job.id : `${job.name} (${job.id})`}</title>
+                    <rect width={NODE_WIDTH} height={NODE_HEIGHT} rx={6} />
+                    <text x={NODE_WIDTH / 2} y={NODE_HEIGHT / 2} dominantBaseline="central" textAnchor="middle">
+                      {truncateLabel(job.name)}
+                    </text>
+                  </g>
+                )
+              })}
+            </svg>
+          )}
+        </div>
+      )}
+    </div>
+  )
+}
@@ -0,0 +1,40 @@
+import { DiffEditor } from '@monaco-editor/react'
+import './YAMLDiffEditor.css'
+
+interface YAMLDiffEditorProps {
+  original: string
+  modified: string
+  originalName: string
+  theme?: 'light' | 'dark'
+}
+
+// 文本差异视图：左侧为对比文档，右侧为当前文档（只读，编辑请在表单中进行或关闭对比）
+export default function YAMLDiffEditor({ original, modified, originalName, theme = 'light' }: YAMLDiffEditorProps) {
+  return (
+    <div className="yaml-diff-editor">
+      <div className="yaml-diff-editor-header">
+        <span className="yaml-diff-editor-name" title={originalName}>{originalName}</span>
+        <span className="yaml-diff-editor-name">当前文档</span>
+      </div>
+      <div className="yaml-diff-editor-body">
+        <DiffEditor
+          height="100%"
+          language="yaml"
+          original={original}
+          modified={modified}
+          theme={theme === 'dark' ? 'vs-dark' : 'vs'}
+          options={{
+            readOnly: true,
+            originalEditable: false,
+            renderSideBySide: true,
+            minimap: { enabled: false },
+            scrollBeyondLastLine: false,
+            fontSize: 13,
+            wordWrap: 'on',
+            automaticLayout: true,
+          }}
+        />
+      </div>
+    </div>
+  )
+}
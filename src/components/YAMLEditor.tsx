@@ -1,6 +1,11 @@
 import { useRef, useEffect, useCallback, forwardRef, useImperativeHandle } from 'react'
 import Editor from '@monaco-editor/react'
 import * as YAML from 'yaml'
+import { YAML_PARSE_OPTIONS } from '../utils/yamlTags'
+import { parseYamlStream } from '../utils/yamlDocuments'
+import { getDocumentIndexAtOffset, getNodeRangeForPath, getPathAtOffset, type OffsetRange } from '../utils/yamlAst'
+import { formatPath, parsePath } from '../utils/path'
+import { createSchemaAssistClient, type SchemaAssistClient } from '../utils/schemaAssistClient'
 import type { OnChange, OnMount } from '@monaco-editor/react'
 import './YAMLEditor.css'
 
@@ -9,248 +14,142 @@ interface YAMLEditorProps {
   onChange: (value: string) => void
   onParseError?: (error: string) => void
   theme?: 'light' | 'dark'
-  onPathClick?: (path: string) => void
+  onPathClick?: (path: string, documentIndex: number) => void
+  // 用户在编辑器中移动光标时报告光标所在节点的路径（根节点为空字符串）
+  onCursorPathChange?: (path: string, documentIndex: number) => void
+  // 多文档流中表单正在编辑的文档，定位路径时在该文档内查找
+  documentIndex?: number
+  markers?: EditorMarker[]
+  onUndo?: () => void
+  onRedo?: () => void
+  // 关联的 JSON Schema，设置后提供键名和枚举值补全以及字段说明的悬停提示
+  schema?: any
 }
 
+// 编辑器标记（如校验错误），使用文本偏移定位
+export interface EditorMarker {
+  startOffset: number
+  endOffset: number
+  message: string
+  severity: 'error' | 'warning'
+  source?: string
+}
+
+// 光标停止移动后再计算路径，避免连续输入或按方向键时反复解析文档
+const CURSOR_PATH_DELAY = 150
+
 export interface YAMLEditorHandle {
   format: () => void
   locatePath: (path: string) => void
 }
 
 const YAMLEditor = forwardRef<YAMLEditorHandle, YAMLEditorProps>(
-  ({ value, onChange, onParseError, theme = 'light', onPathClick }, ref) => {
+  ({ value, onChange, onParseError, theme = 'light', onPathClick, onCursorPathChange, documentIndex = 0, markers, onUndo, onRedo, schema }, ref) => {
     const editorRef = useRef<any>(null)
+    const monacoRef = useRef<any>(null)
+    const highlightRef = useRef<any>(null)
+    const highlightTimeoutRef = useRef<number | null>(null)
+    // 使用 ref 保存回调和文档索引，避免 Monaco 命令和事件闭包中引用过期的值
+    const onUndoRef = useRef(onUndo)
+    const onRedoRef = useRef(onRedo)
+    const onPathClickRef = useRef(onPathClick)
+    const onCursorPathChangeRef = useRef(onCursorPathChange)
+    const documentIndexRef = useRef(documentIndex)
+    const cursorTimeoutRef = useRef<number | null>(null)
+    // schema 补全和悬停提示在 Worker 中计算
+    const schemaAssistRef = useRef<SchemaAssistClient | null>(null)
+    useEffect(() => {
+      onUndoRef.current = onUndo
+      onRedoRef.current = onRedo
+      onPathClickRef.current = onPathClick
+      onCursorPathChangeRef.current = onCursorPathChange
+      documentIndexRef.current = documentIndex
+    }, [onUndo, onRedo, onPathClick, onCursorPathChange, documentIndex])
     const isInternalUpdate = useRef(false)
 
-    // 根据路径找到对应的行号
-    const getLineNumberFromPath = useCallback((targetPath: string): number | null => {
-      if (!editorRef.current) {
-        return null
-      }
+    // 用 AST 节点范围在路径和文本位置之间相互转换，适用于任意缩进、引号键、流式集合和多行字符串
+    const getPathFromOffset = useCallback((offset: number): { path: string; documentIndex: number } | null => {
+      const currentValue = editorRef.current?.getValue()
+      if (!currentValue) return null
 
-      const currentValue = editorRef.current.getValue()
-      if (!currentValue) {
-        return null
-      }
+      const docs = parseYamlStream(currentValue)
+      const documentIndex = getDocumentIndexAtOffset(docs, offset)
+      const segments = getPathAtOffset(docs[documentIndex] || null, offset)
+      return segments.length > 0 ? { path: formatPath(segments), documentIndex } : null
+    }, [])
 
-      try {
-        const lines = currentValue.split('\n')
-        
-        // 构建路径栈来跟踪当前路径
-        // 每个元素可以是对象键（字符串）或数组索引（数字）
-        const pathStack: Array<{ type: 'key' | 'array'; value: string | number; indent: number }> = []
-        
-        for (let i = 0; i < lines.length; i++) {
-          const line = lines[i]
-          const trimmed = line.trim()
-          
-          // 跳过空行和注释
-          if (!trimmed || trimmed.startsWith('#')) continue
-          
-          const indent = (line.match(/^(\s*)/)?.[1] || '').length
-          const indentLevel = Math.floor(indent / 2)
-          
-          // 移除比当前行缩进更深的项
-          while (pathStack.length > 0 && pathStack[pathStack.length - 1].indent >= indentLevel) {
-            pathStack.pop()
-          }
-          
-          if (trimmed.startsWith('-')) {
-            // 数组项 - 计算索引
-            let arrayIndex = 0
-            for (let j = i - 1; j >= 0; j--) {
-              const prevLine = lines[j]
-              const prevTrimmed = prevLine.trim()
-              if (!prevTrimmed || prevTrimmed.startsWith('#')) continue
-              
-              const prevIndent = (prevLine.match(/^(\s*)/)?.[1] || '').length
-              const prevIndentLevel = Math.floor(prevIndent / 2)
-              
-              if (prevIndentLevel === indentLevel && prevTrimmed.startsWith('-')) {
-                arrayIndex++
-              } else if (prevIndentLevel < indentLevel) {
-                // 找到了父级，停止计数
-                break
-              }
-            }
-            
-            // 构建当前路径
-            let currentPath = ''
-            pathStack.forEach(item => {
-              if (item.type === 'key') {
-                if (currentPath) {
-                  currentPath += '.'
-                }
-                currentPath += item.value
-              } else if (item.type === 'array') {
-                currentPath += `[${item.value}]`
-              }
-            })
-            // 添加当前数组索引
-            currentPath += `[${arrayIndex}]`
-            
-            // 检查是否匹配目标路径
-            if (currentPath === targetPath) {
-              return i + 1 // 返回行号（1-based）
-            }
-            
-            // 将数组索引添加到路径栈
-            pathStack.push({ type: 'array', value: arrayIndex, indent: indentLevel })
-          } else if (trimmed.includes(':')) {
-            // key-value 对
-            const colonIndex = trimmed.indexOf(':')
-            const key = trimmed.substring(0, colonIndex).trim()
-            
-            if (key) {
-              // 构建当前路径
-              let currentPath = ''
-              pathStack.forEach(item => {
-                if (item.type === 'key') {
-                  if (currentPath) {
-                    currentPath += '.'
-                  }
-                  currentPath += item.value
-                } else if (item.type === 'array') {
-                  currentPath += `[${item.value}]`
-                }
-              })
-              // 添加当前键
-              if (currentPath) {
-                currentPath += '.' + key
-              } else {
-                currentPath = key
-              }
-              
-              // 检查是否匹配目标路径
-              if (currentPath === targetPath) {
-                return i + 1 // 返回行号（1-based）
-              }
-              
-              // 添加到路径栈（只存储对象键）
-              pathStack.push({ type: 'key', value: key, indent: indentLevel })
-            }
-          }
-        }
-        
-        return null
-      } catch (error) {
-        return null
-      }
+    const getRangeFromPath = useCallback((path: string): OffsetRange | null => {
+      const currentValue = editorRef.current?.getValue()
+      if (!currentValue) return null
+
+      const docs = parseYamlStream(currentValue)
+      return getNodeRangeForPath(docs[documentIndexRef.current] || null, parsePath(path))
     }, [])
 
-    // 根据光标位置解析 YAML 路径
-    const getPathFromPosition = useCallback((lineNumber: number): string | null => {
-      if (!editorRef.current) {
-        return null
+    // 注册基于 schema 的补全和悬停提供者：提供者按语言全局注册，只响应本编辑器的模型，编辑器销毁时注销
+    const registerSchemaProviders = (editor: any, monaco: any) => {
+      const toRange = (model: any, [startOffset, endOffset]: OffsetRange) => {
+        const start = model.getPositionAt(startOffset)
+        const end = model.getPositionAt(endOffset)
+        return {
+          startLineNumber: start.lineNumber,
+          startColumn: start.column,
+          endLineNumber: end.lineNumber,
+          endColumn: end.column,
+        }
       }
 
-      // 从编辑器获取当前值，而不是依赖 prop
-      const currentValue = editorRef.current.getValue()
-      if (!currentValue) {
-        return null
-      }
+      const completionProvider = monaco.languages.registerCompletionItemProvider('yaml', {
+        triggerCharacters: [' '],
+        provideCompletionItems: async (model: any, position: any) => {
+          const client = schemaAssistRef.current
+          if (!client || model !== editor.getModel()) return { suggestions: [] }
+          const versionId = model.getVersionId()
+          const result = await client.complete(model.getValue(), model.getOffsetAt(position))
+          if (!result || model.isDisposed() || model.getVersionId() !== versionId) return { suggestions: [] }
 
-      try {
-        const lines = currentValue.split('\n')
-        if (lineNumber < 1 || lineNumber > lines.length) {
-          return null
-        }
-        
-        const lineText = lines[lineNumber - 1]
-        const trimmed = lineText.trim()
-        
-        // 跳过空行和注释
-        if (!trimmed || trimmed.startsWith('#')) {
-          return null
-        }
-        
-        // 计算当前行的缩进
-        const lineIndent = (lineText.match(/^(\s*)/)?.[1] || '').length
-        const lineIndentLevel = Math.floor(lineIndent / 2)
-        
-        // 构建路径栈
-        const pathStack: Array<{ key: string; indent: number }> = []
-        
-        for (let i = 0; i < lineNumber; i++) {
-          const line = lines[i]
-          const lineTrimmed = line.trim()
-          
-          // 跳过空行和注释
-          if (!lineTrimmed || lineTrimmed.startsWith('#')) continue
-          
-          const indent = (line.match(/^(\s*)/)?.[1] || '').length
-          const indentLevel = Math.floor(indent / 2)
-          
-          // 移除比当前行缩进更深的项（使用缩进级别比较）
-          while (pathStack.length > 0 && pathStack[pathStack.length - 1].indent >= indentLevel) {
-            pathStack.pop()
+          const range = toRange(model, result.range)
+          return {
+            suggestions: result.items.map((item, index) => ({
+              label: item.label,
+              kind: item.kind === 'property'
+                ? monaco.languages.CompletionItemKind.Property
+                : monaco.languages.CompletionItemKind.EnumMember,
+              insertText: item.insertText,
+              detail: item.required ? `${item.detail ?? ''} (必填)`.trim() : item.detail,
+              documentation: item.documentation ? { value: item.documentation } : undefined,
+              // 必填字段排在前面，其余按 schema 中的顺序
+              sortText: `${item.required ? 0 : 1}${String(index).padStart(4, '0')}`,
+              range,
+              command: item.retrigger ? { id: 'editor.action.triggerSuggest', title: '' } : undefined,
+            })),
           }
-          
-          if (lineTrimmed.startsWith('-')) {
-            // 数组项 - 计算索引
-            if (i === lineNumber - 1) {
-              // 这是目标行，计算数组索引
-              let arrayIndex = 0
-              for (let j = i - 1; j >= 0; j--) {
-                const prevLine = lines[j]
-                const prevTrimmed = prevLine.trim()
-                if (!prevTrimmed || prevTrimmed.startsWith('#')) continue
-                
-                const prevIndent = (prevLine.match(/^(\s*)/)?.[1] || '').length
-                const prevIndentLevel = Math.floor(prevIndent / 2)
-                if (prevIndentLevel === lineIndentLevel && prevTrimmed.startsWith('-')) {
-                  arrayIndex++
-                } else if (prevIndentLevel < lineIndentLevel) {
-                  // 找到了父级，停止计数
-                  break
-                }
-              }
-              
-              // 构建路径
-              let result = ''
-              pathStack.forEach(item => {
-                if (result) {
-                  result += '.'
-                }
-                result += item.key
-              })
-              result += `[${arrayIndex}]`
-              
-              return result || null
-            }
-            // 数组项不作为路径的一部分，跳过
-          } else if (lineTrimmed.includes(':')) {
-            // key-value 对
-            const colonIndex = lineTrimmed.indexOf(':')
-            const key = lineTrimmed.substring(0, colonIndex).trim()
-            
-            if (key) {
-              if (i === lineNumber - 1) {
-                // 这是目标行，构建路径
-                const pathParts: string[] = []
-                pathStack.forEach(item => {
-                  pathParts.push(item.key)
-                })
-                pathParts.push(key)
-                
-                const result = pathParts.join('.')
-                return result
-              } else {
-                // 添加到路径栈
-                pathStack.push({ key: key, indent: indentLevel })
-              }
-            }
+        },
+      })
+
+      const hoverProvider = monaco.languages.registerHoverProvider('yaml', {
+        provideHover: async (model: any, position: any) => {
+          const client = schemaAssistRef.current
+          if (!client || model !== editor.getModel()) return null
+          const versionId = model.getVersionId()
+          const result = await client.hover(model.getValue(), model.getOffsetAt(position))
+          if (!result || model.isDisposed() || model.getVersionId() !== versionId) return null
+          return {
+            contents: result.contents.map(value => ({ value })),
+            range: result.range ? toRange(model, result.range) : undefined,
           }
-        }
-        
-        return null
-      } catch (error) {
-        return null
-      }
-    }, []) // 不依赖 value，因为从编辑器获取
+        },
+      })
+
+      editor.onDidDispose(() => {
+        completionProvider.dispose()
+        hoverProvider.dispose()
+      })
+    }
 
     const handleEditorDidMount: OnMount = (editor: any, monaco: any) => {
       editorRef.current = editor
+      monacoRef.current = monaco
 
       // 配置 YAML 语言支持
       monaco.languages.setLanguageConfiguration('yaml', {
@@ -275,6 +174,8 @@ const YAMLEditor = forwardRef<YAMLEditorHandle, YAMLEditorProps>(
         ],
       })
 
+      registerSchemaProviders(editor, monaco)
+
       // 配置编辑器选项
       editor.updateOptions({
         minimap: { enabled: false },
@@ -286,6 +187,37 @@ const YAMLEditor = forwardRef<YAMLEditorHandle, YAMLEditorProps>(
         automaticLayout: true,
       })
 
+      // 使用统一的文档历史替代 Monaco 自带的撤销/重做。
+      // 用 addAction 而不是 addCommand：addCommand 注册的快捷键在所有编辑器实例间共享，
+      // 多个标签页同时挂载时会触发最后挂载的编辑器的回调；addAction 只作用于获得焦点的编辑器，并随编辑器销毁
+      editor.addAction({
+        id: 'yameilo.undo',
+        label: '撤销',
+        keybindings: [monaco.KeyMod.CtrlCmd | monaco.KeyCode.KeyZ],
+        run: () => {
+          if (onUndoRef.current) {
+            onUndoRef.current()
+          } else {
+            editor.trigger('keyboard', 'undo', null)
+          }
+        },
+      })
+      editor.addAction({
+        id: 'yameilo.redo',
+        label: '重做',
+        keybindings: [
+          monaco.KeyMod.CtrlCmd | monaco.KeyCode.KeyY,
+          monaco.KeyMod.CtrlCmd | monaco.KeyMod.Shift | monaco.KeyCode.KeyZ,
+        ],
+        run: () => {
+          if (onRedoRef.current) {
+            onRedoRef.current()
+          } else {
+            editor.trigger('keyboard', 'redo', null)
+          }
+        },
+      })
+
       // 监听鼠标点击事件
       if (onPathClick) {
         editor.onMouseDown(() => {
@@ -293,14 +225,31 @@ const YAMLEditor = forwardRef<YAMLEditorHandle, YAMLEditorProps>(
           setTimeout(() => {
             const position = editor.getPosition()
             if (position) {
-              const path = getPathFromPosition(position.lineNumber)
-              if (path && onPathClick) {
-                onPathClick(path)
+              const model = editor.getModel()
+              const target = model ? getPathFromOffset(model.getOffsetAt(position)) : null
+              if (target && onPathClickRef.current) {
+                onPathClickRef.current(target.path, target.documentIndex)
               }
             }
           }, 50)
         })
       }
+
+      // 监听光标移动：只在编辑器获得焦点时报告（表单修改同步到编辑器时的光标变化不算）
+      editor.onDidChangeCursorPosition(() => {
+        if (!onCursorPathChangeRef.current) return
+        if (cursorTimeoutRef.current !== null) {
+          clearTimeout(cursorTimeoutRef.current)
+        }
+        cursorTimeoutRef.current = window.setTimeout(() => {
+          cursorTimeoutRef.current = null
+          const position = editor.getPosition()
+          const model = editor.getModel()
+          if (!position || !model || !editor.hasTextFocus() || !onCursorPathChangeRef.current) return
+          const target = getPathFromOffset(model.getOffsetAt(position))
+          onCursorPathChangeRef.current(target?.path ?? '', target?.documentIndex ?? documentIndexRef.current)
+        }, CURSOR_PATH_DELAY)
+      })
     }
 
     // 格式化 YAML 内容（保留注释）
@@ -312,7 +261,7 @@ const YAMLEditor = forwardRef<YAMLEditorHandle, YAMLEditorProps>(
 
       try {
         // 使用 parseDocument 以保留注释
-        const doc = YAML.parseDocument(currentValue)
+        const doc = YAML.parseDocument(currentValue, YAML_PARSE_OPTIONS)
         if (doc.contents === null) return
 
         // 转换为字符串（保留注释和格式）
@@ -335,26 +284,66 @@ const YAMLEditor = forwardRef<YAMLEditorHandle, YAMLEditorProps>(
       }
     }
 
-    // 定位到指定路径
+    // 清除节点高亮
+    const clearNodeHighlight = useCallback(() => {
+      highlightRef.current?.clear()
+      if (highlightTimeoutRef.current !== null) {
+        clearTimeout(highlightTimeoutRef.current)
+        highlightTimeoutRef.current = null
+      }
+    }, [])
+
+    // 定位到指定路径：光标移到节点开头，并高亮节点的完整范围（10 秒后或内容变化时清除）
     const locatePath = useCallback((path: string) => {
-      if (!editorRef.current) return
-      
-      const lineNumber = getLineNumberFromPath(path)
-      if (lineNumber !== null) {
-        // 获取该行的内容
-        const currentValue = editorRef.current.getValue()
-        const lines = currentValue.split('\n')
-        const lineContent = lines[lineNumber - 1] || ''
-        
-        // 计算该行的长度（定位到行末）
-        const column = lineContent.length + 1
-        
-        // 定位到该行的末尾
-        editorRef.current.setPosition({ lineNumber, column })
-        editorRef.current.revealLineInCenter(lineNumber)
-        editorRef.current.focus()
+      const editor = editorRef.current
+      const model = editor?.getModel()
+      if (!model) return
+
+      const range = getRangeFromPath(path)
+      if (!range) return
+
+      // 不高亮节点末尾的换行和空白
+      const text = model.getValue().slice(range[0], range[1])
+      const start = model.getPositionAt(range[0])
+      const end = model.getPositionAt(range[0] + text.trimEnd().length)
+      const highlightRange = {
+        startLineNumber: start.lineNumber,
+        startColumn: start.column,
+        endLineNumber: end.lineNumber,
+        endColumn: end.column,
       }
-    }, [getLineNumberFromPath])
+
+      clearNodeHighlight()
+      highlightRef.current = editor.createDecorationsCollection([
+        { range: highlightRange, options: { className: 'yaml-editor-node-highlight', stickiness: 1 } },
+      ])
+      highlightTimeoutRef.current = window.setTimeout(clearNodeHighlight, 10000)
+
+      editor.setPosition(start)
+      editor.revealRangeInCenterIfOutsideViewport(highlightRange)
+      editor.focus()
+    }, [getRangeFromPath, clearNodeHighlight])
+
+    useEffect(() => clearNodeHighlight, [clearNodeHighlight])
+
+    useEffect(() => () => {
+      if (cursorTimeoutRef.current !== null) {
+        clearTimeout(cursorTimeoutRef.current)
+      }
+    }, [])
+
+    useEffect(() => {
+      const client = createSchemaAssistClient()
+      schemaAssistRef.current = client
+      return () => {
+        client.dispose()
+        schemaAssistRef.current = null
+      }
+    }, [])
+
+    useEffect(() => {
+      schemaAssistRef.current?.setSchema(schema ?? null)
+    }, [schema])
 
     // 暴露格式化方法给父组件
     useImperativeHandle(ref, () => ({
@@ -366,12 +355,13 @@ const YAMLEditor = forwardRef<YAMLEditorHandle, YAMLEditorProps>(
       if (val === undefined) return
 
       isInternalUpdate.current = true
+      clearNodeHighlight()
       onChange(val)
 
       // 验证 YAML 格式
       if (onParseError) {
         try {
-          YAML.parseDocument(val)
+          YAML.parseDocument(val, YAML_PARSE_OPTIONS)
           onParseError('')
         } catch (error) {
           onParseError(error instanceof Error ? error.message : 'YAML 解析错误')
@@ -408,6 +398,30 @@ const YAMLEditor = forwardRef<YAMLEditorHandle, YAMLEditorProps>(
       isInternalUpdate.current = false
     }, [value])
 
+    // 同步校验标记到 Monaco 模型
+    useEffect(() => {
+      const editor = editorRef.current
+      const monaco = monacoRef.current
+      if (!editor || !monaco) return
+      const model = editor.getModel()
+      if (!model) return
+
+      const modelMarkers = (markers || []).map(marker => {
+        const start = model.getPositionAt(marker.startOffset)
+        const end = model.getPositionAt(Math.max(marker.endOffset, marker.startOffset + 1))
+        return {
+          startLineNumber: start.lineNumber,
+          startColumn: start.column,
+          endLineNumber: end.lineNumber,
+          endColumn: end.column,
+          message: marker.message,
+          severity: marker.severity === 'error' ? monaco.MarkerSeverity.Error : monaco.MarkerSeverity.Warning,
+          source: marker.source,
+        }
+      })
+      monaco.editor.setModelMarkers(model, 'yameilo-validation', modelMarkers)
+    }, [markers, value])
+
     return (
       <div className="yaml-editor">
         <Editor
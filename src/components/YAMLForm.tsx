@@ -1,7 +1,82 @@
-import { useState, useCallback, useEffect, useRef, forwardRef, useImperativeHandle } from 'react'
-import { ChevronDownIcon, ChevronRightIcon, DeleteIcon, PlusIcon, DragHandleIcon, CopyIcon, LocateIcon } from './Icons'
+import { useState, useCallback, useEffect, useRef, useMemo, forwardRef, useImperativeHandle } from 'react'
+import { ChevronDownIcon, ChevronRightIcon, DeleteIcon, PlusIcon, DragHandleIcon, CopyIcon, LocateIcon, ClipboardIcon, CloseIcon } from './Icons'
+import PasteConflictDialog from './PasteConflictDialog'
+import type { Problem } from '../utils/problems'
+import { DIFF_KIND_LABELS, formatDiffValue, deepEqual, type DiffEntry, type DiffLookup } from '../utils/structuralDiff'
+import { MERGE_KEY_STATE_LABELS, type AnchorLookup } from '../utils/yamlAnchors'
+import { formatTag, getTagDefinition, getTagOptions, type TagInfo } from '../utils/yamlTags'
+import { MERGE_RESOLUTION_LABELS, formatMergeValue, type MergeConflict, type MergeConflictLookup, type MergeResolution } from '../utils/threeWayMerge'
+import { appendPath, getAncestorPaths, getValueAtPath, pointerToSegments } from '../utils/path'
+import {
+  getCopyPayload,
+  writeSubtreeToClipboard,
+  setClipboardData,
+  readClipboardData,
+  parseClipboardContent,
+  getPasteEntries,
+  findPasteCollisions,
+  insertIntoObject,
+  insertIntoArray,
+  type PasteCollision,
+  type PasteMode,
+} from '../utils/subtreeClipboard'
+import { bulkDelete, bulkUpdate, bulkMove, bulkRename, getMoveTargets } from '../utils/bulkOperations'
+import {
+  resolveSchema,
+  getChildSchema,
+  getSchemaTypes,
+  getSchemaProperties,
+  allowsAdditionalProperties,
+  getSchemaInitialValue,
+} from '../utils/schemaNavigation'
 import './YAMLForm.css'
 
+type ValueType = 'string' | 'number' | 'boolean' | 'object' | 'array'
+
+const VALUE_TYPES: ValueType[] = ['string', 'number', 'boolean', 'object', 'array']
+
+const VALUE_TYPE_LABELS: Record<ValueType, string> = {
+  string: '字符串',
+  number: '数字',
+  boolean: '布尔值',
+  object: '对象',
+  array: '数组',
+}
+
+// 节点行（可获得焦点的行头），按文档顺序查询即为表单中显示的顺序
+const ROW_HEADER_SELECTOR = '.array-item-header, .object-item-header'
+
+// 整个表单树中当前显示的所有节点行（折叠的子项不会渲染）
+function getTreeRows(from: HTMLElement): HTMLElement[] {
+  const root = from.closest('.yaml-form-root')
+  return root ? Array.from(root.querySelectorAll<HTMLElement>(ROW_HEADER_SELECTOR)) : []
+}
+
+// 行头所在节点的直接子节点行
+function getRowHeader(row: Element | null): HTMLElement | null {
+  return row?.querySelector<HTMLElement>(':scope > .array-item-header, :scope > .object-item-header') ?? null
+}
+
+// 菜单中的键盘操作：↑/↓ 在选项间移动，Esc 关闭菜单
+function handleMenuKeyDown(e: React.KeyboardEvent<HTMLElement>, onClose: () => void) {
+  if (e.key === 'ArrowDown' || e.key === 'ArrowUp') {
+    e.preventDefault()
+    e.stopPropagation()
+    const items = Array.from(e.currentTarget.querySelectorAll<HTMLElement>('button'))
+    const index = items.indexOf(document.activeElement as HTMLElement)
+    const step = e.key === 'ArrowDown' ? 1 : -1
+    const next = index === -1 ? (step === 1 ? 0 : items.length - 1) : (index + step + items.length) % items.length
+    items[next]?.focus()
+  } else if (e.key === 'Escape') {
+    e.preventDefault()
+    e.stopPropagation()
+    onClose()
+  }
+}
+
+// 多选操作：切换单个节点、从上次选中的节点范围选择到该节点、清除选择
+export type SelectMode = 'toggle' | 'range' | 'clear'
+
 interface YAMLFormProps {
   data: any
   onChange: (data: any) => void
@@ -9,10 +84,31 @@ interface YAMLFormProps {
   expanded?: Set<string>
   onExpandedChange?: (expanded: Set<string>) => void
   searchQuery?: string
+  // JSONPath / jq 查询命中的节点路径：只显示命中的节点及其祖先，命中节点的子树完整显示
+  queryMatches?: Set<string> | null
   onMatchCountChange?: (count: number) => void
   commentsMap?: Map<string, string>
   highlightedPath?: string | null
+  // 表单中的字段获得焦点时报告其路径（只在顶层表单上监听，嵌套表单的焦点事件会冒泡上来）
+  onFocusPath?: (path: string) => void
   onLocatePath?: (path: string) => void
+  problemsMap?: Map<string, Problem[]>
+  // 当前层级数据对应的 JSON Schema，用于枚举下拉框、字段说明、必填标记、默认值和添加菜单
+  schema?: any
+  // 关联的完整 schema，用于解析 $ref；顶层表单未提供时即为 schema
+  rootSchema?: any
+  diffLookup?: DiffLookup
+  mergeConflicts?: MergeConflictLookup
+  onResolveConflict?: (conflict: MergeConflict, resolution: MergeResolution) => void
+  anchorLookup?: AnchorLookup
+  onNavigateToPath?: (path: string) => void
+  tagLookup?: Map<string, TagInfo>
+  onTagChange?: (path: string, tag: string | null) => void
+  // 多选的节点路径（顶层表单自行维护，传给嵌套表单）
+  selectedPaths?: Set<string>
+  onSelectPath?: (path: string, mode: SelectMode) => void
+  // 批量操作的修改（作为一次撤销记录），未提供时使用 onChange
+  onBulkChange?: (data: any) => void
 }
 
 export interface YAMLFormHandle {
@@ -20,7 +116,365 @@ export interface YAMLFormHandle {
   collapseAll: () => void
 }
 
-const YAMLForm = forwardRef<YAMLFormHandle, YAMLFormProps>(({ data, onChange, path = '', expanded: expandedProp, onExpandedChange, searchQuery = '', onMatchCountChange, commentsMap = new Map(), highlightedPath, onLocatePath }, ref) => {
+// 字段的校验问题（显示在字段行内）
+function FieldProblems({ problems }: { problems?: Problem[] }) {
+  if (!problems || problems.length === 0) return null
+  const hasError = problems.some(p => p.severity === 'error')
+  const text = problems.map(p => p.message).join('\n')
+  return (
+    <span className={`field-problem ${hasError ? 'field-problem-error' : 'field-problem-warning'}`} title={text}>
+      {hasError ? '✖' : '⚠'} {problems[0].message}
+      {problems.length > 1 && ` (+${problems.length - 1})`}
+    </span>
+  )
+}
+
+// 字段的 schema 说明（description），鼠标悬停时显示完整内容
+function FieldDescription({ schema }: { schema: Record<string, any> | null }) {
+  const description = typeof schema?.description === 'string' ? schema.description : ''
+  const title = typeof schema?.title === 'string' ? schema.title : ''
+  if (!description && !title) return null
+  return (
+    <span className="schema-description" title={title && description ? `${title}\n${description}` : title || description}>
+      ?
+    </span>
+  )
+}
+
+// 恢复默认值：schema 为字段定义了 default 且当前值与之不同时显示
+function ResetToDefaultButton({ schema, value, onReset }: { schema: Record<string, any> | null; value: any; onReset: (value: any) => void }) {
+  if (!schema || !('default' in schema) || deepEqual(value, schema.default)) return null
+  return (
+    <button
+      className="reset-default-btn"
+      onClick={(e) => {
+        e.stopPropagation()
+        onReset(structuredClone(schema.default))
+      }}
+      title={`恢复默认值: ${formatDiffValue(schema.default)}`}
+    >
+      ↺
+    </button>
+  )
+}
+
+// 字段的对比差异标记（新增/修改/移动）
+function FieldDiff({ entry }: { entry?: DiffEntry }) {
+  if (!entry) return null
+  let title = DIFF_KIND_LABELS[entry.kind]
+  if (entry.kind === 'changed') {
+    title = `原值: ${formatDiffValue(entry.oldValue)}`
+  } else if (entry.kind === 'moved') {
+    title = `原位置: ${entry.fromPath || '(根)'}`
+  }
+  return (
+    <span className={`field-diff field-diff-${entry.kind}`} title={title}>
+      {DIFF_KIND_LABELS[entry.kind]}
+    </span>
+  )
+}
+
+// 字段的锚点（&name）、别名（*name）和合并键（<<）标记
+function FieldAnchor({ path, lookup, onNavigate }: {
+  path: string
+  lookup?: AnchorLookup
+  onNavigate?: (path: string) => void
+}) {
+  if (!lookup) return null
+  const anchor = lookup.anchors.get(path)
+  const alias = lookup.aliases.get(path)
+  const mergeState = lookup.mergeKeys.get(path)
+  if (!anchor && !alias && !mergeState) return null
+
+  return (
+    <>
+      {anchor && (
+        <span className="field-anchor" title={`锚点，被 ${anchor.aliasCount} 处引用；修改后所有引用处同步更新`}>
+          &amp;{anchor.name}
+        </span>
+      )}
+      {alias && (
+        <button
+          className="field-alias"
+          onClick={(e) => {
+            e.stopPropagation()
+            if (alias.anchorPath !== null) onNavigate?.(alias.anchorPath)
+          }}
+          disabled={alias.anchorPath === null || !onNavigate}
+          title={alias.anchorPath !== null
+            ? `引用锚点 ${alias.name}（${alias.anchorPath || '根'}），点击跳转；在此处编辑会转换为独立的副本`
+            : `引用锚点 ${alias.name}`}
+        >
+          *{alias.name}
+        </button>
+      )}
+      {mergeState && (
+        <span
+          className={`field-merge-key field-merge-key-${mergeState}`}
+          title={mergeState === 'override' ? '覆盖了合并键（<<）继承的值' : `通过合并键（<<）${MERGE_KEY_STATE_LABELS[mergeState]}`}
+        >
+          {MERGE_KEY_STATE_LABELS[mergeState]}
+        </span>
+      )}
+    </>
+  )
+}
+
+// 字段的显式标签（如 !Ref、!!binary），可切换为注册表中同类节点可用的其他标签或移除
+function FieldTag({ path, info, onChange }: {
+  path: string
+  info?: TagInfo
+  onChange?: (path: string, tag: string | null) => void
+}) {
+  if (!info) return null
+  const definition = getTagDefinition(info.tag)
+  const options = getTagOptions(info.kind)
+  const groups = Array.from(new Set(options.map(option => option.group)))
+  const title = definition ? `${formatTag(info.tag)}：${definition.description}` : `标签 ${formatTag(info.tag)}`
+
+  if (!onChange) {
+    return <span className="field-tag" title={title}>{formatTag(info.tag)}</span>
+  }
+
+  return (
+    <select
+      className="field-tag"
+      value={info.tag}
+      onChange={(e) => onChange(path, e.target.value || null)}
+      onClick={(e) => e.stopPropagation()}
+      title={`${title}（切换标签）`}
+    >
+      {!definition && <option value={info.tag}>{formatTag(info.tag)}</option>}
+      {groups.map(group => (
+        <optgroup key={group} label={group}>
+          {options.filter(option => option.group === group).map(option => (
+            <option key={option.tag} value={option.tag}>{formatTag(option.tag)}</option>
+          ))}
+        </optgroup>
+      ))}
+      <option value="">移除标签</option>
+    </select>
+  )
+}
+
+// 字段的合并冲突：选择我方、对方，或保留手动编辑的值
+function FieldConflict({ conflict, resolution, onResolve }: {
+  conflict?: MergeConflict
+  resolution?: MergeResolution
+  onResolve?: (conflict: MergeConflict, resolution: MergeResolution) => void
+}) {
+  if (!conflict) return null
+  const title = `基础: ${formatMergeValue(conflict.base)}\n我方: ${formatMergeValue(conflict.ours)}\n对方: ${formatMergeValue(conflict.theirs)}`
+  return (
+    <span className={`field-conflict ${resolution ? 'resolved' : ''}`} title={title}>
+      <span className="field-conflict-label">{resolution ? `已选${MERGE_RESOLUTION_LABELS[resolution]}` : '冲突'}</span>
+      {onResolve && (['ours', 'theirs', 'manual'] as MergeResolution[]).map(option => (
+        <button
+          key={option}
+          className={`field-conflict-btn ${resolution === option ? 'active' : ''}`}
+          onClick={(e) => {
+            e.stopPropagation()
+            onResolve(conflict, option)
+          }}
+        >
+          {MERGE_RESOLUTION_LABELS[option]}
+        </button>
+      ))}
+    </span>
+  )
+}
+
+// 节点的复制、剪切、粘贴菜单（节点获得焦点时也可使用 Ctrl+C / Ctrl+X / Ctrl+V，Ctrl+Shift+V 粘贴为子项）
+function NodeClipboardMenu({ canPasteAsChild, onCopy, onCut, onPaste }: {
+  canPasteAsChild: boolean
+  onCopy: () => void
+  onCut: () => void
+  onPaste: (mode: PasteMode) => void
+}) {
+  const [isOpen, setIsOpen] = useState(false)
+  const menuRef = useRef<HTMLDivElement>(null)
+
+  useEffect(() => {
+    const handleClickOutside = (event: MouseEvent) => {
+      if (menuRef.current && !menuRef.current.contains(event.target as Node)) {
+        setIsOpen(false)
+      }
+    }
+    if (isOpen) {
+      document.addEventListener('mousedown', handleClickOutside)
+    }
+    return () => {
+      document.removeEventListener('mousedown', handleClickOutside)
+    }
+  }, [isOpen])
+
+  const run = (action: () => void) => {
+    setIsOpen(false)
+    action()
+  }
+
+  return (
+    <div className="clipboard-menu-container" ref={menuRef}>
+      <button
+        className="clipboard-btn"
+        onClick={(e) => {
+          e.stopPropagation()
+          setIsOpen(!isOpen)
+        }}
+        title="复制 / 剪切 / 粘贴"
+      >
+        <ClipboardIcon size={14} />
+      </button>
+      {isOpen && (
+        <div className="clipboard-menu">
+          <button className="clipboard-menu-item" onClick={() => run(onCopy)}>
+            <span>复制</span>
+            <kbd>Ctrl+C</kbd>
+          </button>
+          <button className="clipboard-menu-item" onClick={() => run(onCut)}>
+            <span>剪切</span>
+            <kbd>Ctrl+X</kbd>
+          </button>
+          <button className="clipboard-menu-item" onClick={() => run(() => onPaste('sibling'))}>
+            <span>粘贴为同级</span>
+            <kbd>Ctrl+V</kbd>
+          </button>
+          {canPasteAsChild && (
+            <button className="clipboard-menu-item" onClick={() => run(() => onPaste('child'))}>
+              <span>粘贴为子项</span>
+              <kbd>Ctrl+Shift+V</kbd>
+            </button>
+          )}
+        </div>
+      )}
+    </div>
+  )
+}
+
+// 多选时的批量操作栏：删除、修改类型、移动到其他对象或数组、按正则重命名键
+function BulkActionBar({ count, moveTargets, onDelete, onChangeType, onMove, onRename, onClear }: {
+  count: number
+  moveTargets: string[]
+  onDelete: () => void
+  onChangeType: (type: ValueType) => void
+  onMove: (targetPath: string) => void
+  onRename: (pattern: RegExp, replacement: string) => void
+  onClear: () => void
+}) {
+  const [moveTarget, setMoveTarget] = useState('')
+  const [showRename, setShowRename] = useState(false)
+  const [pattern, setPattern] = useState('')
+  const [replacement, setReplacement] = useState('')
+  const [renameError, setRenameError] = useState('')
+
+  const handleRename = () => {
+    try {
+      onRename(new RegExp(pattern, 'g'), replacement)
+      setRenameError('')
+    } catch (error) {
+      setRenameError(`正则表达式无效: ${error instanceof Error ? error.message : '未知错误'}`)
+    }
+  }
+
+  return (
+    <div className="bulk-action-bar">
+      <div className="bulk-action-row">
+        <span className="bulk-action-count">已选择 {count} 项</span>
+        <button className="bulk-action-btn bulk-action-danger" onClick={onDelete} title="删除所有选中的节点">
+          删除
+        </button>
+        <select
+          className="bulk-action-select"
+          value=""
+          onChange={(e) => e.target.value && onChangeType(e.target.value as ValueType)}
+          title="把所有选中的节点转换为同一类型"
+        >
+          <option value="">修改类型…</option>
+          {VALUE_TYPES.map(type => (
+            <option key={type} value={type}>{VALUE_TYPE_LABELS[type]}</option>
+          ))}
+        </select>
+        <select
+          className="bulk-action-select bulk-action-target"
+          value={moveTarget}
+          onChange={(e) => setMoveTarget(e.target.value)}
+          title="移动到的对象或数组"
+        >
+          <option value="">移动到…</option>
+          {moveTargets.map(target => (
+            <option key={target} value={target || '/'}>{target || '(根)'}</option>
+          ))}
+        </select>
+        <button
+          className="bulk-action-btn"
+          onClick={() => {
+            onMove(moveTarget === '/' ? '' : moveTarget)
+            setMoveTarget('')
+          }}
+          disabled={!moveTarget}
+        >
+          移动
+        </button>
+        <button
+          className={`bulk-action-btn ${showRename ? 'active' : ''}`}
+          onClick={() => setShowRename(!showRename)}
+          title="按正则表达式重命名选中的键"
+        >
+          重命名
+        </button>
+        <button className="bulk-action-btn bulk-action-clear" onClick={onClear} title="取消选择 (Esc)">
+          <CloseIcon size={12} />
+        </button>
+      </div>
+      {showRename && (
+        <div className="bulk-action-row">
+          <input
+            type="text"
+            className="bulk-action-input"
+            value={pattern}
+            onChange={(e) => setPattern(e.target.value)}
+            placeholder="正则表达式，如 ^old_"
+          />
+          <span className="bulk-action-arrow">→</span>
+          <input
+            type="text"
+            className="bulk-action-input"
+            value={replacement}
+            onChange={(e) => setReplacement(e.target.value)}
+            onKeyDown={(e) => {
+              if (e.key === 'Enter' && pattern) handleRename()
+            }}
+            placeholder="替换为，可使用 $1"
+          />
+          <button className="bulk-action-btn" onClick={handleRename} disabled={!pattern}>
+            应用
+          </button>
+          {renameError && <span className="bulk-action-error">{renameError}</span>}
+        </div>
+      )}
+    </div>
+  )
+}
+
+// 对比文档中存在、当前文档中已删除的子项
+function RemovedDiffItems({ entries }: { entries?: DiffEntry[] }) {
+  if (!entries || entries.length === 0) return null
+  return (
+    <div className="diff-removed-items">
+      {entries.map(entry => {
+        const last = entry.segments[entry.segments.length - 1]
+        return (
+          <div key={entry.path} className="diff-removed-item" title={formatDiffValue(entry.oldValue)}>
+            <span className="diff-removed-key">{typeof last === 'number' ? `[${last}]` : last}</span>
+            <span className="diff-removed-value">{formatDiffValue(entry.oldValue)}</span>
+          </div>
+        )
+      })}
+    </div>
+  )
+}
+
+const YAMLForm = forwardRef<YAMLFormHandle, YAMLFormProps>(({ data, onChange, path = '', expanded: expandedProp, onExpandedChange, searchQuery = '', queryMatches, onMatchCountChange, commentsMap = new Map(), highlightedPath, onFocusPath, onLocatePath, problemsMap, schema, rootSchema, diffLookup, mergeConflicts, onResolveConflict, anchorLookup, onNavigateToPath, tagLookup, onTagChange, selectedPaths: selectedPathsProp, onSelectPath, onBulkChange }, ref) => {
   // 如果提供了 expanded prop，使用它；否则使用本地状态（用于嵌套组件）
   const [localExpanded, setLocalExpanded] = useState<Set<string>>(new Set())
   const expanded = expandedProp !== undefined ? expandedProp : localExpanded
@@ -49,6 +503,79 @@ const YAMLForm = forwardRef<YAMLFormHandle, YAMLFormProps>(({ data, onChange, pa
       setLocalExpanded(value)
     }
   }, [expandedProp])
+
+  // 多选：顶层表单维护选中的路径，嵌套表单通过 props 共享同一份选择
+  const [localSelection, setLocalSelection] = useState<Set<string>>(new Set())
+  const selectedPaths = selectedPathsProp ?? localSelection
+  const selectionAnchorRef = useRef<string | null>(null)
+  const rootRef = useRef<HTMLDivElement>(null)
+
+  const handleSelectPath = useCallback((itemPath: string, mode: SelectMode) => {
+    if (mode === 'clear') {
+      setLocalSelection(new Set())
+      selectionAnchorRef.current = null
+      return
+    }
+    if (mode === 'range' && selectionAnchorRef.current !== null && rootRef.current) {
+      // 按表单中显示的顺序选择范围，可以跨越不同的父级
+      const visiblePaths = Array.from(rootRef.current.querySelectorAll<HTMLElement>('[data-path]'))
+        .map(element => element.dataset.path as string)
+      const start = visiblePaths.indexOf(selectionAnchorRef.current)
+      const end = visiblePaths.indexOf(itemPath)
+      if (start !== -1 && end !== -1) {
+        setLocalSelection(new Set(visiblePaths.slice(Math.min(start, end), Math.max(start, end) + 1)))
+        return
+      }
+    }
+    selectionAnchorRef.current = itemPath
+    setLocalSelection(prev => {
+      const next = new Set(prev)
+      if (next.has(itemPath)) {
+        next.delete(itemPath)
+      } else {
+        next.add(itemPath)
+      }
+      return next
+    })
+  }, [])
+  const selectPath = onSelectPath ?? handleSelectPath
+
+  // 当前层级的 schema（展开 $ref 和组合关键字），未关联 schema 或该位置没有定义时为 null
+  const schemaRoot = rootSchema ?? schema
+  const levelSchema = useMemo(
+    () => schema !== undefined && schemaRoot !== undefined ? resolveSchema(schema, schemaRoot) : null,
+    [schema, schemaRoot]
+  )
+  const requiredKeys = useMemo(() => new Set<string>(Array.isArray(levelSchema?.required) ? levelSchema.required : []), [levelSchema])
+  const getItemSchema = (key: string | number) => getChildSchema(levelSchema, key, schemaRoot)
+
+  // 数据变化后移除已不存在的选中路径
+  useEffect(() => {
+    if (path || localSelection.size === 0) return
+    const remaining = Array.from(localSelection).filter(selected => getValueAtPath(data, pointerToSegments(selected, data)) !== undefined)
+    if (remaining.length !== localSelection.size) {
+      setLocalSelection(new Set(remaining))
+    }
+  }, [data])
+
+  // Ctrl/Cmd+点击切换选中，Shift+点击范围选择（点击输入框、按钮等控件时保持默认行为）
+  const handleRowClick = useCallback((e: React.MouseEvent, itemPath: string) => {
+    if (!(e.ctrlKey || e.metaKey || e.shiftKey)) return
+    if ((e.target as HTMLElement).closest('input, textarea, select, button')) return
+    e.preventDefault()
+    window.getSelection()?.removeAllRanges()
+    selectPath(itemPath, e.shiftKey ? 'range' : 'toggle')
+  }, [selectPath])
+
+  // 焦点进入某一行（键名、值输入框或行内按钮）时，报告离焦点最近的行路径
+  const handleFocus = useCallback((e: React.FocusEvent) => {
+    if (!onFocusPath) return
+    const row = (e.target as HTMLElement).closest<HTMLElement>('[data-path]')
+    if (row?.dataset.path !== undefined) {
+      onFocusPath(row.dataset.path)
+    }
+  }, [onFocusPath])
+
   const [showAddMenuArray, setShowAddMenuArray] = useState(false)
   const [showAddMenuObject, setShowAddMenuObject] = useState(false)
   const [showTypeMenu, setShowTypeMenu] = useState<Set<string>>(new Set())
@@ -61,6 +588,13 @@ const YAMLForm = forwardRef<YAMLFormHandle, YAMLFormProps>(({ data, onChange, pa
   const fadeOutTimeoutRef = useRef<number | null>(null) // 跟踪淡出定时器
   const [draggedIndex, setDraggedIndex] = useState<number | string | null>(null)
   const [dragOverIndex, setDragOverIndex] = useState<number | string | null>(null)
+  // 通过键盘打开添加菜单的节点行，按 Esc 关闭菜单后焦点回到该行
+  const addMenuOpenerRef = useRef<string | null>(null)
+
+  // 数据变化重新渲染后，让指定路径的节点行获得焦点
+  const focusRow = useCallback((itemPath: string) => {
+    setTimeout(() => getRowHeader(pathElementRefs.current.get(itemPath) ?? null)?.focus(), 0)
+  }, [])
 
   // 点击外部关闭数组菜单
   useEffect(() => {
@@ -96,8 +630,12 @@ const YAMLForm = forwardRef<YAMLFormHandle, YAMLFormProps>(({ data, onChange, pa
     }
   }, [showAddMenuObject])
 
+  // 文本搜索或查询时只显示匹配的项
+  const isFiltering = Boolean(searchQuery) || Boolean(queryMatches)
+
   // 检查值是否匹配搜索查询
   const matchesSearch = useCallback((key: string, value: any, currentPath: string): boolean => {
+    if (queryMatches) return queryMatches.has(currentPath)
     if (!searchQuery) return true
     
     const query = searchQuery.toLowerCase()
@@ -120,20 +658,24 @@ const YAMLForm = forwardRef<YAMLFormHandle, YAMLFormProps>(({ data, onChange, pa
     } else if (typeof value === 'object') {
       // 递归检查对象中是否有匹配项
       valueMatch = Object.entries(value).some(([k, v]) => 
-        matchesSearch(k, v, currentPath ? `${currentPath}.${k}` : k)
+        matchesSearch(k, v, appendPath(currentPath, k))
       )
     }
     
     return keyMatch || valueMatch
-  }, [searchQuery])
+  }, [searchQuery, queryMatches])
 
   // 递归检查是否有子项匹配搜索
   const hasMatchingChild = useCallback((value: any, currentPath: string): boolean => {
+    if (queryMatches) {
+      const prefix = `${currentPath}/`
+      return Array.from(queryMatches).some(match => match.startsWith(prefix))
+    }
     if (!searchQuery) return true
     
     if (Array.isArray(value)) {
       return value.some((item, index) => {
-        const itemPath = currentPath ? `${currentPath}[${index}]` : `[${index}]`
+        const itemPath = appendPath(currentPath, index)
         if (typeof item === 'object' && item !== null) {
           return hasMatchingChild(item, itemPath)
         }
@@ -141,7 +683,7 @@ const YAMLForm = forwardRef<YAMLFormHandle, YAMLFormProps>(({ data, onChange, pa
       })
     } else if (typeof value === 'object' && value !== null) {
       return Object.entries(value).some(([k, v]) => {
-        const itemPath = currentPath ? `${currentPath}.${k}` : k
+        const itemPath = appendPath(currentPath, k)
         if (typeof v === 'object' && v !== null) {
           return matchesSearch(k, v, itemPath) || hasMatchingChild(v, itemPath)
         }
@@ -150,7 +692,7 @@ const YAMLForm = forwardRef<YAMLFormHandle, YAMLFormProps>(({ data, onChange, pa
     }
     
     return false
-  }, [searchQuery, matchesSearch])
+  }, [searchQuery, queryMatches, matchesSearch])
 
   // 高亮文本函数
   const highlightText = useCallback((text: string, query: string): React.ReactNode => {
@@ -166,14 +708,21 @@ const YAMLForm = forwardRef<YAMLFormHandle, YAMLFormProps>(({ data, onChange, pa
     )
   }, [])
 
+  // 对比差异对应的行样式（折叠的父级提示其中包含差异）
+  const diffClassName = (itemPath: string): string => {
+    const entry = diffLookup?.byPath.get(itemPath)
+    if (entry) return `diff-row-${entry.kind}`
+    return diffLookup?.changedAncestors.has(itemPath) ? 'diff-row-contains' : ''
+  }
+
   // 计算匹配项数量（只在顶层执行）
   const countMatches = useCallback((obj: any, currentPath: string = ''): number => {
-    if (!searchQuery) return 0
+    if (!isFiltering) return 0
     
     let count = 0
     if (Array.isArray(obj)) {
       obj.forEach((item, index) => {
-        const itemPath = currentPath ? `${currentPath}[${index}]` : `[${index}]`
+        const itemPath = appendPath(currentPath, index)
         if (matchesSearch(String(index), item, itemPath)) {
           count++
         }
@@ -183,7 +732,7 @@ const YAMLForm = forwardRef<YAMLFormHandle, YAMLFormProps>(({ data, onChange, pa
       })
     } else if (typeof obj === 'object' && obj !== null) {
       Object.entries(obj).forEach(([key, value]) => {
-        const itemPath = currentPath ? `${currentPath}.${key}` : key
+        const itemPath = appendPath(currentPath, key)
         if (matchesSearch(key, value, itemPath)) {
           count++
         }
@@ -193,30 +742,20 @@ const YAMLForm = forwardRef<YAMLFormHandle, YAMLFormProps>(({ data, onChange, pa
       })
     }
     return count
-  }, [searchQuery, matchesSearch])
+  }, [isFiltering, matchesSearch])
 
   // 自动展开匹配项的父级节点
   useEffect(() => {
-    if (!searchQuery || path) return // 只在顶层执行
+    if (!isFiltering || path) return // 只在顶层执行
     
     const expandMatchingPaths = (obj: any, currentPath: string = '', pathsToExpand: Set<string> = new Set()): Set<string> => {
       if (Array.isArray(obj)) {
         obj.forEach((item, index) => {
-          const itemPath = currentPath ? `${currentPath}[${index}]` : `[${index}]`
+          const itemPath = appendPath(currentPath, index)
           if (matchesSearch(String(index), item, itemPath) || hasMatchingChild(item, itemPath)) {
-            // 展开所有父级路径
-            const pathParts = itemPath.split(/[\[\]\.]/).filter(Boolean)
-            let parentPath = ''
-            pathParts.forEach((part, i) => {
-              if (i === 0) {
-                parentPath = part
-              } else {
-                parentPath = parentPath.includes('[') ? `${parentPath}[${part}]` : `${parentPath}.${part}`
-              }
-              if (parentPath) {
-                pathsToExpand.add(parentPath)
-              }
-            })
+            // 展开所有父级路径（包括自身，便于查看匹配的子项）
+            getAncestorPaths(itemPath).forEach(parentPath => pathsToExpand.add(parentPath))
+            pathsToExpand.add(itemPath)
           }
           if (typeof item === 'object' && item !== null) {
             expandMatchingPaths(item, itemPath, pathsToExpand)
@@ -224,21 +763,11 @@ const YAMLForm = forwardRef<YAMLFormHandle, YAMLFormProps>(({ data, onChange, pa
         })
       } else if (typeof obj === 'object' && obj !== null) {
         Object.entries(obj).forEach(([key, value]) => {
-          const itemPath = currentPath ? `${currentPath}.${key}` : key
+          const itemPath = appendPath(currentPath, key)
           if (matchesSearch(key, value, itemPath) || hasMatchingChild(value, itemPath)) {
-            // 展开所有父级路径
-            const pathParts = itemPath.split(/[\[\]\.]/).filter(Boolean)
-            let parentPath = ''
-            pathParts.forEach((part, i) => {
-              if (i === 0) {
-                parentPath = part
-              } else {
-                parentPath = parentPath.includes('[') ? `${parentPath}[${part}]` : `${parentPath}.${part}`
-              }
-              if (parentPath) {
-                pathsToExpand.add(parentPath)
-              }
-            })
+            // 展开所有父级路径（包括自身，便于查看匹配的子项）
+            getAncestorPaths(itemPath).forEach(parentPath => pathsToExpand.add(parentPath))
+            pathsToExpand.add(itemPath)
           }
           if (typeof value === 'object' && value !== null) {
             expandMatchingPaths(value, itemPath, pathsToExpand)
@@ -256,7 +785,7 @@ const YAMLForm = forwardRef<YAMLFormHandle, YAMLFormProps>(({ data, onChange, pa
         return next
       })
     }
-  }, [searchQuery, data, path, matchesSearch, hasMatchingChild, setExpanded])
+  }, [isFiltering, data, path, matchesSearch, hasMatchingChild, setExpanded])
 
   // 计算匹配项数量并通知父组件（只在顶层执行）
   useEffect(() => {
@@ -264,7 +793,7 @@ const YAMLForm = forwardRef<YAMLFormHandle, YAMLFormProps>(({ data, onChange, pa
       const count = countMatches(data)
       onMatchCountChange(count)
     }
-  }, [searchQuery, data, path, countMatches, onMatchCountChange])
+  }, [data, path, countMatches, onMatchCountChange])
 
   // 清除高亮的辅助函数
   const clearHighlight = useCallback(() => {
@@ -332,29 +861,7 @@ const YAMLForm = forwardRef<YAMLFormHandle, YAMLFormProps>(({ data, onChange, pa
     clearHighlight()
 
     // 先展开父级路径，然后查找元素
-    const pathParts = highlightedPath.split(/[\.\[\]]/).filter(Boolean)
-    let currentPath = ''
-    const pathsToExpand = new Set<string>()
-    
-    // 构建需要展开的路径
-    for (let i = 0; i < pathParts.length - 1; i++) {
-      const part = pathParts[i]
-      if (i === 0) {
-        currentPath = part
-      } else {
-        // 检查是否是数组索引（纯数字）
-        const numPart = parseInt(part)
-        if (!isNaN(numPart) && part === String(numPart)) {
-          // 这是数组索引
-          currentPath = `${currentPath}[${part}]`
-        } else {
-          currentPath = `${currentPath}.${part}`
-        }
-      }
-      if (currentPath) {
-        pathsToExpand.add(currentPath)
-      }
-    }
+    const pathsToExpand = new Set(getAncestorPaths(highlightedPath))
     
     // 展开所有父级路径
     if (pathsToExpand.size > 0) {
@@ -390,29 +897,11 @@ const YAMLForm = forwardRef<YAMLFormHandle, YAMLFormProps>(({ data, onChange, pa
       }
       
       // 3. 尝试通过 data-path 属性查找（更可靠的方法）
-      const elements = document.querySelectorAll(`[data-path="${targetPath}"]`)
+      const elements = document.querySelectorAll(`[data-path="${CSS.escape(targetPath)}"]`)
       if (elements.length > 0) {
         return elements[0] as HTMLElement
       }
       
-      // 4. 尝试部分匹配（处理可能的路径格式差异）
-      // 例如：targetPath = "services.web.volumes[0]", storedPath = "volumes[0]"
-      const targetParts = targetPath.split(/[\.\[\]]/).filter(Boolean)
-      for (const [storedPath, el] of pathElementRefs.current.entries()) {
-        const storedParts = storedPath.split(/[\.\[\]]/).filter(Boolean)
-        // 检查是否是目标路径的后缀
-        if (storedParts.length > 0 && targetParts.length >= storedParts.length) {
-          const targetSuffix = targetParts.slice(-storedParts.length)
-          if (targetSuffix.join('.') === storedParts.join('.')) {
-            // 需要重新构建完整路径来匹配
-            const fullStoredPath = targetPath.substring(0, targetPath.lastIndexOf(storedPath)) + storedPath
-            if (fullStoredPath === targetPath || storedPath === targetPath) {
-              return el
-            }
-          }
-        }
-      }
-      
       return undefined
     }
     
@@ -573,7 +1062,7 @@ const YAMLForm = forwardRef<YAMLFormHandle, YAMLFormProps>(({ data, onChange, pa
 
   const toggleExpand = useCallback((key: string) => {
     // 构建完整的路径key
-    const fullKey = path ? `${path}.${key}` : key
+    const fullKey = appendPath(path, key)
     setExpanded((prev: Set<string>) => {
       const next = new Set(prev)
       if (next.has(fullKey)) {
@@ -589,7 +1078,7 @@ const YAMLForm = forwardRef<YAMLFormHandle, YAMLFormProps>(({ data, onChange, pa
   const collectExpandableKeys = useCallback((obj: any, prefix: string = '', keys: Set<string> = new Set()): Set<string> => {
     if (Array.isArray(obj)) {
       obj.forEach((item, index) => {
-        const key = prefix ? `${prefix}[${index}]` : String(index)
+        const key = appendPath(prefix, index)
         const isObject = typeof item === 'object' && item !== null && !Array.isArray(item)
         const isNestedArray = Array.isArray(item)
         if (isObject || isNestedArray) {
@@ -600,7 +1089,7 @@ const YAMLForm = forwardRef<YAMLFormHandle, YAMLFormProps>(({ data, onChange, pa
     } else if (typeof obj === 'object' && obj !== null) {
       Object.keys(obj).forEach(key => {
         const value = obj[key]
-        const fullKey = prefix ? `${prefix}.${key}` : key
+        const fullKey = appendPath(prefix, key)
         const isObject = typeof value === 'object' && value !== null && !Array.isArray(value)
         const isNestedArray = Array.isArray(value)
         if (isObject || isNestedArray) {
@@ -671,8 +1160,12 @@ const YAMLForm = forwardRef<YAMLFormHandle, YAMLFormProps>(({ data, onChange, pa
   }, [])
 
   // 类型选择器组件
-  const TypeSelector = useCallback(({ itemKey, currentValue }: { itemKey: string, currentValue: any }) => {
+  // allowedTypes 为 schema 允许的类型，提供时菜单只列出这些类型（以及当前类型）
+  const TypeSelector = useCallback(({ itemKey, currentValue, allowedTypes }: { itemKey: string, currentValue: any, allowedTypes?: string[] }) => {
     const currentType = getValueType(currentValue)
+    const menuTypes = allowedTypes && allowedTypes.some(type => VALUE_TYPES.includes(type as ValueType))
+      ? VALUE_TYPES.filter(type => type === currentType || allowedTypes.includes(type))
+      : VALUE_TYPES
     const isOpen = showTypeMenu.has(itemKey)
 
     useEffect(() => {
@@ -696,14 +1189,6 @@ const YAMLForm = forwardRef<YAMLFormHandle, YAMLFormProps>(({ data, onChange, pa
       }
     }, [itemKey, isOpen])
 
-    const typeLabels: Record<'string' | 'number' | 'boolean' | 'object' | 'array', string> = {
-      string: '字符串',
-      number: '数字',
-      boolean: '布尔值',
-      object: '对象',
-      array: '数组'
-    }
-
     return (
       <div 
         className="type-selector-container"
@@ -720,28 +1205,39 @@ const YAMLForm = forwardRef<YAMLFormHandle, YAMLFormProps>(({ data, onChange, pa
           onClick={() => toggleTypeMenu(itemKey)}
           title="更改类型"
         >
-          <span className="type-label">{typeLabels[currentType]}</span>
+          <span className="type-label">{VALUE_TYPE_LABELS[currentType]}</span>
           <ChevronDownIcon size={10} />
         </button>
         {isOpen && (
-          <div className="type-menu">
-            {(['string', 'number', 'boolean', 'object', 'array'] as const).map(type => (
+          <div
+            className="type-menu"
+            onKeyDown={(e) => handleMenuKeyDown(e, () => {
+              toggleTypeMenu(itemKey)
+              focusRow(appendPath(path, itemKey))
+            })}
+          >
+            {menuTypes.map(type => (
               <button
                 key={type}
-                onClick={() => changeValueType(itemKey, type)}
+                onClick={(e) => {
+                  changeValueType(itemKey, type)
+                  // 键盘触发的点击（detail 为 0）选择后焦点回到节点行
+                  if (e.detail === 0) focusRow(appendPath(path, itemKey))
+                }}
                 className={`type-menu-item ${currentType === type ? 'active' : ''}`}
               >
-                {typeLabels[type]}
+                {VALUE_TYPE_LABELS[type]}
               </button>
             ))}
           </div>
         )}
       </div>
     )
-  }, [getValueType, showTypeMenu, toggleTypeMenu, changeValueType])
+  }, [path, getValueType, showTypeMenu, toggleTypeMenu, changeValueType, focusRow])
 
+  // initialValue 为 schema 给出的初始值，未提供时按类型使用空值
   const addItem = useCallback(
-    (type: 'string' | 'number' | 'boolean' | 'object' | 'array', key?: string) => {
+    (type: 'string' | 'number' | 'boolean' | 'object' | 'array', key?: string, initialValue?: any) => {
       const newData = Array.isArray(data) ? [...data] : { ...data }
       let defaultValue: any
       
@@ -764,12 +1260,16 @@ const YAMLForm = forwardRef<YAMLFormHandle, YAMLFormProps>(({ data, onChange, pa
         default:
           defaultValue = ''
       }
+      if (initialValue !== undefined) {
+        defaultValue = initialValue
+      }
       
+      let newKey = key || 'newKey'
       if (Array.isArray(newData)) {
         newData.push(defaultValue)
+        newKey = String(newData.length - 1)
       } else {
         // 生成唯一的 key
-        let newKey = key || 'newKey'
         let counter = 1
         while (newData[newKey] !== undefined) {
           newKey = `newKey${counter}`
@@ -780,6 +1280,7 @@ const YAMLForm = forwardRef<YAMLFormHandle, YAMLFormProps>(({ data, onChange, pa
       onChange(newData)
       setShowAddMenuArray(false)
       setShowAddMenuObject(false)
+      return newKey
     },
     [data, onChange]
   )
@@ -797,6 +1298,34 @@ const YAMLForm = forwardRef<YAMLFormHandle, YAMLFormProps>(({ data, onChange, pa
     [data, onChange]
   )
 
+  // 将子项移动到另一子项的位置（拖拽排序和 Alt+↑/↓ 共用）
+  const reorderItem = useCallback((fromKey: number | string, toKey: number | string) => {
+    if (Array.isArray(data)) {
+      const newData = [...data]
+      const [movedItem] = newData.splice(fromKey as number, 1)
+      newData.splice(toKey as number, 0, movedItem)
+      onChange(newData)
+      return
+    }
+
+    const keys = Object.keys(data)
+    const fromPos = keys.indexOf(fromKey as string)
+    const toPos = keys.indexOf(toKey as string)
+    if (fromPos === -1 || toPos === -1) return
+
+    // 创建新的有序对象
+    const newData: any = {}
+    const reorderedKeys = [...keys]
+    reorderedKeys.splice(fromPos, 1)
+    reorderedKeys.splice(toPos, 0, fromKey as string)
+
+    reorderedKeys.forEach(key => {
+      newData[key] = data[key]
+    })
+
+    onChange(newData)
+  }, [data, onChange])
+
   // 拖拽排序 - 数组
   const handleArrayDragStart = useCallback((e: React.DragEvent, index: number) => {
     e.stopPropagation()
@@ -826,15 +1355,11 @@ const YAMLForm = forwardRef<YAMLFormHandle, YAMLFormProps>(({ data, onChange, pa
       return
     }
 
-    const newData = [...data]
-    const draggedItem = newData[draggedIndex as number]
-    newData.splice(draggedIndex as number, 1)
-    newData.splice(dropIndex, 0, draggedItem)
-    onChange(newData)
+    reorderItem(draggedIndex, dropIndex)
     
     setDraggedIndex(null)
     setDragOverIndex(null)
-  }, [data, draggedIndex, onChange])
+  }, [draggedIndex, reorderItem])
 
   // 拖拽排序 - 对象
   const handleObjectDragStart = useCallback((e: React.DragEvent, key: string) => {
@@ -865,57 +1390,14 @@ const YAMLForm = forwardRef<YAMLFormHandle, YAMLFormProps>(({ data, onChange, pa
       return
     }
 
-    const keys = Object.keys(data)
-    const draggedKey = draggedIndex as string
-    const draggedIndexPos = keys.indexOf(draggedKey)
-    const dropIndexPos = keys.indexOf(dropKey)
-
-    if (draggedIndexPos === -1 || dropIndexPos === -1) {
-      setDraggedIndex(null)
-      setDragOverIndex(null)
-      return
-    }
-
-    // 创建新的有序对象
-    const newData: any = {}
-    const reorderedKeys = [...keys]
-    reorderedKeys.splice(draggedIndexPos, 1)
-    reorderedKeys.splice(dropIndexPos, 0, draggedKey)
-
-    reorderedKeys.forEach(key => {
-      newData[key] = data[key]
-    })
-
-    onChange(newData)
+    reorderItem(draggedIndex, dropKey)
     
     setDraggedIndex(null)
     setDragOverIndex(null)
-  }, [data, draggedIndex, onChange])
+  }, [draggedIndex, reorderItem])
 
-  // 生成路径文本（格式：/a/b/c/d:3）
+  // 生成路径文本（格式：/a/b/c/d:3，路径即 JSON Pointer）
   const getPathText = useCallback((currentPath: string, value: any): string => {
-    // 将路径转换为 /a/b/c/d 格式
-    // 处理格式如: "a.b.c.d", "[0]", "a[0]", "a.b[0]" 等
-    const pathParts: string[] = []
-    let currentPart = ''
-    
-    for (let i = 0; i < currentPath.length; i++) {
-      const char = currentPath[i]
-      if (char === '.' || char === '[' || char === ']') {
-        if (currentPart) {
-          pathParts.push(currentPart)
-          currentPart = ''
-        }
-      } else {
-        currentPart += char
-      }
-    }
-    if (currentPart) {
-      pathParts.push(currentPart)
-    }
-    
-    const pathStr = pathParts.length > 0 ? '/' + pathParts.join('/') : ''
-    
     // 获取值的字符串表示
     let valueStr = ''
     if (value === null || value === undefined) {
@@ -930,7 +1412,7 @@ const YAMLForm = forwardRef<YAMLFormHandle, YAMLFormProps>(({ data, onChange, pa
       valueStr = `{${Object.keys(value).length} keys}`
     }
     
-    return `${pathStr}:${valueStr}`
+    return `${currentPath}:${valueStr}`
   }, [])
 
   // 显示提示消息的状态（只在顶层使用）
@@ -984,6 +1466,410 @@ const YAMLForm = forwardRef<YAMLFormHandle, YAMLFormProps>(({ data, onChange, pa
     }
   }, [getPathText, showToast])
 
+  // 等待选择键冲突处理方式的粘贴
+  const [pendingPaste, setPendingPaste] = useState<{
+    key: string
+    mode: PasteMode
+    entries: Array<[string, any]>
+    collisions: string[]
+  } | null>(null)
+  // 按下 Ctrl+Shift+V 时粘贴为子项（paste 事件本身不带修饰键信息）
+  const pasteAsChildRef = useRef(false)
+
+  const getItemValue = useCallback((key: string) => {
+    return Array.isArray(data) ? data[parseInt(key)] : data[key]
+  }, [data])
+
+  const getItemCopyPayload = useCallback((key: string) => {
+    return getCopyPayload(getItemValue(key), Array.isArray(data) ? null : key)
+  }, [data, getItemValue])
+
+  // 复制节点（YAML 和 JSON 两种格式），剪切时复制成功后删除
+  const copyItem = useCallback(async (key: string, isCut: boolean = false) => {
+    try {
+      await writeSubtreeToClipboard(getItemCopyPayload(key))
+    } catch {
+      showToast('复制失败')
+      return
+    }
+    if (isCut) {
+      deleteItem(key)
+    }
+    showToast(isCut ? '已剪切' : '已复制')
+  }, [getItemCopyPayload, deleteItem, showToast])
+
+  // 粘贴到对象中：有冲突的键时先询问处理方式
+  const pasteIntoObject = useCallback((
+    target: Record<string, any>,
+    value: any,
+    key: string,
+    mode: PasteMode,
+    apply: (result: Record<string, any>) => void
+  ) => {
+    const entries = getPasteEntries(value)
+    const collisions = findPasteCollisions(target, entries)
+    if (collisions.length > 0) {
+      setPendingPaste({ key, mode, entries, collisions })
+      return
+    }
+    apply(insertIntoObject(target, entries, mode === 'sibling' ? key : null, 'overwrite'))
+  }, [])
+
+  // 粘贴为同级时插入到节点之后，粘贴为子项时追加到节点（对象或数组）末尾并展开节点
+  const pasteItem = useCallback((key: string, mode: PasteMode, value: any) => {
+    if (mode === 'child') {
+      const target = getItemValue(key)
+      if (typeof target !== 'object' || target === null) {
+        showToast('只能粘贴到对象或数组中')
+        return
+      }
+      const itemPath = appendPath(path, Array.isArray(data) ? parseInt(key) : key)
+      setExpanded(prev => new Set(prev).add(itemPath))
+      if (Array.isArray(target)) {
+        updateValue(key, insertIntoArray(target, value, null))
+      } else {
+        pasteIntoObject(target, value, key, mode, result => updateValue(key, result))
+      }
+      return
+    }
+    if (Array.isArray(data)) {
+      onChange(insertIntoArray(data, value, parseInt(key)))
+    } else {
+      pasteIntoObject(data, value, key, mode, onChange)
+    }
+  }, [data, path, getItemValue, updateValue, onChange, pasteIntoObject, setExpanded, showToast])
+
+  // 按选择的方式处理键冲突后完成粘贴
+  const resolvePendingPaste = useCallback((collision: PasteCollision) => {
+    if (!pendingPaste) return
+    const { key, mode, entries } = pendingPaste
+    setPendingPaste(null)
+    if (mode === 'child') {
+      updateValue(key, insertIntoObject(getItemValue(key), entries, null, collision))
+    } else {
+      onChange(insertIntoObject(data, entries, key, collision))
+    }
+  }, [pendingPaste, data, getItemValue, updateValue, onChange])
+
+  // 从菜单粘贴：读取系统剪贴板中的文本（YAML、JSON 或纯文本）
+  const pasteFromClipboard = useCallback(async (key: string, mode: PasteMode) => {
+    try {
+      const text = await navigator.clipboard.readText()
+      pasteItem(key, mode, parseClipboardContent(text))
+    } catch {
+      showToast('无法读取剪贴板，请选中节点后按 Ctrl+V 粘贴')
+    }
+  }, [pasteItem, showToast])
+
+  // 节点行获得焦点时的剪贴板快捷键（焦点在输入框内时保持默认的文本复制粘贴）
+  const handleNodeCopy = useCallback((e: React.ClipboardEvent, key: string, isCut: boolean) => {
+    if (e.target !== e.currentTarget) return
+    e.preventDefault()
+    setClipboardData(e.clipboardData, getItemCopyPayload(key))
+    if (isCut) {
+      deleteItem(key)
+    }
+    showToast(isCut ? '已剪切' : '已复制')
+  }, [getItemCopyPayload, deleteItem, showToast])
+
+  const handleNodePaste = useCallback((e: React.ClipboardEvent, key: string) => {
+    if (e.target !== e.currentTarget) return
+    e.preventDefault()
+    pasteItem(key, pasteAsChildRef.current ? 'child' : 'sibling', readClipboardData(e.clipboardData))
+    pasteAsChildRef.current = false
+  }, [pasteItem])
+
+  // 键盘移动子项：与前一项或后一项交换位置，焦点跟随移动后的节点行
+  const moveItemBy = useCallback((key: string, offset: number) => {
+    const keys: (number | string)[] = Array.isArray(data) ? data.map((_, index) => index) : Object.keys(data)
+    const from = keys.indexOf(Array.isArray(data) ? parseInt(key) : key)
+    const to = from + offset
+    if (from === -1 || to < 0 || to >= keys.length) return
+    reorderItem(keys[from], keys[to])
+    focusRow(appendPath(path, Array.isArray(data) ? to : key))
+  }, [data, path, reorderItem, focusRow])
+
+  // 开始编辑键名（数组项没有键名）
+  const editKey = useCallback((key: string) => {
+    const input = keyInputRefs.current.get(key)
+    if (input) {
+      input.focus()
+      input.select()
+    }
+  }, [])
+
+  // 节点行上的键盘操作：↑/↓/Home/End 切换行，→/← 展开折叠或进入子项、回到父级，
+  // Enter 编辑值（对象和数组编辑键名），F2 编辑键名，Delete 删除，Alt+↑/↓ 调整顺序，T 打开类型菜单，Insert 打开添加菜单
+  const handleNodeKeyDown = useCallback((e: React.KeyboardEvent<HTMLElement>, key: string) => {
+    const header = e.currentTarget
+    const target = e.target as HTMLElement
+    if (target !== header) {
+      // 在键名、值输入框中按 Esc（单行输入框中按 Enter）结束编辑，焦点回到节点行
+      if (target.matches('input, textarea') && (e.key === 'Escape' || (e.key === 'Enter' && target.tagName === 'INPUT'))) {
+        e.preventDefault()
+        header.focus()
+      }
+      return
+    }
+    if (e.key.toLowerCase() === 'v') {
+      pasteAsChildRef.current = e.shiftKey
+      return
+    }
+    if (e.key === 'Escape' && selectedPaths.size > 0) {
+      selectPath('', 'clear')
+      return
+    }
+    if (e.ctrlKey || e.metaKey) return
+
+    const isArray = Array.isArray(data)
+    const value = isArray ? data[parseInt(key)] : data[key]
+    const itemPath = appendPath(path, key)
+    const isContainer = typeof value === 'object' && value !== null
+    const isExpanded = expanded.has(itemPath)
+    const row = header.parentElement
+    const rows = getTreeRows(header)
+    const index = rows.indexOf(header)
+    const focusHeader = (element: HTMLElement | null | undefined) => {
+      if (!element) return
+      e.preventDefault()
+      element.focus()
+    }
+
+    switch (e.key) {
+      case 'ArrowDown':
+      case 'ArrowUp': {
+        const offset = e.key === 'ArrowDown' ? 1 : -1
+        if (e.altKey) {
+          e.preventDefault()
+          moveItemBy(key, offset)
+        } else {
+          focusHeader(rows[index + offset])
+        }
+        break
+      }
+      case 'Home':
+        focusHeader(rows[0])
+        break
+      case 'End':
+        focusHeader(rows[rows.length - 1])
+        break
+      case 'ArrowRight':
+        if (!isContainer) break
+        if (isExpanded) {
+          focusHeader(row?.querySelector<HTMLElement>(`:scope > .nested-content :is(${ROW_HEADER_SELECTOR})`))
+        } else {
+          e.preventDefault()
+          toggleExpand(key)
+        }
+        break
+      case 'ArrowLeft':
+        if (isContainer && isExpanded) {
+          e.preventDefault()
+          toggleExpand(key)
+        } else {
+          focusHeader(getRowHeader(row?.parentElement?.closest('[data-path]') ?? null))
+        }
+        break
+      case 'Enter': {
+        e.preventDefault()
+        const valueField = header.querySelector<HTMLElement>('.yaml-form-item .toggle-option.active, .yaml-form-item input:not([readonly]), .yaml-form-item textarea')
+        if (valueField) {
+          valueField.focus()
+          if (valueField instanceof HTMLInputElement && valueField.type === 'text') valueField.select()
+        } else if (!isArray) {
+          editKey(key)
+        } else if (isContainer) {
+          toggleExpand(key)
+        }
+        break
+      }
+      case 'F2':
+        if (!isArray) {
+          e.preventDefault()
+          editKey(key)
+        }
+        break
+      case 'Delete': {
+        e.preventDefault()
+        // 删除后焦点移到原位置上的下一行（没有下一行时移到上一行）
+        const root = header.closest('.yaml-form-root')
+        deleteItem(key)
+        setTimeout(() => {
+          const remaining = root ? Array.from(root.querySelectorAll<HTMLElement>(ROW_HEADER_SELECTOR)) : []
+          remaining[Math.min(index, remaining.length - 1)]?.focus()
+        }, 0)
+        break
+      }
+      case 't':
+      case 'T':
+        e.preventDefault()
+        setShowTypeMenu(prev => new Set(prev).add(key))
+        setTimeout(() => typeMenuRefs.current.get(key)?.querySelector<HTMLElement>('.type-menu-item.active')?.focus(), 0)
+        break
+      case 'Insert': {
+        e.preventDefault()
+        addMenuOpenerRef.current = itemPath
+        const menuRef = isArray ? addMenuArrayRef : addMenuObjectRef
+        if (isArray) {
+          setShowAddMenuArray(true)
+        } else {
+          setShowAddMenuObject(true)
+        }
+        setTimeout(() => menuRef.current?.querySelector<HTMLElement>('.add-menu-item')?.focus(), 0)
+        break
+      }
+    }
+  }, [data, path, expanded, selectedPaths, selectPath, moveItemBy, toggleExpand, editKey, deleteItem])
+
+  // 添加菜单（数组和对象共用）：通过键盘选择时焦点移到新增的节点行，按 Esc 关闭时回到打开菜单的节点行。
+  // 关联了 schema 时，对象列出 schema 中定义但尚未填写的字段（不允许其他键时不再提供通用类型），数组只列出 items 允许的类型
+  const renderAddMenu = (onClose: () => void, containerRef: React.RefObject<HTMLDivElement>) => {
+    const handleAdded = (e: React.MouseEvent, newKey: string) => {
+      addMenuOpenerRef.current = null
+      if (e.detail === 0) focusRow(appendPath(path, newKey))
+    }
+    const isArray = Array.isArray(data)
+    const itemSchema = isArray ? getItemSchema(data.length) : null
+    const itemTypes = getSchemaTypes(itemSchema)
+    const types = itemTypes.some(type => VALUE_TYPES.includes(type as ValueType))
+      ? VALUE_TYPES.filter(type => itemTypes.includes(type))
+      : VALUE_TYPES
+    const missingProperties = isArray ? [] : getSchemaProperties(levelSchema, schemaRoot).filter(property => !(property.name in data))
+    const showTypes = isArray || allowsAdditionalProperties(levelSchema)
+
+    return (
+      <div
+        className="add-menu"
+        onKeyDown={(e) => handleMenuKeyDown(e, () => {
+          onClose()
+          if (addMenuOpenerRef.current !== null) {
+            focusRow(addMenuOpenerRef.current)
+          } else {
+            containerRef.current?.querySelector<HTMLElement>('.add-btn-icon')?.focus()
+          }
+          addMenuOpenerRef.current = null
+        })}
+      >
+        {missingProperties.map(property => (
+          <button
+            key={`property-${property.name}`}
+            onClick={(e) => handleAdded(e, addItem('string', property.name, getSchemaInitialValue(property.schema)))}
+            className="add-menu-item add-menu-property"
+            title={typeof property.schema.description === 'string' ? property.schema.description : undefined}
+          >
+            {property.name}
+            {property.required && <span className="required-marker">*</span>}
+          </button>
+        ))}
+        {missingProperties.length > 0 && showTypes && <div className="add-menu-divider">自定义键</div>}
+        {showTypes && types.map(type => (
+          <button
+            key={type}
+            onClick={(e) => {
+              const initialValue = itemSchema && getSchemaTypes(itemSchema)[0] === type ? getSchemaInitialValue(itemSchema) : undefined
+              handleAdded(e, addItem(type, undefined, initialValue))
+            }}
+            className="add-menu-item"
+          >
+            {VALUE_TYPE_LABELS[type]}
+          </button>
+        ))}
+        {!showTypes && missingProperties.length === 0 && (
+          <div className="add-menu-empty">schema 中的字段都已添加</div>
+        )}
+      </div>
+    )
+  }
+
+  // 节点行上的剪贴板事件、键盘导航和焦点（tabIndex 使节点行可以获得焦点）
+  const nodeClipboardProps = (key: string) => ({
+    tabIndex: 0,
+    onKeyDown: (e: React.KeyboardEvent<HTMLElement>) => handleNodeKeyDown(e, key),
+    onCopy: (e: React.ClipboardEvent) => handleNodeCopy(e, key, false),
+    onCut: (e: React.ClipboardEvent) => handleNodeCopy(e, key, true),
+    onPaste: (e: React.ClipboardEvent) => handleNodePaste(e, key),
+  })
+
+  const pasteConflictDialog = pendingPaste && (
+    <PasteConflictDialog
+      keys={pendingPaste.collisions}
+      onResolve={resolvePendingPaste}
+      onCancel={() => setPendingPaste(null)}
+    />
+  )
+
+  // 批量操作（只在顶层执行，作用于整个文档），每次操作作为一次修改提交
+  const commitBulkChange = useCallback((newData: any) => {
+    (onBulkChange ?? onChange)(newData)
+  }, [onBulkChange, onChange])
+
+  const handleBulkDelete = useCallback(() => {
+    commitBulkChange(bulkDelete(data, selectedPaths))
+    showToast(`已删除 ${selectedPaths.size} 项`)
+    selectPath('', 'clear')
+  }, [data, selectedPaths, commitBulkChange, selectPath, showToast])
+
+  const handleBulkChangeType = useCallback((type: ValueType) => {
+    commitBulkChange(bulkUpdate(data, selectedPaths, value => convertValueType(value, type)))
+  }, [data, selectedPaths, commitBulkChange, convertValueType])
+
+  const handleBulkMove = useCallback((targetPath: string) => {
+    commitBulkChange(bulkMove(data, selectedPaths, targetPath))
+    if (targetPath) {
+      setExpanded(prev => new Set([...prev, ...getAncestorPaths(targetPath), targetPath]))
+    }
+    selectPath('', 'clear')
+  }, [data, selectedPaths, commitBulkChange, selectPath, setExpanded])
+
+  const handleBulkRename = useCallback((pattern: RegExp, replacement: string) => {
+    const result = bulkRename(data, selectedPaths, pattern, replacement)
+    if (result.renamed > 0) {
+      commitBulkChange(result.data)
+      selectPath('', 'clear')
+    }
+    showToast(result.skipped.length > 0
+      ? `已重命名 ${result.renamed} 个键，${result.skipped.length} 个键因与同级键重名而跳过`
+      : `已重命名 ${result.renamed} 个键`)
+  }, [data, selectedPaths, commitBulkChange, selectPath, showToast])
+
+  const bulkActionBar = !path && selectedPaths.size > 0 && (
+    <BulkActionBar
+      count={selectedPaths.size}
+      moveTargets={getMoveTargets(data, selectedPaths)}
+      onDelete={handleBulkDelete}
+      onChangeType={handleBulkChangeType}
+      onMove={handleBulkMove}
+      onRename={handleBulkRename}
+      onClear={() => selectPath('', 'clear')}
+    />
+  )
+
+  // schema 定义了枚举时显示为下拉框；当前值不在枚举中时保留为一个额外的选项
+  const enumValues: any[] | null = Array.isArray(levelSchema?.enum) && (data === null || typeof data !== 'object')
+    ? levelSchema!.enum
+    : null
+  if (enumValues) {
+    const currentIndex = enumValues.findIndex(option => deepEqual(option, data))
+    const isMatch = searchQuery && String(data).toLowerCase().includes(searchQuery.toLowerCase())
+    return (
+      <div className={`yaml-form-item ${isMatch ? 'search-match' : ''}`}>
+        <select
+          className={`form-input form-select schema-enum-select ${currentIndex === -1 ? 'invalid' : ''} ${isMatch && searchQuery ? 'search-match-input' : ''}`}
+          value={currentIndex}
+          onChange={e => {
+            const index = Number(e.target.value)
+            if (index >= 0) onChange(structuredClone(enumValues[index]))
+          }}
+        >
+          {currentIndex === -1 && <option value={-1}>{formatDiffValue(data)}（不在枚举中）</option>}
+          {enumValues.map((option, index) => (
+            <option key={index} value={index}>{formatDiffValue(option)}</option>
+          ))}
+        </select>
+      </div>
+    )
+  }
+
   if (data === null || data === undefined) {
     return (
       <div className="yaml-form-item">
@@ -1060,31 +1946,33 @@ const YAMLForm = forwardRef<YAMLFormHandle, YAMLFormProps>(({ data, onChange, pa
 
   if (Array.isArray(data)) {
     // 过滤数组项
-    const filteredItems = searchQuery
+    const filteredItems = isFiltering
       ? data.map((item, index) => {
-          const itemPath = path ? `${path}[${index}]` : `[${index}]`
+          const itemPath = appendPath(path, index)
           return { item, index, itemPath, matches: matchesSearch(String(index), item, itemPath) || hasMatchingChild(item, itemPath) }
         }).filter(({ matches }) => matches)
       : data.map((item, index) => {
-          const itemPath = path ? `${path}[${index}]` : `[${index}]`
+          const itemPath = appendPath(path, index)
           return { item, index, itemPath, matches: true }
         })
 
     return (
-      <div className="yaml-form-array">
-        {filteredItems.length === 0 && searchQuery ? (
+      <div className={`yaml-form-array ${path ? '' : 'yaml-form-root'}`} ref={rootRef} onFocus={handleFocus}>
+        {bulkActionBar}
+        {filteredItems.length === 0 && isFiltering ? (
           <div className="search-no-results">
             未找到匹配项
           </div>
         ) : (
           filteredItems.map(({ item, index, itemPath }) => {
-          const fullKey = path ? `${path}[${index}]` : String(index)
+          const fullKey = appendPath(path, index)
           const isExpanded = expanded.has(fullKey)
           const isObject = typeof item === 'object' && item !== null && !Array.isArray(item)
           const isNestedArray = Array.isArray(item)
           const isMatch = matchesSearch(String(index), item, itemPath)
 
           const isHighlighted = highlightedPath === itemPath
+          const itemSchema = getItemSchema(index)
           
           return (
             <div 
@@ -1097,14 +1985,18 @@ const YAMLForm = forwardRef<YAMLFormHandle, YAMLFormProps>(({ data, onChange, pa
                 }
               }}
               data-path={itemPath}
-              className={`yaml-form-array-item ${draggedIndex === index ? 'dragging' : ''} ${dragOverIndex === index ? 'drag-over' : ''} ${isMatch ? 'search-match' : ''} ${isHighlighted ? 'path-highlighted' : ''}`}
+              className={`yaml-form-array-item ${draggedIndex === index ? 'dragging' : ''} ${dragOverIndex === index ? 'drag-over' : ''} ${isMatch ? 'search-match' : ''} ${isHighlighted ? 'path-highlighted' : ''} ${selectedPaths.has(itemPath) ? 'selected' : ''} ${problemsMap?.has(itemPath) ? 'has-problem' : ''} ${diffClassName(itemPath)} ${anchorLookup?.mergeKeys.get(itemPath) === 'overridden' ? 'merge-key-overridden' : ''} ${mergeConflicts?.byPath.has(itemPath) && !mergeConflicts.resolutions.has(itemPath) ? 'has-conflict' : ''}`}
               draggable
               onDragStart={(e) => handleArrayDragStart(e, index)}
               onDragOver={(e) => handleArrayDragOver(e, index)}
               onDragEnd={handleArrayDragEnd}
               onDrop={(e) => handleArrayDrop(e, index)}
             >
-              <div className="array-item-header">
+              <div
+                className="array-item-header"
+                {...nodeClipboardProps(String(index))}
+                onClick={(e) => handleRowClick(e, itemPath)}
+              >
                 <div 
                   className="drag-handle"
                   title="拖拽排序"
@@ -1117,7 +2009,7 @@ const YAMLForm = forwardRef<YAMLFormHandle, YAMLFormProps>(({ data, onChange, pa
                   className="expand-btn"
                   onClick={() => {
                     // 对于数组项，需要使用完整路径格式 path[index]
-                    const arrayKey = path ? `${path}[${index}]` : String(index)
+                    const arrayKey = appendPath(path, index)
                     setExpanded((prev: Set<string>) => {
                       const next = new Set(prev)
                       if (next.has(arrayKey)) {
@@ -1133,12 +2025,22 @@ const YAMLForm = forwardRef<YAMLFormHandle, YAMLFormProps>(({ data, onChange, pa
                   {isExpanded ? <ChevronDownIcon size={12} /> : <ChevronRightIcon size={12} />}
                 </button>
                 <span className="array-index">{highlightText(`[${index}]`, searchQuery)}</span>
-                <TypeSelector itemKey={String(index)} currentValue={item} />
+                <TypeSelector itemKey={String(index)} currentValue={item} allowedTypes={getSchemaTypes(itemSchema)} />
                 {commentsMap.has(itemPath) && (
                   <span className="inline-comment" title={commentsMap.get(itemPath)}>
                     {commentsMap.get(itemPath)}
                   </span>
                 )}
+                <FieldDescription schema={itemSchema} />
+                <FieldProblems problems={problemsMap?.get(itemPath)} />
+                <FieldTag path={itemPath} info={tagLookup?.get(itemPath)} onChange={onTagChange} />
+                <FieldAnchor path={itemPath} lookup={anchorLookup} onNavigate={onNavigateToPath} />
+                <FieldDiff entry={diffLookup?.byPath.get(itemPath)} />
+                <FieldConflict
+                  conflict={mergeConflicts?.byPath.get(itemPath)}
+                  resolution={mergeConflicts?.resolutions.get(itemPath)}
+                  onResolve={onResolveConflict}
+                />
                 {isObject || isNestedArray ? (
                   <span className="type-badge">{isNestedArray ? '数组' : '对象'}</span>
                 ) : (
@@ -1149,9 +2051,22 @@ const YAMLForm = forwardRef<YAMLFormHandle, YAMLFormProps>(({ data, onChange, pa
                     expanded={expanded}
                     onExpandedChange={setExpanded}
                     searchQuery={searchQuery}
+                    queryMatches={isMatch ? null : queryMatches}
                     onMatchCountChange={onMatchCountChange}
                     commentsMap={commentsMap}
                     onLocatePath={onLocatePath}
+                    problemsMap={problemsMap}
+                    schema={itemSchema ?? undefined}
+                    rootSchema={itemSchema ? schemaRoot : undefined}
+                    diffLookup={diffLookup}
+                    mergeConflicts={mergeConflicts}
+                    onResolveConflict={onResolveConflict}
+                    anchorLookup={anchorLookup}
+                    onNavigateToPath={onNavigateToPath}
+                    tagLookup={tagLookup}
+                    onTagChange={onTagChange}
+                    selectedPaths={selectedPaths}
+                    onSelectPath={selectPath}
                   />
                 )}
                 {onLocatePath && (
@@ -1176,6 +2091,13 @@ const YAMLForm = forwardRef<YAMLFormHandle, YAMLFormProps>(({ data, onChange, pa
                 >
                   <CopyIcon size={14} />
                 </button>
+                <NodeClipboardMenu
+                  canPasteAsChild={isObject || isNestedArray}
+                  onCopy={() => copyItem(String(index))}
+                  onCut={() => copyItem(String(index), true)}
+                  onPaste={(mode) => pasteFromClipboard(String(index), mode)}
+                />
+                <ResetToDefaultButton schema={itemSchema} value={item} onReset={value => updateValue(String(index), value)} />
                 <button
                   className="delete-btn"
                   onClick={() => deleteItem(String(index))}
@@ -1193,9 +2115,22 @@ const YAMLForm = forwardRef<YAMLFormHandle, YAMLFormProps>(({ data, onChange, pa
                     expanded={expanded}
                     onExpandedChange={setExpanded}
                     searchQuery={searchQuery}
+                    queryMatches={isMatch ? null : queryMatches}
                     onMatchCountChange={onMatchCountChange}
                     commentsMap={commentsMap}
                     onLocatePath={onLocatePath}
+                    problemsMap={problemsMap}
+                    schema={itemSchema ?? undefined}
+                    rootSchema={itemSchema ? schemaRoot : undefined}
+                    diffLookup={diffLookup}
+                    mergeConflicts={mergeConflicts}
+                    onResolveConflict={onResolveConflict}
+                    anchorLookup={anchorLookup}
+                    onNavigateToPath={onNavigateToPath}
+                    tagLookup={tagLookup}
+                    onTagChange={onTagChange}
+                    selectedPaths={selectedPaths}
+                    onSelectPath={selectPath}
                   />
                 </div>
               )}
@@ -1203,7 +2138,8 @@ const YAMLForm = forwardRef<YAMLFormHandle, YAMLFormProps>(({ data, onChange, pa
           )
         })
       )}
-        {(!searchQuery || filteredItems.length > 0) && (
+        {!isFiltering && <RemovedDiffItems entries={diffLookup?.removedByParent.get(path)} />}
+        {(!isFiltering || filteredItems.length > 0) && (
           <div className="add-item-container" ref={addMenuArrayRef}>
           <button 
             className="add-btn-icon" 
@@ -1212,27 +2148,10 @@ const YAMLForm = forwardRef<YAMLFormHandle, YAMLFormProps>(({ data, onChange, pa
           >
             <PlusIcon size={14} />
           </button>
-          {showAddMenuArray && (
-            <div className="add-menu">
-              <button onClick={() => addItem('string')} className="add-menu-item">
-                字符串
-              </button>
-              <button onClick={() => addItem('number')} className="add-menu-item">
-                数字
-              </button>
-              <button onClick={() => addItem('boolean')} className="add-menu-item">
-                布尔值
-              </button>
-              <button onClick={() => addItem('object')} className="add-menu-item">
-                对象
-              </button>
-              <button onClick={() => addItem('array')} className="add-menu-item">
-                数组
-              </button>
-            </div>
-          )}
+          {showAddMenuArray && renderAddMenu(() => setShowAddMenuArray(false), addMenuArrayRef)}
           </div>
         )}
+        {pasteConflictDialog}
       </div>
     )
   }
@@ -1242,31 +2161,33 @@ const YAMLForm = forwardRef<YAMLFormHandle, YAMLFormProps>(({ data, onChange, pa
   const isEmpty = keys.length === 0 && !path
   
   // 过滤对象键
-  const filteredKeys = searchQuery
+  const filteredKeys = isFiltering
     ? keys.filter(key => {
         const value = data[key]
-        const itemPath = path ? `${path}.${key}` : key
+        const itemPath = appendPath(path, key)
         return matchesSearch(key, value, itemPath) || hasMatchingChild(value, itemPath)
       })
     : keys
 
   return (
-    <div className={`yaml-form-object ${isEmpty ? 'empty-object' : ''}`}>
-        {filteredKeys.length === 0 && searchQuery ? (
+    <div className={`yaml-form-object ${isEmpty ? 'empty-object' : ''} ${path ? '' : 'yaml-form-root'}`} ref={rootRef} onFocus={handleFocus}>
+      {bulkActionBar}
+        {filteredKeys.length === 0 && isFiltering ? (
           <div className="search-no-results">
             未找到匹配项
           </div>
         ) : (
         filteredKeys.map(key => {
         const value = data[key]
-        const itemPath = path ? `${path}.${key}` : key
-        const fullKey = path ? `${path}.${key}` : key
+        const itemPath = appendPath(path, key)
+        const fullKey = appendPath(path, key)
         const isExpanded = expanded.has(fullKey)
         const isObject = typeof value === 'object' && value !== null && !Array.isArray(value)
         const isNestedArray = Array.isArray(value)
         const isMatch = matchesSearch(key, value, itemPath)
 
         const isHighlighted = highlightedPath === itemPath
+        const itemSchema = getItemSchema(key)
         
         return (
           <div 
@@ -1279,14 +2200,18 @@ const YAMLForm = forwardRef<YAMLFormHandle, YAMLFormProps>(({ data, onChange, pa
               }
             }}
             data-path={itemPath}
-            className={`yaml-form-object-item ${draggedIndex === key ? 'dragging' : ''} ${dragOverIndex === key ? 'drag-over' : ''} ${isMatch ? 'search-match' : ''} ${isHighlighted ? 'path-highlighted' : ''}`}
+            className={`yaml-form-object-item ${draggedIndex === key ? 'dragging' : ''} ${dragOverIndex === key ? 'drag-over' : ''} ${isMatch ? 'search-match' : ''} ${isHighlighted ? 'path-highlighted' : ''} ${selectedPaths.has(itemPath) ? 'selected' : ''} ${problemsMap?.has(itemPath) ? 'has-problem' : ''} ${diffClassName(itemPath)} ${anchorLookup?.mergeKeys.get(itemPath) === 'overridden' ? 'merge-key-overridden' : ''} ${mergeConflicts?.byPath.has(itemPath) && !mergeConflicts.resolutions.has(itemPath) ? 'has-conflict' : ''}`}
             draggable
             onDragStart={(e) => handleObjectDragStart(e, key)}
             onDragOver={(e) => handleObjectDragOver(e, key)}
             onDragEnd={handleObjectDragEnd}
             onDrop={(e) => handleObjectDrop(e, key)}
           >
-            <div className="object-item-header">
+            <div
+              className="object-item-header"
+              {...nodeClipboardProps(key)}
+              onClick={(e) => handleRowClick(e, itemPath)}
+            >
               <div 
                 className="drag-handle"
                 title="拖拽排序"
@@ -1349,12 +2274,23 @@ const YAMLForm = forwardRef<YAMLFormHandle, YAMLFormProps>(({ data, onChange, pa
                 }}
                 className={`key-input ${isMatch && searchQuery ? 'search-match-input' : ''}`}
               />
-              <TypeSelector itemKey={key} currentValue={value} />
+              {requiredKeys.has(key) && <span className="required-marker" title="必填字段">*</span>}
+              <TypeSelector itemKey={key} currentValue={value} allowedTypes={getSchemaTypes(itemSchema)} />
               {commentsMap.has(itemPath) && (
                 <span className="inline-comment" title={commentsMap.get(itemPath)}>
                   {commentsMap.get(itemPath)}
                 </span>
               )}
+              <FieldDescription schema={itemSchema} />
+              <FieldProblems problems={problemsMap?.get(itemPath)} />
+              <FieldTag path={itemPath} info={tagLookup?.get(itemPath)} onChange={onTagChange} />
+              <FieldAnchor path={itemPath} lookup={anchorLookup} onNavigate={onNavigateToPath} />
+              <FieldDiff entry={diffLookup?.byPath.get(itemPath)} />
+              <FieldConflict
+                conflict={mergeConflicts?.byPath.get(itemPath)}
+                resolution={mergeConflicts?.resolutions.get(itemPath)}
+                onResolve={onResolveConflict}
+              />
               {!(isObject || isNestedArray) && (
                 <YAMLForm
                   data={value}
@@ -1363,9 +2299,22 @@ const YAMLForm = forwardRef<YAMLFormHandle, YAMLFormProps>(({ data, onChange, pa
                   expanded={expanded}
                   onExpandedChange={setExpanded}
                   searchQuery={searchQuery}
+                  queryMatches={isMatch ? null : queryMatches}
                   onMatchCountChange={onMatchCountChange}
                   commentsMap={commentsMap}
                   onLocatePath={onLocatePath}
+                  problemsMap={problemsMap}
+                  schema={itemSchema ?? undefined}
+                  rootSchema={itemSchema ? schemaRoot : undefined}
+                  diffLookup={diffLookup}
+                  mergeConflicts={mergeConflicts}
+                  onResolveConflict={onResolveConflict}
+                  anchorLookup={anchorLookup}
+                  onNavigateToPath={onNavigateToPath}
+                  tagLookup={tagLookup}
+                  onTagChange={onTagChange}
+                  selectedPaths={selectedPaths}
+                  onSelectPath={selectPath}
                 />
               )}
               {onLocatePath && (
@@ -1390,6 +2339,13 @@ const YAMLForm = forwardRef<YAMLFormHandle, YAMLFormProps>(({ data, onChange, pa
               >
                 <CopyIcon size={14} />
               </button>
+              <NodeClipboardMenu
+                canPasteAsChild={isObject || isNestedArray}
+                onCopy={() => copyItem(key)}
+                onCut={() => copyItem(key, true)}
+                onPaste={(mode) => pasteFromClipboard(key, mode)}
+              />
+              <ResetToDefaultButton schema={itemSchema} value={value} onReset={newValue => updateValue(key, newValue)} />
               <button
                 className="delete-btn"
                 onClick={() => deleteItem(key)}
@@ -1407,9 +2363,22 @@ const YAMLForm = forwardRef<YAMLFormHandle, YAMLFormProps>(({ data, onChange, pa
                   expanded={expanded}
                   onExpandedChange={setExpanded}
                     searchQuery={searchQuery}
+                    queryMatches={isMatch ? null : queryMatches}
                     onMatchCountChange={onMatchCountChange}
                     commentsMap={commentsMap}
                     onLocatePath={onLocatePath}
+                    problemsMap={problemsMap}
+                    schema={itemSchema ?? undefined}
+                    rootSchema={itemSchema ? schemaRoot : undefined}
+                    diffLookup={diffLookup}
+                    mergeConflicts={mergeConflicts}
+                    onResolveConflict={onResolveConflict}
+                    anchorLookup={anchorLookup}
+                    onNavigateToPath={onNavigateToPath}
+                    tagLookup={tagLookup}
+                    onTagChange={onTagChange}
+                    selectedPaths={selectedPaths}
+                    onSelectPath={selectPath}
                   />
                 </div>
             )}
@@ -1417,7 +2386,8 @@ const YAMLForm = forwardRef<YAMLFormHandle, YAMLFormProps>(({ data, onChange, pa
         )
       })
       )}
-      {(!searchQuery || filteredKeys.length > 0) && (
+      {!isFiltering && <RemovedDiffItems entries={diffLookup?.removedByParent.get(path)} />}
+      {(!isFiltering || filteredKeys.length > 0) && (
         <div className="add-item-container" ref={addMenuObjectRef}>
         <button 
           className="add-btn-icon" 
@@ -1426,27 +2396,10 @@ const YAMLForm = forwardRef<YAMLFormHandle, YAMLFormProps>(({ data, onChange, pa
         >
           <PlusIcon size={14} />
         </button>
-        {showAddMenuObject && (
-          <div className="add-menu">
-            <button onClick={() => addItem('string')} className="add-menu-item">
-              字符串
-            </button>
-            <button onClick={() => addItem('number')} className="add-menu-item">
-              数字
-            </button>
-            <button onClick={() => addItem('boolean')} className="add-menu-item">
-              布尔值
-            </button>
-            <button onClick={() => addItem('object')} className="add-menu-item">
-              对象
-            </button>
-            <button onClick={() => addItem('array')} className="add-menu-item">
-              数组
-            </button>
-          </div>
-        )}
+        {showAddMenuObject && renderAddMenu(() => setShowAddMenuObject(false), addMenuObjectRef)}
         </div>
       )}
+      {pasteConflictDialog}
       {!path && toastMessage && (
         <div className="toast-message">
           {toastMessage}
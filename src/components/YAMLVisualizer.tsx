@@ -1,36 +1,111 @@
-import { useState, useCallback, useEffect, useRef } from 'react'
+import { useState, useCallback, useEffect, useRef, useMemo } from 'react'
 import * as YAML from 'yaml'
 import * as TOML from '@iarna/toml'
 import * as xmljs from 'xml-js'
 import { useTheme } from '../contexts/ThemeContext'
+import { useRegisterCommands, type Command } from '../contexts/CommandContext'
 import YAMLForm, { YAMLFormHandle } from './YAMLForm'
-import YAMLEditor, { YAMLEditorHandle } from './YAMLEditor'
+import YAMLEditor, { YAMLEditorHandle, EditorMarker } from './YAMLEditor'
 import StatsPanel from './StatsPanel'
 import TemplateManager from './TemplateManager'
-import { SortIcon, SaveIcon, ReloadIcon, UploadIcon, ChevronDownIcon, ChevronRightIcon, FormatIcon, SearchIcon, CloseIcon, MoonIcon, SunIcon, GitHubIcon, DownloadIcon, StatsIcon } from './Icons'
+import SchemaManager from './SchemaManager'
+import ProblemsPanel from './ProblemsPanel'
+import CompareManager from './CompareManager'
+import DiffPanel from './DiffPanel'
+import YAMLDiffEditor from './YAMLDiffEditor'
+import MergeManager, { type MergeSource } from './MergeManager'
+import MergePanel from './MergePanel'
+import SnapshotManager from './SnapshotManager'
+import FindReplacePanel from './FindReplacePanel'
+import QueryResultsPanel from './QueryResultsPanel'
+import PathBreadcrumb from './PathBreadcrumb'
+import WorkflowGraphPanel from './WorkflowGraphPanel'
+import { validateAgainstSchema } from '../utils/schemaValidation'
+import { getKubernetesResource, validateKubernetesManifest } from '../utils/kubernetesValidation'
+import { isComposeDocument, analyzeCompose } from '../utils/composeAnalysis'
+import { isWorkflowDocument, analyzeWorkflow, buildJobGraph } from '../utils/workflowAnalysis'
+import { groupProblemsByPath, PROBLEM_SOURCE_LABELS, type Problem, type ProblemSource } from '../utils/problems'
+import { getRangeForPath } from '../utils/yamlAst'
+import { formatPath, appendPath, getAncestorPaths, pointerToSegments, getValueAtPath, setValueAtPath, deleteValueAtPath, type PathSegment } from '../utils/path'
+import { mergeThreeWay, MISSING, type MergeConflict, type MergeResolution } from '../utils/threeWayMerge'
+import { diffStructures, buildDiffLookup, deepEqual, mapPathToOldData, type DiffEntry } from '../utils/structuralDiff'
+import { collectAnchorInfo, replaceDanglingAliases, type AnchorLookup } from '../utils/yamlAnchors'
+import { collectTagInfo, type TagInfo } from '../utils/yamlTags'
+import { getCopyPayload, writeSubtreeToClipboard } from '../utils/subtreeClipboard'
+import { findReplacements, applyReplacements, type FindReplaceOptions } from '../utils/findReplace'
+import { runQuery, QUERY_LANGUAGE_LABELS, QUERY_PLACEHOLDERS, type QueryResult, type SearchMode } from '../utils/pathQuery'
+import { detectImportFormat, parseImportedText, IMPORT_ACCEPT, IMPORT_FORMAT_LABELS, type ImportFormat } from '../utils/importFormats'
+import { parseYamlStream, stringifyYamlStream, getDocumentSummary, formatDocumentLabel, type DocumentSummary } from '../utils/yamlDocuments'
+import type { DraftViewState } from '../utils/drafts'
+import { getSnapshotLabel, formatSnapshotDay, formatSnapshotTime, type Snapshot } from '../utils/snapshots'
+import { useDraftAutosave, type DraftContent } from '../hooks/useDraftAutosave'
+import { useSnapshots } from '../hooks/useSnapshots'
+import { useDocumentHistory, HISTORY_LIMIT_OPTIONS, DEFAULT_HISTORY_LIMIT, type HistorySource } from '../hooks/useDocumentHistory'
+import { SortIcon, SaveIcon, ReloadIcon, UploadIcon, ChevronDownIcon, ChevronRightIcon, FormatIcon, SearchIcon, CloseIcon, MoonIcon, SunIcon, GitHubIcon, DownloadIcon, StatsIcon, UndoIcon, RedoIcon, ReplaceIcon } from './Icons'
 import './YAMLVisualizer.css'
 
+const HISTORY_LIMIT_STORAGE_KEY = 'yameilo-history-limit'
+
+// 节点类型改变时把旧节点的锚点转移到新节点上
+function keepAnchor(oldNode: YAML.Node | null, newNode: YAML.Node | null): YAML.Node | null {
+  if (oldNode && newNode && !YAML.isAlias(oldNode) && !YAML.isAlias(newNode) && oldNode.anchor) {
+    newNode.anchor = oldNode.anchor
+  }
+  return newNode
+}
+
+// 保留旧节点上的显式标签（如 !Ref、!!binary），序列化时写回原来的短格式；标量的值类型改变时不再保留
+function keepTag(oldNode: YAML.Node, newNode: YAML.Node) {
+  if (!oldNode.tag) return
+  if (YAML.isScalar(oldNode) && YAML.isScalar(newNode) && typeof oldNode.value !== typeof newNode.value) return
+  newNode.tag = oldNode.tag
+}
+
 interface YAMLVisualizerProps {
   data: any
   fileName: string
+  // 挂载时恢复的 YAML 文本（保留注释和多文档结构），如刷新后恢复的标签页
+  initialText?: string
+  // 挂载时恢复的视图状态（如从草稿恢复时的展开、搜索和选中的文档）
+  initialViewState?: DraftViewState
+  // 是否为当前显示的标签页，隐藏的标签页不响应全局快捷键
+  isActive?: boolean
+  // 文档的 id，用于自动保存草稿（isDirty 为 true 时）和版本快照
+  documentId?: string
+  isDirty?: boolean
   onDataChange: (data: any) => void
-  onFileLoad: (data: any, fileName: string) => void
+  onFileLoad: (data: any, fileName: string, text: string) => void
+  onTextChange?: (text: string) => void
+  onFileNameChange?: (fileName: string) => void
+  onSave?: (text: string) => void
   onReset: () => void
 }
 
 export default function YAMLVisualizer({
   data,
   fileName,
+  initialText,
+  initialViewState,
+  isActive = true,
+  documentId,
+  isDirty = false,
   onDataChange,
   onFileLoad,
+  onTextChange,
+  onFileNameChange,
+  onSave,
   onReset,
 }: YAMLVisualizerProps) {
   const { theme, toggleTheme } = useTheme()
-  const [yamlText, setYamlText] = useState('')
+  const [yamlText, setYamlText] = useState(initialText ?? '')
   const [parseError, setParseError] = useState('')
   const [isAllExpanded, setIsAllExpanded] = useState(false)
-  const [searchQuery, setSearchQuery] = useState('')
+  const [searchQuery, setSearchQuery] = useState(initialViewState?.searchQuery ?? '')
+  const [searchMode, setSearchMode] = useState<SearchMode>(initialViewState?.searchMode ?? 'text')
+  const [isQueryPanelOpen, setIsQueryPanelOpen] = useState(true)
   const [matchCount, setMatchCount] = useState(0)
+  const [showReplacePanel, setShowReplacePanel] = useState(false)
+  const [isReplacePanelOpen, setIsReplacePanelOpen] = useState(true)
   const [editingFileName, setEditingFileName] = useState(fileName || '')
   const [isEditingFileName, setIsEditingFileName] = useState(false)
   const [showExportMenu, setShowExportMenu] = useState(false)
@@ -44,9 +119,42 @@ export default function YAMLVisualizer({
   const editorRef = useRef<YAMLEditorHandle | null>(null)
   const searchInputRef = useRef<HTMLInputElement>(null)
   const exportMenuRef = useRef<HTMLDivElement>(null)
-  const yamlDocRef = useRef<YAML.Document | null>(null) // 保存 YAML 文档以保留注释
+  const yamlDocRef = useRef<YAML.Document | null>(null) // 保存当前编辑的 YAML 文档以保留注释
+  const yamlDocsRef = useRef<YAML.Document[]>([]) // 多文档流（--- 分隔）中的所有文档
+  const activeDocIndexRef = useRef(initialViewState?.activeDocIndex ?? 0)
+  const [activeDocIndex, setActiveDocIndex] = useState(initialViewState?.activeDocIndex ?? 0)
+  const [expandedPaths, setExpandedPaths] = useState<Set<string>>(() => new Set(initialViewState?.expanded ?? []))
+  const [documentSummaries, setDocumentSummaries] = useState<DocumentSummary[]>([])
+  // 与 yamlDocRef 同步的当前文档，供需要随文档重新计算的派生数据（如查找替换预览）作为依赖
+  const [activeDocument, setActiveDocument] = useState<YAML.Document | null>(null)
+  const [anchorLookup, setAnchorLookup] = useState<AnchorLookup>(() => collectAnchorInfo(null))
+  const [tagLookup, setTagLookup] = useState<Map<string, TagInfo>>(new Map())
   const [commentsMap, setCommentsMap] = useState<Map<string, string>>(new Map()) // 存储路径到注释的映射
   const [highlightedPath, setHighlightedPath] = useState<string | null>(null) // 存储当前高亮的路径
+  const highlightTimeoutRef = useRef<number | null>(null)
+  const [focusedPath, setFocusedPath] = useState<string | null>(null) // 面包屑显示的路径：表单焦点或编辑器光标所在的节点
+  const [schema, setSchema] = useState<any | null>(null) // 关联的 JSON Schema
+  const [schemaName, setSchemaName] = useState('')
+  const [problems, setProblems] = useState<Problem[]>([])
+  const [editorMarkers, setEditorMarkers] = useState<EditorMarker[]>([])
+  const [isProblemsPanelOpen, setIsProblemsPanelOpen] = useState(true)
+  const [isWorkflowGraphOpen, setIsWorkflowGraphOpen] = useState(true)
+  const [compareText, setCompareText] = useState<string | null>(null) // 对比文档（YAML 文本），null 表示未在对比
+  const [compareName, setCompareName] = useState('')
+  const [isComparingSnapshot, setIsComparingSnapshot] = useState(false) // 对比文档是否为版本快照（可按节点恢复）
+  const [diffIdentityKey, setDiffIdentityKey] = useState('name')
+  const [isDiffPanelOpen, setIsDiffPanelOpen] = useState(true)
+  const [mergeSession, setMergeSession] = useState<{ theirsName: string; conflicts: MergeConflict[]; appliedCount: number } | null>(null)
+  const [mergeResolutions, setMergeResolutions] = useState<Map<string, MergeResolution>>(new Map())
+  const [isMergePanelOpen, setIsMergePanelOpen] = useState(true)
+  const [historyLimit, setHistoryLimit] = useState<number>(() => {
+    const saved = parseInt(localStorage.getItem(HISTORY_LIMIT_STORAGE_KEY) || '')
+    return HISTORY_LIMIT_OPTIONS.includes(saved) ? saved : DEFAULT_HISTORY_LIMIT
+  })
+  const history = useDocumentHistory(historyLimit)
+  const historySourceRef = useRef<HistorySource | null>(null) // 下一次文本变化的来源
+  const snapshots = useSnapshots(documentId, yamlText, editingFileName)
+  const takeSnapshot = snapshots.takeSnapshot
 
   // 提取注释信息：递归遍历 YAML 节点，提取所有路径的注释
   const extractComments = useCallback((node: YAML.Node | null, path: string = '', comments: Map<string, string> = new Map()): Map<string, string> => {
@@ -58,7 +166,7 @@ export default function YAMLVisualizer({
       map.items.forEach(pair => {
         if (YAML.isScalar(pair.key)) {
           const key = (pair.key as YAML.Scalar).value as string
-          const keyPath = path ? `${path}.${key}` : key
+          const keyPath = appendPath(path, key)
           
           // 提取注释：检查所有可能的位置（如 "app: # 应用配置"）
           const keyAny = pair.key as any
@@ -158,7 +266,7 @@ export default function YAMLVisualizer({
     else if (YAML.isSeq(node)) {
       const seq = node as YAML.YAMLSeq
       seq.items.forEach((item, index) => {
-        const itemPath = path ? `${path}[${index}]` : `[${index}]`
+        const itemPath = appendPath(path, index)
         
         // 提取数组项的注释
         if (item && YAML.isNode(item)) {
@@ -204,17 +312,28 @@ export default function YAMLVisualizer({
     return comments
   }, [])
 
+  // 更新文档流：yamlDocsRef 保存所有文档，yamlDocRef 指向当前编辑的文档
+  const applyDocuments = useCallback((docs: YAML.Document[], preferredIndex: number): YAML.Document | null => {
+    const index = Math.min(Math.max(preferredIndex, 0), Math.max(docs.length - 1, 0))
+    yamlDocsRef.current = docs
+    yamlDocRef.current = docs[index] || null
+    activeDocIndexRef.current = index
+    setActiveDocIndex(index)
+    setActiveDocument(yamlDocRef.current)
+    setDocumentSummaries(docs.map((doc, i) => getDocumentSummary(doc, i)))
+    return yamlDocRef.current
+  }, [])
+
   // 当 YAML 文档变化时，更新注释映射
   useEffect(() => {
     // 尝试从 yamlText 重新解析文档以获取最新的注释
     if (yamlText) {
       try {
-        const doc = YAML.parseDocument(yamlText)
-        if (doc.contents) {
+        // 同时更新 yamlDocsRef 和 yamlDocRef
+        const doc = applyDocuments(parseYamlStream(yamlText), activeDocIndexRef.current)
+        if (doc?.contents) {
           const comments = extractComments(doc.contents)
           setCommentsMap(comments)
-          // 同时更新 yamlDocRef
-          yamlDocRef.current = doc
         } else {
           setCommentsMap(new Map())
         }
@@ -233,7 +352,231 @@ export default function YAMLVisualizer({
     } else {
       setCommentsMap(new Map())
     }
-  }, [yamlText, extractComments])
+    // 锚点、别名、合并键和标签的位置
+    setAnchorLookup(collectAnchorInfo(yamlDocRef.current))
+    setTagLookup(collectTagInfo(yamlDocRef.current))
+  }, [yamlText, extractComments, applyDocuments])
+
+  // 每次文档文本变化都记录到历史中（撤销/重做恢复的状态会被自动忽略）
+  const recordHistory = history.record
+  useEffect(() => {
+    recordHistory(yamlText, historySourceRef.current || 'form')
+    historySourceRef.current = null
+  }, [yamlText, recordHistory])
+
+  useEffect(() => {
+    localStorage.setItem(HISTORY_LIMIT_STORAGE_KEY, String(historyLimit))
+  }, [historyLimit])
+
+  // 文档顶层有 apiVersion 和 kind 时按 Kubernetes 清单校验
+  const kubernetesResource = useMemo(() => getKubernetesResource(data), [data])
+  // 顶层有 services 映射时按 Docker Compose 文件分析
+  const isCompose = useMemo(() => isComposeDocument(data), [data])
+  // 顶层有 jobs 映射和 on 触发条件时按 GitHub Actions 工作流分析，并显示任务依赖图
+  const isWorkflow = useMemo(() => isWorkflowDocument(data), [data])
+  const workflowGraph = useMemo(() => isWorkflow ? buildJobGraph(data) : null, [isWorkflow, data])
+
+  // 数据或 schema 变化时实时重新校验，并计算编辑器标记位置
+  useEffect(() => {
+    if (!schema && !kubernetesResource && !isCompose && !isWorkflow) {
+      setProblems([])
+      setEditorMarkers([])
+      return
+    }
+    const nextProblems: Problem[] = []
+    // 单个校验器出错时在问题列表中报告，不影响其他校验器的结果
+    const collectProblems = (source: ProblemSource, validate: () => Problem[]) => {
+      try {
+        nextProblems.push(...validate())
+      } catch (error) {
+        nextProblems.push({
+          path: '',
+          segments: [],
+          message: `${PROBLEM_SOURCE_LABELS[source]} 校验出错: ${error instanceof Error ? error.message : '未知错误'}`,
+          severity: 'error',
+          source,
+        })
+      }
+    }
+    if (schema) {
+      collectProblems('schema', () => validateAgainstSchema(schema, data))
+    }
+    if (kubernetesResource) {
+      collectProblems('kubernetes', () => validateKubernetesManifest(data))
+    }
+    if (isCompose) {
+      collectProblems('compose', () => analyzeCompose(data))
+    }
+    if (isWorkflow) {
+      collectProblems('workflow', () => analyzeWorkflow(data))
+    }
+    setProblems(nextProblems)
+    const markers: EditorMarker[] = []
+    nextProblems.forEach(problem => {
+      const range = getRangeForPath(yamlDocRef.current, problem.segments)
+      if (range) {
+        markers.push({
+          startOffset: range[0],
+          endOffset: range[1],
+          message: problem.message,
+          severity: problem.severity,
+          source: problem.source,
+        })
+      }
+    })
+    setEditorMarkers(markers)
+  }, [schema, kubernetesResource, isCompose, isWorkflow, data, yamlText])
+
+  const problemsMap = useMemo(() => groupProblemsByPath(problems), [problems])
+
+  // 对比文档中与当前文档相同位置的文档数据（多文档流按索引对应），解析失败时为 undefined
+  const compareData = useMemo(() => {
+    if (compareText === null) return undefined
+    try {
+      const compareDocs = parseYamlStream(compareText)
+      const compareDoc = compareDocs[activeDocIndex] || compareDocs[0]
+      return compareDoc ? compareDoc.toJS() ?? {} : {}
+    } catch {
+      return undefined
+    }
+  }, [compareText, activeDocIndex])
+
+  // 结构对比
+  const diffEntries = useMemo(() => {
+    if (compareData === undefined) return []
+    return diffStructures(compareData, data, { identityKey: diffIdentityKey.trim() || undefined })
+  }, [compareData, data, diffIdentityKey])
+
+  const diffLookup = useMemo(() => buildDiffLookup(diffEntries), [diffEntries])
+
+  const mergeConflicts = useMemo(() => {
+    if (!mergeSession) return undefined
+    return {
+      byPath: new Map(mergeSession.conflicts.map(conflict => [conflict.path, conflict])),
+      resolutions: mergeResolutions,
+    }
+  }, [mergeSession, mergeResolutions])
+
+  // 高亮表单中的路径，10 秒后清除高亮（给用户足够的时间查看）
+  const highlightPath = useCallback((path: string) => {
+    setHighlightedPath(path)
+    if (highlightTimeoutRef.current !== null) {
+      clearTimeout(highlightTimeoutRef.current)
+    }
+    highlightTimeoutRef.current = window.setTimeout(() => {
+      setHighlightedPath(null)
+      highlightTimeoutRef.current = null
+    }, 10000)
+  }, [])
+
+  // 在编辑器中定位当前文档的路径（编辑器按 documentIndex 在多文档流中查找）
+  const locatePathInEditor = useCallback((path: string) => {
+    editorRef.current?.locatePath(path)
+  }, [])
+
+  // 从问题列表跳转到对应位置
+  const handleProblemSelect = useCallback((problem: Problem) => {
+    if (problem.path) {
+      highlightPath(problem.path)
+      locatePathInEditor(problem.path)
+    }
+  }, [highlightPath, locatePathInEditor])
+
+  // 从差异列表跳转到对应位置（已删除的节点定位到父级）
+  const handleDiffSelect = useCallback((entry: DiffEntry) => {
+    const path = entry.kind === 'removed' ? formatPath(entry.segments.slice(0, -1)) : entry.path
+    if (path) {
+      highlightPath(path)
+    }
+  }, [highlightPath])
+
+  const handleCompareLoad = useCallback((text: string, name: string) => {
+    setCompareText(text)
+    setCompareName(name)
+    setIsComparingSnapshot(false)
+    setIsDiffPanelOpen(true)
+  }, [])
+
+  const handleCompareClose = useCallback(() => {
+    setCompareText(null)
+    setCompareName('')
+    setIsComparingSnapshot(false)
+  }, [])
+
+  // 与版本快照按结构对比
+  const handleSnapshotCompare = useCallback((snapshot: Snapshot) => {
+    handleCompareLoad(snapshot.text, `快照 ${formatSnapshotDay(snapshot.createdAt)} ${formatSnapshotTime(snapshot.createdAt)} ${getSnapshotLabel(snapshot)}`)
+    setIsComparingSnapshot(true)
+  }, [handleCompareLoad])
+
+  // 把差异所在的子树恢复为快照中的值：数组项的增删和移动恢复整个数组，移动的键同时恢复原位置
+  const handleSnapshotEntryRestore = useCallback((entry: DiffEntry) => {
+    if (compareData === undefined) return
+    const isArrayItem = typeof entry.segments[entry.segments.length - 1] === 'number'
+    const targets: PathSegment[][] = [isArrayItem && entry.kind !== 'changed' ? entry.segments.slice(0, -1) : entry.segments]
+    if (entry.kind === 'moved' && !isArrayItem && entry.fromPath !== undefined) {
+      targets.push(pointerToSegments(entry.fromPath, data))
+    }
+    const options = { identityKey: diffIdentityKey.trim() || undefined }
+    const restored = targets.reduce((current, segments) => {
+      const snapshotSegments = mapPathToOldData(segments, compareData, data, options)
+      return snapshotSegments === null
+        ? deleteValueAtPath(current, segments)
+        : setValueAtPath(current, segments, getValueAtPath(compareData, snapshotSegments))
+    }, data)
+    historySourceRef.current = 'snapshot'
+    onDataChange(restored)
+  }, [compareData, data, diffIdentityKey, onDataChange])
+
+  // 三方合并：当前文档作为我方，与基础版本和对方版本中相同位置的文档合并
+  const handleMergeStart = useCallback((base: MergeSource, theirs: MergeSource) => {
+    const pickData = (text: string) => {
+      const docs = parseYamlStream(text)
+      const doc = docs[activeDocIndexRef.current] || docs[0]
+      return doc ? doc.toJS() ?? {} : {}
+    }
+    const result = mergeThreeWay(pickData(base.text), data, pickData(theirs.text))
+    historySourceRef.current = 'merge'
+    onDataChange(result.merged)
+    setMergeSession({ theirsName: theirs.name, conflicts: result.conflicts, appliedCount: result.appliedCount })
+    setMergeResolutions(new Map())
+    setIsMergePanelOpen(true)
+  }, [data, onDataChange])
+
+  // 解决冲突：选择我方或对方时写入对应的值（通过 updateNodeValue 保留注释），手动则保留表单中的当前值
+  const handleResolveConflict = useCallback((conflict: MergeConflict, resolution: MergeResolution) => {
+    if (resolution !== 'manual') {
+      const value = resolution === 'ours' ? conflict.ours : conflict.theirs
+      historySourceRef.current = 'merge'
+      onDataChange(value === MISSING
+        ? deleteValueAtPath(data, conflict.segments)
+        : setValueAtPath(data, conflict.segments, value))
+    }
+    setMergeResolutions(prev => new Map(prev).set(conflict.path, resolution))
+  }, [data, onDataChange])
+
+  const handleConflictSelect = useCallback((conflict: MergeConflict) => {
+    if (conflict.path) {
+      highlightPath(conflict.path)
+      locatePathInEditor(conflict.path)
+    }
+  }, [highlightPath, locatePathInEditor])
+
+  const handleMergeFinish = useCallback(() => {
+    if (!mergeSession) return
+    const unresolved = mergeSession.conflicts.filter(conflict => !mergeResolutions.has(conflict.path)).length
+    if (unresolved > 0 && !confirm(`仍有 ${unresolved} 个冲突未解决，将保留当前的值。确定完成合并吗？`)) {
+      return
+    }
+    setMergeSession(null)
+    setMergeResolutions(new Map())
+  }, [mergeSession, mergeResolutions])
+
+  const handleSchemaChange = useCallback((nextSchema: any | null, name: string) => {
+    setSchema(nextSchema)
+    setSchemaName(name)
+    setIsProblemsPanelOpen(true)
+  }, [])
 
   // 将 JavaScript 值转换为 YAML 节点
   const valueToNode = useCallback((value: any): YAML.Node | null => {
@@ -245,10 +588,21 @@ export default function YAMLVisualizer({
     }
   }, [])
 
-  // 递归更新 YAML 节点值，保留注释
+  // 递归更新 YAML 节点值，保留注释、锚点和标签
   const updateNodeValue = useCallback((oldNode: YAML.Node | null, newValue: any): YAML.Node | null => {
+    // 别名节点：值未改变时保留别名（修改锚点后所有引用处随之更新），否则转换为独立的副本
+    if (YAML.isAlias(oldNode) && yamlDocRef.current) {
+      const resolved = oldNode.resolve(yamlDocRef.current) as YAML.Node | undefined
+      if (resolved && deepEqual(resolved.toJS(yamlDocRef.current), newValue)) {
+        return oldNode
+      }
+      const copy = resolved ? resolved.clone() as YAML.Node : null
+      if (copy) copy.anchor = undefined
+      return updateNodeValue(copy, newValue)
+    }
+
     if (newValue === null || newValue === undefined) {
-      return valueToNode(newValue)
+      return keepAnchor(oldNode, valueToNode(newValue))
     }
 
     // 如果是 Map（对象）
@@ -256,9 +610,11 @@ export default function YAMLVisualizer({
       const oldMap = oldNode as YAML.YAMLMap
       const newMap = new YAML.YAMLMap()
       
-      // 保留 Map 的注释
+      // 保留 Map 的注释、锚点和标签
       if (oldMap.commentBefore) newMap.commentBefore = oldMap.commentBefore
       if (oldMap.comment) newMap.comment = oldMap.comment
+      if (oldMap.anchor) newMap.anchor = oldMap.anchor
+      keepTag(oldMap, newMap)
       
       // 创建键到旧 Pair 的映射
       const oldPairs = new Map<string, YAML.Pair>()
@@ -355,9 +711,11 @@ export default function YAMLVisualizer({
       const oldSeq = oldNode as YAML.YAMLSeq
       const newSeq = new YAML.YAMLSeq()
       
-      // 保留 Seq 的注释
+      // 保留 Seq 的注释、锚点和标签
       if (oldSeq.commentBefore) newSeq.commentBefore = oldSeq.commentBefore
       if (oldSeq.comment) newSeq.comment = oldSeq.comment
+      if (oldSeq.anchor) newSeq.anchor = oldSeq.anchor
+      keepTag(oldSeq, newSeq)
       
       // 更新数组项
       newValue.forEach((item, index) => {
@@ -386,22 +744,24 @@ export default function YAMLVisualizer({
       const newScalar = valueToNode(newValue) as YAML.Scalar
       
       if (newScalar && YAML.isScalar(newScalar)) {
-        // 保留标量的注释
+        // 保留标量的注释、锚点和标签
         if (oldScalar.commentBefore) newScalar.commentBefore = oldScalar.commentBefore
         if (oldScalar.comment) newScalar.comment = oldScalar.comment
+        if (oldScalar.anchor) newScalar.anchor = oldScalar.anchor
+        keepTag(oldScalar, newScalar)
         return newScalar
       }
     }
     
-    // 默认情况：创建新节点
-    return valueToNode(newValue)
+    // 默认情况：创建新节点（类型改变时保留锚点，引用处随之更新）
+    return keepAnchor(oldNode, valueToNode(newValue))
   }, [valueToNode])
 
   // 将数据转换为 YAML 文本，保留注释
   const dataToYaml = useCallback((data: any, preserveComments: boolean = false): string => {
     try {
-      // 如果是空对象，返回空字符串
-      if (data && typeof data === 'object' && !Array.isArray(data) && Object.keys(data).length === 0) {
+      // 如果是空对象且没有其他文档，返回空字符串
+      if (data && typeof data === 'object' && !Array.isArray(data) && Object.keys(data).length === 0 && yamlDocsRef.current.length <= 1) {
         return ''
       }
       
@@ -409,9 +769,16 @@ export default function YAMLVisualizer({
       if (preserveComments && yamlDocRef.current) {
         try {
           // 使用递归更新来保留注释
-          const updatedContents = updateNodeValue(yamlDocRef.current.contents, data)
+          const previousContents = yamlDocRef.current.contents
+          const updatedContents = updateNodeValue(previousContents, data)
           if (updatedContents) {
+            // 被删除的锚点的别名替换为原内容的副本，避免无法解析的别名
+            replaceDanglingAliases(updatedContents, previousContents)
             yamlDocRef.current.contents = updatedContents
+            // 多文档流中只更新当前文档，其余文档（含分隔符和注释）原样写回
+            if (yamlDocsRef.current.includes(yamlDocRef.current)) {
+              return stringifyYamlStream(yamlDocsRef.current)
+            }
             return yamlDocRef.current.toString()
           }
         } catch (error) {
@@ -465,7 +832,8 @@ export default function YAMLVisualizer({
       finalFileName = '未命名文件.yaml'
     }
     setEditingFileName(finalFileName)
-  }, [editingFileName])
+    onFileNameChange?.(finalFileName)
+  }, [editingFileName, onFileNameChange])
 
   const handleFileNameKeyDown = useCallback((e: React.KeyboardEvent<HTMLInputElement>) => {
     if (e.key === 'Enter') {
@@ -486,11 +854,17 @@ export default function YAMLVisualizer({
 
   // 快捷键支持：Ctrl+F 聚焦搜索框
   useEffect(() => {
+    if (!isActive) return
     const handleKeyDown = (e: KeyboardEvent) => {
       if ((e.ctrlKey || e.metaKey) && e.key === 'f') {
         e.preventDefault()
         searchInputRef.current?.focus()
       }
+      if ((e.ctrlKey || e.metaKey) && e.key === 'h') {
+        e.preventDefault()
+        setShowReplacePanel(true)
+        setIsReplacePanelOpen(true)
+      }
       if (e.key === 'Escape' && document.activeElement === searchInputRef.current) {
         setSearchQuery('')
         setMatchCount(0)
@@ -499,26 +873,42 @@ export default function YAMLVisualizer({
     }
     window.addEventListener('keydown', handleKeyDown)
     return () => window.removeEventListener('keydown', handleKeyDown)
-  }, [])
+  }, [isActive])
 
-  // 处理文件上传
+  // 处理文件上传（支持 YAML、JSON、TOML、XML，非 YAML 格式转换为 YAML 加载）
   const handleFileUpload = useCallback(async (event: React.ChangeEvent<HTMLInputElement>) => {
     const file = event.target.files?.[0]
     if (!file) return
+    event.target.value = '' // 允许重复选择同一文件
 
+    let format: ImportFormat = 'yaml'
     try {
-      const text = await file.text()
-      // 使用 parseDocument 以保留注释
-      const doc = YAML.parseDocument(text)
-      const parsedData = doc.toJS()
+      const fileText = await file.text()
+      format = detectImportFormat(file.name, fileText)
+      let text = fileText
+      let loadFileName = file.name
+      if (format !== 'yaml') {
+        const imported = parseImportedText(fileText, format)
+        text = imported === undefined || imported === null ? '' : YAML.stringify(imported, { indent: 2 })
+        loadFileName = file.name.replace(/\.(json|toml|xml)$/i, '') + '.yaml'
+      }
+      // 解析所有文档（--- 分隔）以保留注释，默认编辑第一个文档
+      const doc = applyDocuments(parseYamlStream(text), 0)
+      const parsedData = doc ? doc.toJS() : {}
       if (parsedData !== undefined) {
-        yamlDocRef.current = doc // 保存文档以保留注释
-        onFileLoad(parsedData, file.name)
+        historySourceRef.current = 'load'
+        // 文本直接来自文件，跳过由数据重新生成文本，保持文件原样（也作为标签页未保存修改的基准）
+        isUpdatingFromEditor.current = true
+        onFileLoad(parsedData, loadFileName, text)
+        takeSnapshot('load', { text, fileName: loadFileName })
         setYamlText(text)
         setParseError('')
-        isInitialized.current = false // 重置初始化标志
+        isInitialized.current = true
+        setTimeout(() => {
+          isUpdatingFromEditor.current = false
+        }, 100)
         // 提取注释
-        if (doc.contents) {
+        if (doc?.contents) {
           const comments = extractComments(doc.contents)
           setCommentsMap(comments)
         } else {
@@ -526,9 +916,32 @@ export default function YAMLVisualizer({
         }
       }
     } catch (error) {
-      alert(`解析 YAML 文件失败: ${error instanceof Error ? error.message : '未知错误'}`)
+      alert(`解析 ${IMPORT_FORMAT_LABELS[format]} 文件失败: ${error instanceof Error ? error.message : '未知错误'}`)
+    }
+  }, [onFileLoad, extractComments, applyDocuments, takeSnapshot])
+
+  // 文档中存在别名时，修改锚点会影响所有引用处：用文档的实际值刷新表单数据
+  const syncAliasedData = useCallback((currentData: any) => {
+    const doc = yamlDocRef.current
+    if (!doc || !doc.contents) return
+    let hasAlias = false
+    YAML.visit(doc, {
+      Alias: () => {
+        hasAlias = true
+        return YAML.visit.BREAK
+      },
+    })
+    if (!hasAlias) return
+
+    const synced = doc.toJS()
+    if (!deepEqual(synced, currentData)) {
+      isUpdatingFromEditor.current = true
+      onDataChange(synced)
+      setTimeout(() => {
+        isUpdatingFromEditor.current = false
+      }, 100)
     }
-  }, [onFileLoad, extractComments])
+  }, [onDataChange])
 
   // 当表单数据变化时，更新编辑器（保留注释）
   useEffect(() => {
@@ -547,6 +960,7 @@ export default function YAMLVisualizer({
           // 使用 preserveComments=true 以保留注释
           const newYamlText = dataToYaml(data, true)
           setYamlText(newYamlText)
+          syncAliasedData(data)
           setTimeout(() => {
             isUpdatingFromForm.current = false
           }, 100)
@@ -557,37 +971,38 @@ export default function YAMLVisualizer({
         // 使用 preserveComments=true 以保留注释
         const newYamlText = dataToYaml(data, true)
         setYamlText(newYamlText)
+        syncAliasedData(data)
         setTimeout(() => {
           isUpdatingFromForm.current = false
         }, 100)
       }
     }
-  }, [data, dataToYaml])
+  }, [data, dataToYaml, syncAliasedData])
 
   // 编辑器文本变化时，更新表单
   const handleEditorChange = useCallback((text: string) => {
     if (isUpdatingFromForm.current) return
 
     isUpdatingFromEditor.current = true
+    historySourceRef.current = 'editor'
     setYamlText(text)
 
     try {
       // 如果文本为空或只有空白字符，设置为空对象
       if (!text || text.trim() === '') {
-        yamlDocRef.current = null
+        applyDocuments([], 0)
         onDataChange({})
         setParseError('')
         setCommentsMap(new Map())
       } else {
-        // 使用 parseDocument 以保留注释
-        const doc = YAML.parseDocument(text)
-        const parsed = doc.toJS()
+        // 解析所有文档以保留注释，表单继续编辑当前选中的文档
+        const doc = applyDocuments(parseYamlStream(text), activeDocIndexRef.current)
+        const parsed = doc ? doc.toJS() : {}
         if (parsed !== undefined) {
-          yamlDocRef.current = doc // 保存文档以保留注释
           onDataChange(parsed)
           setParseError('')
           // 提取注释
-          if (doc.contents) {
+          if (doc?.contents) {
             const comments = extractComments(doc.contents)
             setCommentsMap(comments)
           } else {
@@ -599,25 +1014,244 @@ export default function YAMLVisualizer({
       setParseError(error instanceof Error ? error.message : 'YAML 解析错误')
     }
 
+    setTimeout(() => {
+      isUpdatingFromEditor.current = false
+    }, 100)
+  }, [onDataChange, extractComments, applyDocuments])
+
+  // 从历史记录恢复文档：同时更新编辑器、表单和 yamlDocRef（保留注释）
+  const restoreDocumentText = useCallback((text: string) => {
+    // 如果焦点在表单输入框中，先移除焦点，确保编辑器能同步更新
+    const activeElement = document.activeElement as HTMLElement | null
+    if (activeElement && (activeElement.tagName === 'INPUT' || activeElement.tagName === 'TEXTAREA')) {
+      activeElement.blur()
+    }
+
+    isUpdatingFromEditor.current = true
+    setYamlText(text)
+
+    try {
+      if (!text.trim()) {
+        applyDocuments([], 0)
+        onDataChange({})
+        setCommentsMap(new Map())
+      } else {
+        const doc = applyDocuments(parseYamlStream(text), activeDocIndexRef.current)
+        onDataChange(doc?.toJS() ?? {})
+        setCommentsMap(doc?.contents ? extractComments(doc.contents) : new Map())
+      }
+      setParseError('')
+    } catch (error) {
+      setParseError(error instanceof Error ? error.message : 'YAML 解析错误')
+    }
+
+    setTimeout(() => {
+      isUpdatingFromEditor.current = false
+    }, 100)
+  }, [onDataChange, extractComments, applyDocuments])
+
+  // 挂载时用恢复的文本初始化（在数据同步之后执行，覆盖由空数据生成的文本）
+  useEffect(() => {
+    if (initialText) {
+      historySourceRef.current = 'load'
+      restoreDocumentText(initialText)
+      isInitialized.current = true
+    }
+    // 只在挂载时执行一次
+  }, [])
+
+  // 通知外部文档文本的变化（用于标签页的未保存标记和刷新后恢复）
+  const onTextChangeRef = useRef(onTextChange)
+  useEffect(() => {
+    onTextChangeRef.current = onTextChange
+  }, [onTextChange])
+  const reportedTextRef = useRef(initialText ?? '')
+  useEffect(() => {
+    if (yamlText === reportedTextRef.current) return
+    reportedTextRef.current = yamlText
+    onTextChangeRef.current?.(yamlText)
+  }, [yamlText])
+
+  // 有未保存的修改时，在后台把文本、文件名和视图状态自动保存为草稿
+  const draftContent = useMemo<DraftContent | null>(() => {
+    if (!isDirty) return null
+    return {
+      fileName: editingFileName,
+      text: yamlText,
+      viewState: { expanded: Array.from(expandedPaths), searchQuery, searchMode, activeDocIndex },
+    }
+  }, [isDirty, editingFileName, yamlText, expandedPaths, searchQuery, searchMode, activeDocIndex])
+  const draftError = useDraftAutosave(documentId, draftContent)
+
+  // 切换多文档流中正在编辑的文档
+  const handleDocumentSwitch = useCallback((index: number) => {
+    const doc = yamlDocsRef.current[index]
+    if (!doc || index === activeDocIndexRef.current) return
+
+    isUpdatingFromEditor.current = true
+    yamlDocRef.current = doc
+    activeDocIndexRef.current = index
+    setActiveDocIndex(index)
+    setActiveDocument(doc)
+    setHighlightedPath(null)
+    setFocusedPath(null)
+    onDataChange(doc.toJS() ?? {})
+    setCommentsMap(doc.contents ? extractComments(doc.contents) : new Map())
+    setAnchorLookup(collectAnchorInfo(doc))
+    setTagLookup(collectTagInfo(doc))
+
     setTimeout(() => {
       isUpdatingFromEditor.current = false
     }, 100)
   }, [onDataChange, extractComments])
 
+  // 修改节点的标签：直接改写 AST 上的标签再重新解析，值的解析方式随新标签变化
+  const handleTagChange = useCallback((path: string, tag: string | null) => {
+    const doc = yamlDocRef.current
+    if (!doc) return
+    // 借助数据区分数组索引和数字形式的对象键
+    const node = path ? doc.getIn(pointerToSegments(path, data), true) : doc.contents
+    if (!YAML.isNode(node) || YAML.isAlias(node)) return
+
+    node.tag = tag ?? undefined
+    const text = yamlDocsRef.current.includes(doc) ? stringifyYamlStream(yamlDocsRef.current) : doc.toString()
+    historySourceRef.current = 'form'
+    restoreDocumentText(text)
+  }, [data, restoreDocumentText])
+
+  // 表单中的批量操作单独记录为一条历史，不与前后的表单编辑合并
+  const handleBulkChange = useCallback((newData: any) => {
+    historySourceRef.current = 'bulk'
+    onDataChange(newData)
+  }, [onDataChange])
+
+  // JSONPath / jq 查询：对当前文档的数据求值，查询为空或有错误时不过滤表单
+  const queryState = useMemo((): { results: QueryResult[]; error: string } | null => {
+    if (searchMode === 'text' || !searchQuery.trim()) return null
+    try {
+      return { results: runQuery(data, searchQuery, searchMode), error: '' }
+    } catch (error) {
+      return { results: [], error: error instanceof Error ? error.message : String(error) }
+    }
+  }, [data, searchQuery, searchMode])
+
+  const queryMatches = useMemo(() => {
+    if (!queryState || queryState.error) return null
+    return new Set(queryState.results.flatMap(result => result.path === null ? [] : [result.path]))
+  }, [queryState])
+
+  // 查找替换的预览基于当前文档的 AST，文档重新解析或切换后重新计算
+  const findReplaceMatches = useCallback((options: FindReplaceOptions) => {
+    return findReplacements(activeDocument, options)
+  }, [activeDocument])
+
+  // 查找替换：直接改写 AST 上的键名和值，注释、锚点和标签保持不变，一次替换记录为一条历史
+  const handleReplace = useCallback((options: FindReplaceOptions, selectedIds: Set<string> | null) => {
+    const doc = yamlDocRef.current
+    if (!doc || applyReplacements(doc, options, selectedIds) === 0) return
+    const text = yamlDocsRef.current.includes(doc) ? stringifyYamlStream(yamlDocsRef.current) : doc.toString()
+    historySourceRef.current = 'replace'
+    restoreDocumentText(text)
+  }, [restoreDocumentText])
+
+  // 从查找替换、查询结果列表跳转到对应位置
+  const handlePathSelect = useCallback((path: string) => {
+    if (path) {
+      highlightPath(path)
+      locatePathInEditor(path)
+    }
+  }, [highlightPath, locatePathInEditor])
+
+  // 编辑器光标移动时更新面包屑（光标在其他文档中时由点击事件先切换文档）
+  const handleEditorCursorPathChange = useCallback((path: string, documentIndex: number) => {
+    if (documentIndex === activeDocIndexRef.current) {
+      setFocusedPath(path)
+    }
+  }, [])
+
+  // 点击面包屑路径段或同级节点：跳转到该节点
+  const handleBreadcrumbNavigate = useCallback((path: string) => {
+    setFocusedPath(path)
+    handlePathSelect(path)
+  }, [handlePathSelect])
+
+  // 只展开当前分支：保留该节点及其祖先的展开状态，折叠其他所有节点
+  const handleFocusBranch = useCallback((path: string) => {
+    setExpandedPaths(new Set(path ? [...getAncestorPaths(path), path] : []))
+    handlePathSelect(path)
+  }, [handlePathSelect])
+
+  // 点击编辑器中的节点：在表单中高亮对应字段，点击的是其他文档时先切换到该文档
+  const handleEditorPathClick = useCallback((path: string, documentIndex: number) => {
+    handleDocumentSwitch(documentIndex)
+    highlightPath(path)
+  }, [handleDocumentSwitch, highlightPath])
+
+  const undoHistory = history.undo
+  const redoHistory = history.redo
+
+  const handleUndo = useCallback(() => {
+    const text = undoHistory()
+    if (text !== null) {
+      restoreDocumentText(text)
+    }
+  }, [undoHistory, restoreDocumentText])
+
+  const handleRedo = useCallback(() => {
+    const text = redoHistory()
+    if (text !== null) {
+      restoreDocumentText(text)
+    }
+  }, [redoHistory, restoreDocumentText])
+
+  // 快捷键支持：Ctrl+Z 撤销，Ctrl+Y / Ctrl+Shift+Z 重做（编辑器内由 Monaco 命令处理）
+  useEffect(() => {
+    if (!isActive) return
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (!(e.ctrlKey || e.metaKey) || e.defaultPrevented) return
+      const key = e.key.toLowerCase()
+      if (key !== 'z' && key !== 'y') return
+
+      // 表单以外的输入框（如搜索框、文件名）保留浏览器原生的撤销行为
+      const target = e.target as HTMLElement | null
+      const isTextField = target && (target.tagName === 'INPUT' || target.tagName === 'TEXTAREA')
+      if (isTextField && !target.closest('.form-panel')) return
+
+      e.preventDefault()
+      if (key === 'y' || (key === 'z' && e.shiftKey)) {
+        handleRedo()
+      } else {
+        handleUndo()
+      }
+    }
+    window.addEventListener('keydown', handleKeyDown)
+    return () => window.removeEventListener('keydown', handleKeyDown)
+  }, [isActive, handleUndo, handleRedo])
+
   const handleSort = useCallback(() => {
     const sortedData = sortObjectKeys(data)
+    historySourceRef.current = 'sort'
     onDataChange(sortedData)
   }, [data, onDataChange])
 
   // 应用模板
   const handleApplyTemplate = useCallback((templateData: any) => {
+    takeSnapshot('template')
+    historySourceRef.current = 'template'
     onDataChange(templateData)
     // 更新 YAML 文本
     const newYamlText = dataToYaml(templateData)
     setYamlText(newYamlText)
     setParseError('')
     isInitialized.current = false
-  }, [onDataChange, dataToYaml])
+  }, [onDataChange, dataToYaml, takeSnapshot])
+
+  // 用快照替换整个文档，替换前先保存当前内容的快照
+  const handleSnapshotRestore = useCallback(async (snapshot: Snapshot) => {
+    await takeSnapshot('restore')
+    historySourceRef.current = 'snapshot'
+    restoreDocumentText(snapshot.text)
+  }, [takeSnapshot, restoreDocumentText])
 
   const handleSave = useCallback(() => {
     try {
@@ -639,10 +1273,12 @@ export default function YAMLVisualizer({
       a.click()
       document.body.removeChild(a)
       URL.revokeObjectURL(url)
+      onSave?.(yamlString)
+      takeSnapshot('save', { text: yamlString, fileName: saveFileName })
     } catch (error) {
       alert(`保存失败: ${error instanceof Error ? error.message : '未知错误'}`)
     }
-  }, [data, editingFileName, yamlText, dataToYaml])
+  }, [data, editingFileName, yamlText, dataToYaml, onSave, takeSnapshot])
 
   // 导出为 JSON
   const handleExportJSON = useCallback(() => {
@@ -827,6 +1463,91 @@ export default function YAMLVisualizer({
     }
   }, [showExportMenu])
 
+  const handleReset = useCallback(() => {
+    isInitialized.current = false
+    historySourceRef.current = 'reset'
+    setYamlText('')
+    setEditingFileName('未命名文件.yaml')
+    onReset()
+  }, [onReset])
+
+  const handleToggleExpandAll = useCallback(() => {
+    if (formRef.current) {
+      if (isAllExpanded) {
+        formRef.current.collapseAll()
+      } else {
+        formRef.current.expandAll()
+      }
+      setIsAllExpanded(!isAllExpanded)
+    }
+  }, [isAllExpanded])
+
+  // 删除表单中选中的节点（作为一次批量修改记录）
+  const handleDeleteNode = useCallback((path: string) => {
+    handleBulkChange(deleteValueAtPath(data, pointerToSegments(path, data)))
+    setFocusedPath(null)
+  }, [data, handleBulkChange])
+
+  // 命令面板中的命令：工具栏和编辑器操作，以及针对表单中当前节点（面包屑路径）的操作
+  const commands: Command[] = [
+    { id: 'file.upload', category: '文件', title: '上传文件', keywords: 'open upload import', run: () => fileInputRef.current?.click() },
+    { id: 'file.save', category: '文件', title: '保存', keywords: 'save download', run: handleSave },
+    { id: 'file.exportJson', category: '文件', title: '导出为 JSON', keywords: 'export json', run: handleExportJSON },
+    { id: 'file.exportToml', category: '文件', title: '导出为 TOML', keywords: 'export toml', run: handleExportTOML },
+    { id: 'file.exportXml', category: '文件', title: '导出为 XML', keywords: 'export xml', run: handleExportXML },
+    { id: 'file.reset', category: '文件', title: '清空当前编辑内容', keywords: 'reset clear', run: handleReset },
+    { id: 'edit.undo', category: '编辑', title: '撤销', keywords: 'undo', keybinding: 'Ctrl+Z', disabled: !history.canUndo, run: handleUndo },
+    { id: 'edit.redo', category: '编辑', title: '重做', keywords: 'redo', keybinding: 'Ctrl+Y', disabled: !history.canRedo, run: handleRedo },
+    { id: 'edit.format', category: '编辑', title: '格式化 YAML', keywords: 'format', disabled: compareText !== null, run: () => editorRef.current?.format() },
+    { id: 'edit.sort', category: '编辑', title: '按 key 字母顺序排序', keywords: 'sort keys', run: handleSort },
+    { id: 'edit.search', category: '编辑', title: '搜索配置项', keywords: 'search find', keybinding: 'Ctrl+F', run: () => searchInputRef.current?.focus() },
+    { id: 'edit.replace', category: '编辑', title: '查找替换', keywords: 'find replace', keybinding: 'Ctrl+H', run: () => { setShowReplacePanel(true); setIsReplacePanelOpen(true) } },
+    { id: 'view.toggleExpand', category: '视图', title: isAllExpanded ? '全部折叠' : '全部展开', keywords: 'expand collapse all', run: handleToggleExpandAll },
+    { id: 'view.toggleStats', category: '视图', title: showStatsPanel ? '隐藏统计面板' : '显示统计面板', keywords: 'stats statistics', run: () => setShowStatsPanel(!showStatsPanel) },
+    { id: 'view.toggleTheme', category: '视图', title: theme === 'light' ? '切换到暗色主题' : '切换到亮色主题', keywords: 'theme dark light', run: toggleTheme },
+    ...documentSummaries.length > 1
+      ? documentSummaries.map((summary): Command => ({
+          id: `document.switch.${summary.index}`,
+          category: '文档',
+          title: `切换到 ${formatDocumentLabel(summary)}`,
+          keywords: 'document switch',
+          disabled: summary.index === activeDocIndex,
+          run: () => handleDocumentSwitch(summary.index),
+        }))
+      : [],
+  ]
+  if (focusedPath) {
+    const segments = pointerToSegments(focusedPath, data)
+    const value = getValueAtPath(data, segments)
+    const isContainer = typeof value === 'object' && value !== null
+    const lastSegment = segments[segments.length - 1]
+    commands.push(
+      { id: 'node.locate', category: '节点', title: `在编辑器中定位 ${focusedPath}`, keywords: 'locate reveal', disabled: compareText !== null, run: () => locatePathInEditor(focusedPath) },
+      { id: 'node.parent', category: '节点', title: '跳转到父级', keywords: 'parent up', run: () => handleBreadcrumbNavigate(formatPath(segments.slice(0, -1))) },
+      { id: 'node.focusBranch', category: '节点', title: '只展开当前分支', keywords: 'focus branch collapse others', run: () => handleFocusBranch(focusedPath) },
+      {
+        id: 'node.toggleExpand',
+        category: '节点',
+        title: expandedPaths.has(focusedPath) ? '折叠当前节点' : '展开当前节点',
+        keywords: 'expand collapse node',
+        disabled: !isContainer,
+        run: () => setExpandedPaths(prev => {
+          const next = new Set(prev)
+          if (next.has(focusedPath)) {
+            next.delete(focusedPath)
+          } else {
+            next.add(focusedPath)
+          }
+          return next
+        }),
+      },
+      { id: 'node.copyPath', category: '节点', title: '复制当前节点路径', keywords: 'copy path pointer', run: () => { navigator.clipboard.writeText(focusedPath).catch(error => alert(`复制路径失败: ${error instanceof Error ? error.message : '未知错误'}`)) } },
+      { id: 'node.copy', category: '节点', title: '复制当前节点', keywords: 'copy node subtree', run: () => { writeSubtreeToClipboard(getCopyPayload(value, typeof lastSegment === 'string' ? lastSegment : null)).catch(error => alert(`复制节点失败: ${error instanceof Error ? error.message : '未知错误'}`)) } },
+      { id: 'node.delete', category: '节点', title: '删除当前节点', keywords: 'delete remove node', run: () => handleDeleteNode(focusedPath) },
+    )
+  }
+  useRegisterCommands(commands)
+
   const sortObjectKeys = (obj: any): any => {
     if (obj === null || typeof obj !== 'object') {
       return obj
@@ -870,11 +1591,30 @@ export default function YAMLVisualizer({
                 {editingFileName || '未命名文件'}
               </span>
             )}
+            {documentSummaries.length > 1 && (
+              <select
+                className="document-switcher"
+                value={activeDocIndex}
+                onChange={(e) => handleDocumentSwitch(parseInt(e.target.value))}
+                title="切换文档"
+              >
+                {documentSummaries.map(summary => (
+                  <option key={summary.index} value={summary.index}>
+                    {formatDocumentLabel(summary)}
+                  </option>
+                ))}
+              </select>
+            )}
             {parseError && (
               <span className="parse-error" title={parseError}>
                 ⚠️ 解析错误
               </span>
             )}
+            {(draftError || snapshots.error) && (
+              <span className="storage-error" title={[draftError, snapshots.error].filter(Boolean).join('\n')}>
+                ⚠️ 本地保存失败
+              </span>
+            )}
           </div>
           <div className="toolbar-right">
             {/* GitHub Star 链接 */}
@@ -890,13 +1630,24 @@ export default function YAMLVisualizer({
             </a>
             
             {/* 搜索框 - 最常用的功能，放在最前面 */}
-            <div className="search-container">
+            <div className={`search-container ${searchMode !== 'text' ? 'query-mode' : ''} ${queryState?.error ? 'has-error' : ''}`}>
               <SearchIcon size={14} className="search-icon" />
+              <select
+                className="search-mode-select"
+                value={searchMode}
+                onChange={(e) => setSearchMode(e.target.value as SearchMode)}
+                title="搜索模式"
+              >
+                <option value="text">文本</option>
+                <option value="jsonpath">{QUERY_LANGUAGE_LABELS.jsonpath}</option>
+                <option value="jq">{QUERY_LANGUAGE_LABELS.jq}</option>
+              </select>
               <input
                 ref={searchInputRef}
                 type="text"
                 className="search-input"
-                placeholder="搜索配置项 (Ctrl+F)"
+                placeholder={searchMode === 'text' ? '搜索配置项 (Ctrl+F)' : QUERY_PLACEHOLDERS[searchMode]}
+                title={queryState?.error || undefined}
                 value={searchQuery}
                 onChange={(e) => setSearchQuery(e.target.value)}
               />
@@ -915,20 +1666,30 @@ export default function YAMLVisualizer({
                   <CloseIcon size={12} />
                 </button>
               )}
+              <button
+                className={`search-replace-btn ${showReplacePanel ? 'active' : ''}`}
+                onClick={() => {
+                  setShowReplacePanel(!showReplacePanel)
+                  setIsReplacePanelOpen(true)
+                }}
+                title="查找替换 (Ctrl+H)"
+              >
+                <ReplaceIcon size={12} />
+              </button>
             </div>
             
             {/* 文件操作组 */}
             <input
               ref={fileInputRef}
               type="file"
-              accept=".yaml,.yml"
+              accept={IMPORT_ACCEPT}
               onChange={handleFileUpload}
               style={{ display: 'none' }}
             />
             <button
               className="btn btn-secondary"
               onClick={() => fileInputRef.current?.click()}
-              title="上传 YAML 文件"
+              title="上传 YAML / JSON / TOML / XML 文件"
             >
               <UploadIcon size={14} />
               <span>上传文件</span>
@@ -937,6 +1698,30 @@ export default function YAMLVisualizer({
               currentData={data}
               onApplyTemplate={handleApplyTemplate}
             />
+            <SchemaManager
+              schema={schema}
+              schemaName={schemaName}
+              onSchemaChange={handleSchemaChange}
+            />
+            <CompareManager
+              isActive={compareText !== null}
+              compareName={compareName}
+              onCompareLoad={handleCompareLoad}
+              onCompareClose={handleCompareClose}
+            />
+            <MergeManager
+              isActive={mergeSession !== null}
+              onMergeStart={handleMergeStart}
+            />
+            <SnapshotManager
+              documentId={documentId}
+              version={snapshots.version}
+              interval={snapshots.interval}
+              onIntervalChange={snapshots.setInterval}
+              onCreate={(name) => takeSnapshot('manual', { name })}
+              onCompare={handleSnapshotCompare}
+              onRestore={handleSnapshotRestore}
+            />
             <button className="btn btn-primary" onClick={handleSave}>
               <SaveIcon size={14} />
               <span>保存</span>
@@ -997,20 +1782,39 @@ export default function YAMLVisualizer({
               <SortIcon size={14} />
               <span>排序</span>
             </button>
+            <div className="history-group">
+              <button
+                className="btn btn-secondary"
+                onClick={handleUndo}
+                disabled={!history.canUndo}
+                title="撤销 (Ctrl+Z)"
+              >
+                <UndoIcon size={14} />
+              </button>
+              <button
+                className="btn btn-secondary"
+                onClick={handleRedo}
+                disabled={!history.canRedo}
+                title="重做 (Ctrl+Y)"
+              >
+                <RedoIcon size={14} />
+              </button>
+              <select
+                className="history-limit-select"
+                value={historyLimit}
+                onChange={(e) => setHistoryLimit(parseInt(e.target.value))}
+                title="历史记录深度"
+              >
+                {HISTORY_LIMIT_OPTIONS.map(option => (
+                  <option key={option} value={option}>{option} 步</option>
+                ))}
+              </select>
+            </div>
             
             {/* 视图操作组 */}
             <button
               className="btn btn-secondary"
-              onClick={() => {
-                if (formRef.current) {
-                  if (isAllExpanded) {
-                    formRef.current.collapseAll()
-                  } else {
-                    formRef.current.expandAll()
-                  }
-                  setIsAllExpanded(!isAllExpanded)
-                }
-              }}
+              onClick={handleToggleExpandAll}
               title={isAllExpanded ? '全部折叠' : '全部展开'}
             >
               {isAllExpanded ? <ChevronDownIcon size={14} /> : <ChevronRightIcon size={14} />}
@@ -1038,12 +1842,7 @@ export default function YAMLVisualizer({
             {/* 其他操作 - 危险操作放在最后 */}
             <button 
               className="btn btn-secondary" 
-              onClick={() => {
-                isInitialized.current = false
-                setYamlText('')
-                setEditingFileName('未命名文件.yaml')
-                onReset()
-              }}
+              onClick={handleReset}
               title="清空当前编辑内容"
             >
               <ReloadIcon size={14} />
@@ -1053,22 +1852,37 @@ export default function YAMLVisualizer({
         </div>
         <div className="visualizer-content">
           <div className="editor-panel">
-            <YAMLEditor
-              ref={editorRef}
-              value={yamlText}
-              onChange={handleEditorChange}
-              onParseError={setParseError}
-              theme={theme}
-              onPathClick={(path) => {
-                setHighlightedPath(path)
-                // 10 秒后清除高亮（给用户足够的时间查看）
-                setTimeout(() => {
-                  setHighlightedPath(null)
-                }, 10000)
-              }}
-            />
+            {compareText !== null ? (
+              <YAMLDiffEditor
+                original={compareText}
+                modified={yamlText}
+                originalName={compareName}
+                theme={theme}
+              />
+            ) : (
+              <YAMLEditor
+                ref={editorRef}
+                value={yamlText}
+                onChange={handleEditorChange}
+                onParseError={setParseError}
+                theme={theme}
+                onPathClick={handleEditorPathClick}
+                onCursorPathChange={handleEditorCursorPathChange}
+                documentIndex={activeDocIndex}
+                markers={editorMarkers}
+                onUndo={handleUndo}
+                onRedo={handleRedo}
+                schema={schema ?? undefined}
+              />
+            )}
           </div>
           <div className="form-panel">
+            <PathBreadcrumb
+              data={data}
+              path={focusedPath}
+              onNavigate={handleBreadcrumbNavigate}
+              onFocusBranch={handleFocusBranch}
+            />
             <div className="form-container">
               {showStatsPanel && (
                 <StatsPanel
@@ -1078,17 +1892,92 @@ export default function YAMLVisualizer({
                   onToggle={() => setIsStatsPanelExpanded(!isStatsPanelExpanded)}
                 />
               )}
+              {queryState && searchMode !== 'text' && (
+                <QueryResultsPanel
+                  language={searchMode}
+                  results={queryState.results}
+                  error={queryState.error}
+                  isOpen={isQueryPanelOpen}
+                  onToggle={() => setIsQueryPanelOpen(!isQueryPanelOpen)}
+                  onSelect={handlePathSelect}
+                />
+              )}
+              {showReplacePanel && (
+                <FindReplacePanel
+                  initialQuery={searchMode === 'text' ? searchQuery : ''}
+                  isOpen={isReplacePanelOpen}
+                  onToggle={() => setIsReplacePanelOpen(!isReplacePanelOpen)}
+                  onClose={() => setShowReplacePanel(false)}
+                  findMatches={findReplaceMatches}
+                  onApply={handleReplace}
+                  onSelect={handlePathSelect}
+                />
+              )}
+              {(schema || kubernetesResource || isCompose || isWorkflow) && (
+                <ProblemsPanel
+                  problems={problems}
+                  isOpen={isProblemsPanelOpen}
+                  onToggle={() => setIsProblemsPanelOpen(!isProblemsPanelOpen)}
+                  onSelect={handleProblemSelect}
+                />
+              )}
+              {workflowGraph && (
+                <WorkflowGraphPanel
+                  graph={workflowGraph}
+                  isOpen={isWorkflowGraphOpen}
+                  onToggle={() => setIsWorkflowGraphOpen(!isWorkflowGraphOpen)}
+                  onSelect={handlePathSelect}
+                />
+              )}
+              {compareText !== null && (
+                <DiffPanel
+                  entries={diffEntries}
+                  compareName={compareName}
+                  identityKey={diffIdentityKey}
+                  onIdentityKeyChange={setDiffIdentityKey}
+                  isOpen={isDiffPanelOpen}
+                  onToggle={() => setIsDiffPanelOpen(!isDiffPanelOpen)}
+                  onSelect={handleDiffSelect}
+                  onClose={handleCompareClose}
+                  onRestore={isComparingSnapshot ? handleSnapshotEntryRestore : undefined}
+                />
+              )}
+              {mergeSession && (
+                <MergePanel
+                  conflicts={mergeSession.conflicts}
+                  resolutions={mergeResolutions}
+                  theirsName={mergeSession.theirsName}
+                  appliedCount={mergeSession.appliedCount}
+                  isOpen={isMergePanelOpen}
+                  onToggle={() => setIsMergePanelOpen(!isMergePanelOpen)}
+                  onSelect={handleConflictSelect}
+                  onResolve={handleResolveConflict}
+                  onFinish={handleMergeFinish}
+                />
+              )}
               <YAMLForm 
                 ref={formRef}
                 data={data} 
                 onChange={onDataChange}
-                searchQuery={searchQuery}
+                expanded={expandedPaths}
+                onExpandedChange={setExpandedPaths}
+                searchQuery={searchMode === 'text' ? searchQuery : ''}
+                queryMatches={queryMatches}
                 onMatchCountChange={setMatchCount}
                 commentsMap={commentsMap}
                 highlightedPath={highlightedPath}
-                onLocatePath={(path) => {
-                  editorRef.current?.locatePath(path)
-                }}
+                onFocusPath={setFocusedPath}
+                onLocatePath={compareText === null ? locatePathInEditor : undefined}
+                problemsMap={problemsMap}
+                schema={schema ?? undefined}
+                diffLookup={compareText !== null ? diffLookup : undefined}
+                mergeConflicts={mergeConflicts}
+                onResolveConflict={handleResolveConflict}
+                anchorLookup={anchorLookup}
+                onNavigateToPath={highlightPath}
+                tagLookup={tagLookup}
+                onTagChange={handleTagChange}
+                onBulkChange={handleBulkChange}
               />
             </div>
           </div>
@@ -0,0 +1,79 @@
+import { createContext, useContext, useEffect, useId, useMemo, useRef, ReactNode } from 'react'
+
+// 命令面板中的一条命令
+export interface Command {
+  id: string
+  title: string
+  // 分组名称，如「文件」「编辑」「节点」，显示在标题前并参与搜索
+  category?: string
+  // 快捷键说明，只用于显示，如 "Ctrl+F"
+  keybinding?: string
+  // 额外的搜索关键字（如英文名称），不显示
+  keywords?: string
+  disabled?: boolean
+  run: () => void
+}
+
+interface CommandRegistry {
+  register: (id: string, getCommands: () => Command[]) => void
+  unregister: (id: string) => void
+  getCommands: () => Command[]
+}
+
+const CommandContext = createContext<CommandRegistry | undefined>(undefined)
+
+// 命令注册表：各功能通过 useRegisterCommands 注册命令，命令面板打开时读取当前所有命令。
+// 嵌套的 CommandProvider 作为一个作用域（如每个标签页一个），只在 active 时把自己的命令提供给上层
+export function CommandProvider({ children, active = true }: { children: ReactNode; active?: boolean }) {
+  const parent = useContext(CommandContext)
+  const sourcesRef = useRef<Map<string, () => Command[]>>(new Map())
+  const activeRef = useRef(active)
+  activeRef.current = active
+  const scopeId = useId()
+
+  const registry = useMemo<CommandRegistry>(() => ({
+    register: (id, getCommands) => {
+      sourcesRef.current.set(id, getCommands)
+    },
+    unregister: (id) => {
+      sourcesRef.current.delete(id)
+    },
+    getCommands: () => activeRef.current
+      ? Array.from(sourcesRef.current.values()).flatMap(getCommands => getCommands())
+      : [],
+  }), [])
+
+  useEffect(() => {
+    if (!parent) return
+    parent.register(scopeId, registry.getCommands)
+    return () => parent.unregister(scopeId)
+  }, [parent, scopeId, registry])
+
+  return (
+    <CommandContext.Provider value={registry}>
+      {children}
+    </CommandContext.Provider>
+  )
+}
+
+// 注册一组命令，组件卸载时自动移除；命令列表每次渲染都会更新，不需要 memo
+export function useRegisterCommands(commands: Command[]) {
+  const registry = useContext(CommandContext)
+  const commandsRef = useRef(commands)
+  commandsRef.current = commands
+  const id = useId()
+
+  useEffect(() => {
+    if (!registry) return
+    registry.register(id, () => commandsRef.current)
+    return () => registry.unregister(id)
+  }, [registry, id])
+}
+
+export function useCommandRegistry() {
+  const context = useContext(CommandContext)
+  if (context === undefined) {
+    throw new Error('useCommandRegistry must be used within a CommandProvider')
+  }
+  return context
+}
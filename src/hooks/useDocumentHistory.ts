@@ -0,0 +1,88 @@
+import { useState, useCallback, useRef, useEffect } from 'react'
+
+// 历史记录的来源，用于合并连续编辑和显示提示
+export type HistorySource = 'form' | 'editor' | 'sort' | 'template' | 'load' | 'reset' | 'merge' | 'snapshot' | 'bulk' | 'replace'
+
+interface HistoryEntry {
+  text: string
+  source: HistorySource
+  timestamp: number
+}
+
+export const HISTORY_LIMIT_OPTIONS = [20, 50, 100, 200]
+export const DEFAULT_HISTORY_LIMIT = 50
+
+// 同一来源在该时间窗口内的连续编辑（如连续输入）合并为一条记录
+const COALESCE_WINDOW = 1000
+const COALESCIBLE_SOURCES: HistorySource[] = ['form', 'editor']
+
+// 文档级撤销/重做历史：以 YAML 文本（含注释）作为文档状态
+export function useDocumentHistory(limit: number = DEFAULT_HISTORY_LIMIT) {
+  const pastRef = useRef<HistoryEntry[]>([])
+  const futureRef = useRef<HistoryEntry[]>([])
+  const presentRef = useRef<HistoryEntry>({ text: '', source: 'reset', timestamp: 0 })
+  const limitRef = useRef(limit)
+  const [, setVersion] = useState(0) // 用于在历史变化时触发重新渲染
+
+  const notify = useCallback(() => setVersion(v => v + 1), [])
+
+  // 历史深度变化时裁剪旧记录
+  useEffect(() => {
+    limitRef.current = limit
+    if (pastRef.current.length > limit) {
+      pastRef.current = pastRef.current.slice(pastRef.current.length - limit)
+      notify()
+    }
+  }, [limit, notify])
+
+  // 记录新的文档状态
+  const record = useCallback((text: string, source: HistorySource) => {
+    const present = presentRef.current
+    if (present.text === text) return
+
+    const now = Date.now()
+    const canCoalesce = COALESCIBLE_SOURCES.includes(source)
+      && present.source === source
+      && now - present.timestamp < COALESCE_WINDOW
+      && pastRef.current.length > 0
+
+    if (!canCoalesce) {
+      pastRef.current.push(present)
+      if (pastRef.current.length > limitRef.current) {
+        pastRef.current.shift()
+      }
+    }
+    presentRef.current = { text, source, timestamp: now }
+    futureRef.current = []
+    notify()
+  }, [notify])
+
+  // 撤销：返回需要恢复的文本，没有可撤销的记录时返回 null
+  const undo = useCallback((): string | null => {
+    const previous = pastRef.current.pop()
+    if (!previous) return null
+    futureRef.current.push(presentRef.current)
+    // 时间戳置零，避免下一次编辑被合并到恢复后的状态中
+    presentRef.current = { ...previous, timestamp: 0 }
+    notify()
+    return previous.text
+  }, [notify])
+
+  // 重做：返回需要恢复的文本，没有可重做的记录时返回 null
+  const redo = useCallback((): string | null => {
+    const next = futureRef.current.pop()
+    if (!next) return null
+    pastRef.current.push(presentRef.current)
+    presentRef.current = { ...next, timestamp: 0 }
+    notify()
+    return next.text
+  }, [notify])
+
+  return {
+    record,
+    undo,
+    redo,
+    canUndo: pastRef.current.length > 0,
+    canRedo: futureRef.current.length > 0,
+  }
+}
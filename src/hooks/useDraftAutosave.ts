@@ -0,0 +1,28 @@
+import { useState, useEffect } from 'react'
+import { saveDraft, deleteDraft, type Draft } from '../utils/drafts'
+
+export type DraftContent = Omit<Draft, 'id' | 'updatedAt'>
+
+// 停止编辑后多久写入草稿
+const AUTOSAVE_DELAY = 1000
+
+// 在后台把有未保存修改的文档自动保存为草稿（IndexedDB），没有未保存修改时删除对应草稿；
+// 返回最近一次写入失败的原因，写入成功后清空
+export function useDraftAutosave(draftId: string | undefined, content: DraftContent | null): string {
+  const [error, setError] = useState('')
+
+  useEffect(() => {
+    if (!draftId) return
+    const timeoutId = window.setTimeout(() => {
+      const request = content
+        ? saveDraft({ ...content, id: draftId, updatedAt: Date.now() })
+        : deleteDraft(draftId)
+      request
+        .then(() => setError(''))
+        .catch(error => setError(`自动保存草稿失败: ${error instanceof Error ? error.message : '未知错误'}`))
+    }, AUTOSAVE_DELAY)
+    return () => clearTimeout(timeoutId)
+  }, [draftId, content])
+
+  return error
+}
@@ -0,0 +1,72 @@
+import { useState, useEffect, useRef, useCallback } from 'react'
+import { createSnapshot, type SnapshotTrigger } from '../utils/snapshots'
+
+// 定时快照的间隔（分钟），0 表示关闭
+export const SNAPSHOT_INTERVAL_OPTIONS = [0, 5, 10, 30]
+export const DEFAULT_SNAPSHOT_INTERVAL = 10
+const SNAPSHOT_INTERVAL_STORAGE_KEY = 'yameilo-snapshot-interval'
+
+function loadSnapshotInterval(): number {
+  const saved = parseInt(localStorage.getItem(SNAPSHOT_INTERVAL_STORAGE_KEY) || '')
+  return SNAPSHOT_INTERVAL_OPTIONS.includes(saved) ? saved : DEFAULT_SNAPSHOT_INTERVAL
+}
+
+// 文档的版本快照：提供手动/按事件创建快照的方法，并按设定的间隔定时创建（内容未变化时跳过）
+export function useSnapshots(documentId: string | undefined, text: string, fileName: string) {
+  const [interval, setIntervalMinutes] = useState(loadSnapshotInterval)
+  const [version, setVersion] = useState(0) // 快照列表变化时递增，供时间线刷新
+  const [error, setError] = useState('') // 最近一次创建快照失败的原因
+  const textRef = useRef(text)
+  const fileNameRef = useRef(fileName)
+
+  useEffect(() => {
+    textRef.current = text
+    fileNameRef.current = fileName
+  }, [text, fileName])
+
+  // 创建快照，默认使用当前文本和文件名；空文档不创建自动快照
+  const takeSnapshot = useCallback(async (
+    trigger: SnapshotTrigger,
+    options: { text?: string; fileName?: string; name?: string } = {}
+  ) => {
+    if (!documentId) return
+    const snapshotText = options.text ?? textRef.current
+    if (trigger !== 'manual' && !snapshotText.trim()) return
+    try {
+      const snapshot = await createSnapshot({
+        documentId,
+        fileName: options.fileName ?? fileNameRef.current,
+        text: snapshotText,
+        trigger,
+        name: options.name?.trim() || '',
+      })
+      if (snapshot) {
+        setVersion(v => v + 1)
+      }
+      setError('')
+    } catch (error) {
+      setError(`创建快照失败: ${error instanceof Error ? error.message : '未知错误'}`)
+    }
+  }, [documentId])
+
+  useEffect(() => {
+    if (!documentId || interval === 0) return
+    const timerId = window.setInterval(() => {
+      takeSnapshot('interval')
+    }, interval * 60 * 1000)
+    return () => clearInterval(timerId)
+  }, [documentId, interval, takeSnapshot])
+
+  const changeInterval = useCallback((minutes: number) => {
+    setIntervalMinutes(minutes)
+    localStorage.setItem(SNAPSHOT_INTERVAL_STORAGE_KEY, String(minutes))
+  }, [])
+
+  return {
+    takeSnapshot,
+    interval,
+    setInterval: changeInterval,
+    version,
+    error,
+  }
+}
@@ -0,0 +1,134 @@
+import { useState, useCallback, useEffect, useRef } from 'react'
+import type { DraftViewState } from '../utils/drafts'
+import { pruneClosedSnapshots } from '../utils/snapshots'
+
+// 单个标签页的文档状态（编辑器、表单等视图状态由各标签页的 YAMLVisualizer 实例自行保存）
+export interface EditorTab {
+  id: string
+  fileName: string
+  data: any
+  // 当前 YAML 文本（含注释），用于刷新后恢复
+  text: string
+  // 最近一次加载或保存时的文本，与 text 不同即为有未保存的修改
+  savedText: string
+  // 挂载时恢复的视图状态（从草稿恢复时使用，不持久化）
+  viewState?: DraftViewState
+}
+
+type PersistedTab = Pick<EditorTab, 'id' | 'fileName' | 'text' | 'savedText'>
+
+const TABS_STORAGE_KEY = 'yameilo-tabs'
+const PERSIST_DELAY = 500
+
+let tabCounter = 0
+
+function createTab(initial: Partial<Omit<EditorTab, 'id'>> = {}): EditorTab {
+  tabCounter++
+  return { id: `tab-${Date.now()}-${tabCounter}`, fileName: '', data: {}, text: '', savedText: '', ...initial }
+}
+
+// 从 localStorage 恢复上次打开的标签页（数据由各标签页挂载时从文本解析）
+function loadTabs(): { tabs: EditorTab[]; activeTabId: string } {
+  try {
+    const saved = JSON.parse(localStorage.getItem(TABS_STORAGE_KEY) || 'null')
+    if (saved && Array.isArray(saved.tabs) && saved.tabs.length > 0) {
+      const tabs: EditorTab[] = saved.tabs.map((tab: PersistedTab) => ({
+        id: String(tab.id),
+        fileName: tab.fileName || '',
+        data: {},
+        text: tab.text || '',
+        savedText: tab.savedText || '',
+      }))
+      const activeTabId = tabs.some(tab => tab.id === saved.activeTabId) ? saved.activeTabId : tabs[0].id
+      return { tabs, activeTabId }
+    }
+  } catch (error) {
+    console.warn('Failed to restore tabs:', error)
+  }
+  const tab = createTab()
+  return { tabs: [tab], activeTabId: tab.id }
+}
+
+export function getTabTitle(tab: EditorTab): string {
+  return tab.fileName || '未命名文件.yaml'
+}
+
+export function isTabDirty(tab: EditorTab): boolean {
+  return tab.text !== tab.savedText
+}
+
+// 多文件标签页：增删切换标签页，并持久化到 localStorage
+export function useTabs() {
+  const [initial] = useState(loadTabs)
+  const [tabs, setTabs] = useState<EditorTab[]>(initial.tabs)
+  const [activeTabId, setActiveTabId] = useState(initial.activeTabId)
+  // 写入失败时只提示一次，再次写入成功后恢复提示
+  const persistFailedRef = useRef(false)
+
+  // 启动时清理上次会话中已关闭的标签页留下的自动快照
+  useEffect(() => {
+    pruneClosedSnapshots(initial.tabs.map(tab => tab.id))
+      .catch(error => console.warn('Failed to prune snapshots:', error))
+  }, [initial])
+
+  // 延迟写入，避免连续输入时频繁序列化所有文档
+  useEffect(() => {
+    const timeoutId = window.setTimeout(() => {
+      try {
+        const persisted: PersistedTab[] = tabs.map(({ id, fileName, text, savedText }) => ({ id, fileName, text, savedText }))
+        localStorage.setItem(TABS_STORAGE_KEY, JSON.stringify({ tabs: persisted, activeTabId }))
+        persistFailedRef.current = false
+      } catch (error) {
+        if (!persistFailedRef.current) {
+          persistFailedRef.current = true
+          alert(`保存标签页失败，刷新后可能无法恢复: ${error instanceof Error ? error.message : '未知错误'}`)
+        }
+      }
+    }, PERSIST_DELAY)
+    return () => clearTimeout(timeoutId)
+  }, [tabs, activeTabId])
+
+  // 更新标签页的部分字段（没有变化时保持原数组，避免无意义的重新渲染）
+  const updateTab = useCallback((id: string, patch: Partial<Omit<EditorTab, 'id'>>) => {
+    setTabs(prev => {
+      const index = prev.findIndex(tab => tab.id === id)
+      if (index === -1) return prev
+      const tab = prev[index]
+      const changed = (Object.keys(patch) as Array<keyof typeof patch>).some(key => tab[key] !== patch[key])
+      if (!changed) return prev
+      const next = [...prev]
+      next[index] = { ...tab, ...patch }
+      return next
+    })
+  }, [])
+
+  const addTab = useCallback((initial?: Partial<Omit<EditorTab, 'id'>>) => {
+    const tab = createTab(initial)
+    setTabs(prev => [...prev, tab])
+    setActiveTabId(tab.id)
+  }, [])
+
+  // 关闭标签页后激活相邻的标签页；关闭最后一个标签页时新建一个空白标签页
+  const closeTab = useCallback((id: string) => {
+    const index = tabs.findIndex(tab => tab.id === id)
+    if (index === -1) return
+    const remaining = tabs.filter(tab => tab.id !== id)
+    const replacement = remaining.length === 0 ? createTab() : null
+    setTabs(prev => {
+      const next = prev.filter(tab => tab.id !== id)
+      return replacement ? [replacement] : next
+    })
+    if (activeTabId === id) {
+      setActiveTabId(replacement ? replacement.id : remaining[Math.min(index, remaining.length - 1)].id)
+    }
+  }, [tabs, activeTabId])
+
+  return {
+    tabs,
+    activeTabId,
+    setActiveTabId,
+    updateTab,
+    addTab,
+    closeTab,
+  }
+}
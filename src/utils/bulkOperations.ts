@@ -0,0 +1,151 @@
+import { appendPath, formatPath, getAncestorPaths, getValueAtPath, setValueAtPath, deleteValueAtPath, pointerToSegments, type PathSegment } from './path'
+
+// 批量重命名的结果：renamed 为成功重命名的键数，skipped 为因新键名与同级键冲突而跳过的键
+export interface BulkRenameResult {
+  data: any
+  renamed: number
+  skipped: string[]
+}
+
+interface SelectedNode {
+  path: string
+  segments: PathSegment[]
+}
+
+function isPlainObject(value: any): boolean {
+  return typeof value === 'object' && value !== null && !Array.isArray(value)
+}
+
+// 按文档倒序列出选中且存在的节点（先处理后面的数组项和更深的节点，删除时前面的索引和祖先路径不受影响）
+function resolveSelection(data: any, paths: Iterable<string>): SelectedNode[] {
+  const selected = new Set(paths)
+  const nodes: SelectedNode[] = []
+  const walk = (value: any, segments: PathSegment[]) => {
+    const path = formatPath(segments)
+    if (segments.length > 0 && selected.has(path)) {
+      nodes.push({ path, segments })
+    }
+    if (typeof value !== 'object' || value === null) return
+    if (Array.isArray(value)) {
+      value.forEach((item, index) => walk(item, [...segments, index]))
+    } else {
+      Object.keys(value).forEach(key => walk(value[key], [...segments, key]))
+    }
+  }
+  walk(data, [])
+  return nodes.reverse()
+}
+
+// 祖先已被选中的节点随祖先一起处理，删除、移动时只保留最外层的选中节点
+export function getTopLevelSelection(paths: Iterable<string>): string[] {
+  const selected = new Set(paths)
+  return Array.from(selected).filter(path => !getAncestorPaths(path).some(ancestor => selected.has(ancestor)))
+}
+
+// 批量删除
+export function bulkDelete(data: any, paths: Iterable<string>): any {
+  return resolveSelection(data, getTopLevelSelection(paths))
+    .reduce((current, node) => deleteValueAtPath(current, node.segments), data)
+}
+
+// 批量修改值（如批量转换类型）：convert 接收原值返回新值
+export function bulkUpdate(data: any, paths: Iterable<string>, convert: (value: any) => any): any {
+  return resolveSelection(data, paths)
+    .reduce((current, node) => setValueAtPath(current, node.segments, convert(getValueAtPath(current, node.segments))), data)
+}
+
+// 可以作为移动目标的对象/数组路径：不能是选中的节点或其后代
+export function getMoveTargets(data: any, paths: Iterable<string>): string[] {
+  const selected = new Set(paths)
+  const targets: string[] = []
+  const walk = (value: any, path: string) => {
+    if (typeof value !== 'object' || value === null) return
+    if (selected.has(path) || getAncestorPaths(path).some(ancestor => selected.has(ancestor))) return
+    targets.push(path)
+    if (Array.isArray(value)) {
+      value.forEach((item, index) => walk(item, appendPath(path, index)))
+    } else {
+      Object.keys(value).forEach(key => walk(value[key], appendPath(path, key)))
+    }
+  }
+  walk(data, '')
+  return targets
+}
+
+// 在同级键中为移动进来的键生成不冲突的键名：key_copy、key_copy2……
+function getUniqueKey(key: string, taken: Set<string>): string {
+  if (!taken.has(key)) return key
+  let candidate = `${key}_copy`
+  let counter = 2
+  while (taken.has(candidate)) {
+    candidate = `${key}_copy${counter}`
+    counter++
+  }
+  return candidate
+}
+
+// 把选中的节点移动到目标对象或数组的末尾：移入数组时对象中的键值对保留键名（单键映射），
+// 移入对象时数组项以原索引作为键名，键名冲突时加上 _copy 后缀；已在目标中的直接子项保持不动
+export function bulkMove(data: any, paths: Iterable<string>, targetPath: string): any {
+  const targetSegments = pointerToSegments(targetPath, data)
+  const target = getValueAtPath(data, targetSegments)
+  if (typeof target !== 'object' || target === null) return data
+
+  const nodes = resolveSelection(data, getTopLevelSelection(paths))
+    .filter(node => formatPath(node.segments.slice(0, -1)) !== targetPath)
+  if (nodes.length === 0) return data
+  const inDocumentOrder = [...nodes].reverse()
+
+  // 先追加到目标末尾（不影响源节点的路径），再按文档倒序删除源节点
+  let nextTarget: any
+  if (Array.isArray(target)) {
+    nextTarget = [
+      ...target,
+      ...inDocumentOrder.map(node => {
+        const last = node.segments[node.segments.length - 1]
+        const value = getValueAtPath(data, node.segments)
+        return typeof last === 'number' ? value : { [last]: value }
+      }),
+    ]
+  } else {
+    nextTarget = { ...target }
+    const taken = new Set(Object.keys(target))
+    inDocumentOrder.forEach(node => {
+      const key = getUniqueKey(String(node.segments[node.segments.length - 1]), taken)
+      taken.add(key)
+      nextTarget[key] = getValueAtPath(data, node.segments)
+    })
+  }
+
+  return nodes.reduce((current, node) => deleteValueAtPath(current, node.segments), setValueAtPath(data, targetSegments, nextTarget))
+}
+
+// 按正则批量重命名选中的对象键（数组项没有键名，忽略），保持键的顺序；新键名与同级键冲突时跳过
+export function bulkRename(data: any, paths: Iterable<string>, pattern: RegExp, replacement: string): BulkRenameResult {
+  const result: BulkRenameResult = { data, renamed: 0, skipped: [] }
+  const nodes = resolveSelection(data, paths).filter(node => typeof node.segments[node.segments.length - 1] === 'string')
+
+  nodes.forEach(node => {
+    const parentSegments = node.segments.slice(0, -1)
+    const parent = getValueAtPath(result.data, parentSegments)
+    const key = node.segments[node.segments.length - 1] as string
+    if (!isPlainObject(parent) || !(key in parent)) return
+
+    pattern.lastIndex = 0
+    const newKey = key.replace(pattern, replacement)
+    if (newKey === key) return
+    if (!newKey || newKey in parent) {
+      result.skipped.push(node.path)
+      return
+    }
+
+    const renamed: Record<string, any> = {}
+    Object.keys(parent).forEach(existing => {
+      renamed[existing === key ? newKey : existing] = parent[existing]
+    })
+    result.data = setValueAtPath(result.data, parentSegments, renamed)
+    result.renamed++
+  })
+
+  return result
+}
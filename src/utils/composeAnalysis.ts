@@ -0,0 +1,270 @@
+import { formatPath, type PathSegment } from './path'
+import type { Problem, ProblemSeverity } from './problems'
+
+// Docker Compose 分析：重复的宿主机端口、引用未定义的服务/网络/数据卷、未使用的命名数据卷、
+// 端口和数据卷短语法格式错误。含变量插值（${VAR}）的值无法静态确定，跳过格式检查
+
+// 解析后的端口映射，端口范围展开前的形式
+interface PortMapping {
+  hostIp: string | null
+  hostPorts: [number, number] | null
+  containerPorts: [number, number]
+  protocol: string
+}
+
+// 解析后的数据卷挂载
+interface VolumeMount {
+  // 命名数据卷的名称；绑定挂载和匿名数据卷为 null
+  volumeName: string | null
+}
+
+const PROTOCOLS = ['tcp', 'udp', 'sctp']
+const VOLUME_MODES = ['ro', 'rw', 'z', 'Z', 'consistent', 'cached', 'delegated', 'nocopy', 'shared', 'slave', 'private', 'rshared', 'rslave', 'rprivate']
+// 展开端口范围时的上限，避免超大范围拖慢检查
+const MAX_EXPANDED_PORTS = 1024
+
+function createProblem(segments: PathSegment[], message: string, severity: ProblemSeverity = 'error'): Problem {
+  return { path: formatPath(segments), segments, message, severity, source: 'compose' }
+}
+
+function isPlainObject(value: any): value is Record<string, any> {
+  return !!value && typeof value === 'object' && !Array.isArray(value)
+}
+
+function hasInterpolation(value: string): boolean {
+  return value.includes('$')
+}
+
+// 顶层有 services 映射时识别为 Docker Compose 文件
+export function isComposeDocument(data: any): boolean {
+  return isPlainObject(data) && isPlainObject(data.services)
+}
+
+// 解析端口或端口范围（如 "8080"、"8000-8010"），格式错误时返回 null
+function parsePortRange(value: string): [number, number] | null {
+  const match = /^(\d+)(?:-(\d+))?$/.exec(value)
+  if (!match) return null
+  const start = Number(match[1])
+  const end = match[2] === undefined ? start : Number(match[2])
+  if (start < 1 || end > 65535 || start > end) return null
+  return [start, end]
+}
+
+// 解析端口短语法 [HOST_IP:][HOST_PORT[-RANGE]:]CONTAINER_PORT[-RANGE][/PROTOCOL]，格式错误时返回错误描述
+function parsePortShortSyntax(value: string): PortMapping | string {
+  let rest = value
+  let protocol = 'tcp'
+  const slash = rest.lastIndexOf('/')
+  if (slash !== -1) {
+    protocol = rest.slice(slash + 1)
+    rest = rest.slice(0, slash)
+    if (!PROTOCOLS.includes(protocol)) return `不支持的协议 "${protocol}"`
+  }
+
+  // IPv6 宿主机地址写在方括号中，如 [::1]:8080:80
+  let hostIp: string | null = null
+  const ipv6 = /^\[([^\]]+)\]:(.*)$/.exec(rest)
+  if (ipv6) {
+    hostIp = ipv6[1]
+    rest = ipv6[2]
+  }
+  const parts = rest.split(':')
+  if (hostIp !== null && parts.length !== 2) return '端口格式应为 [HOST_IP:]HOST_PORT:CONTAINER_PORT'
+  if (parts.length > 3) return '端口格式应为 [HOST_IP:][HOST_PORT:]CONTAINER_PORT[/PROTOCOL]'
+  if (parts.length === 3) {
+    hostIp = parts.shift()!
+    if (!hostIp) return '宿主机地址不能为空'
+  }
+
+  const containerPorts = parsePortRange(parts[parts.length - 1])
+  if (!containerPorts) return `容器端口 "${parts[parts.length - 1]}" 无效，应为 1-65535 之间的端口或端口范围`
+  let hostPorts: [number, number] | null = null
+  if (parts.length === 2 && parts[0] !== '') {
+    hostPorts = parsePortRange(parts[0])
+    if (!hostPorts) return `宿主机端口 "${parts[0]}" 无效，应为 1-65535 之间的端口或端口范围`
+    const hostCount = hostPorts[1] - hostPorts[0]
+    const containerCount = containerPorts[1] - containerPorts[0]
+    if (containerCount > 0 && hostCount !== containerCount) return '宿主机端口范围与容器端口范围的长度不一致'
+  }
+  return { hostIp, hostPorts, containerPorts, protocol }
+}
+
+// 解析端口长语法 { target, published, host_ip, protocol }
+function parsePortLongSyntax(value: Record<string, any>): PortMapping | string {
+  const target = parsePortRange(String(value.target ?? ''))
+  if (!target) return 'target 应为 1-65535 之间的容器端口'
+  const protocol = value.protocol === undefined ? 'tcp' : String(value.protocol)
+  if (!PROTOCOLS.includes(protocol)) return `不支持的协议 "${protocol}"`
+  let hostPorts: [number, number] | null = null
+  if (value.published !== undefined && value.published !== null && value.published !== '') {
+    if (hasInterpolation(String(value.published))) {
+      return { hostIp: null, hostPorts: null, containerPorts: target, protocol }
+    }
+    hostPorts = parsePortRange(String(value.published))
+    if (!hostPorts) return `published 端口 "${value.published}" 无效`
+  }
+  return { hostIp: typeof value.host_ip === 'string' ? value.host_ip : null, hostPorts, containerPorts: target, protocol }
+}
+
+// 绑定挂载的来源是路径（绝对、相对或家目录），其余视为命名数据卷
+function isHostPath(source: string): boolean {
+  return /^(\/|\.|~|[A-Za-z]:[\\/]|\\\\)/.test(source)
+}
+
+// 解析数据卷短语法 [SOURCE:]TARGET[:MODE]，格式错误时返回错误描述
+function parseVolumeShortSyntax(value: string): VolumeMount | string {
+  // Windows 盘符路径（C:\data）中的冒号不是分隔符；"v:/data" 这类写法按单字母命名数据卷处理
+  const parts = value.split(':')
+  if (/^[A-Za-z]:[\\/]/.test(value) && (value[2] === '\\' || parts.length > 3)) {
+    parts.splice(0, 2, `${parts[0]}:${parts[1]}`)
+  }
+  if (parts.length > 3 || parts.some(part => part === '')) return '数据卷格式应为 [SOURCE:]TARGET[:MODE]'
+
+  if (parts.length === 1) {
+    if (!parts[0].startsWith('/')) return `匿名数据卷的容器路径 "${parts[0]}" 应为绝对路径`
+    return { volumeName: null }
+  }
+  const [source, target, mode] = parts
+  if (!target.startsWith('/') && !/^[A-Za-z]:[\\/]/.test(target)) {
+    return `容器路径 "${target}" 应为绝对路径`
+  }
+  if (mode !== undefined) {
+    const invalid = mode.split(',').find(option => !VOLUME_MODES.includes(option))
+    if (invalid !== undefined) return `不支持的挂载选项 "${invalid}"`
+  }
+  return { volumeName: isHostPath(source) ? null : source }
+}
+
+// 服务的 depends_on 和 networks 可以是名称数组，也可以是以名称为键的映射；返回名称及其路径段
+function getNameEntries(value: any): Array<[string, PathSegment]> {
+  if (Array.isArray(value)) {
+    return value
+      .map((name, index) => [name, index] as [any, PathSegment])
+      .filter(([name]) => typeof name === 'string')
+  }
+  if (isPlainObject(value)) {
+    return Object.keys(value).map(name => [name, name])
+  }
+  return []
+}
+
+function expandPorts([start, end]: [number, number]): number[] {
+  const ports: number[] = []
+  for (let port = start; port <= end && ports.length < MAX_EXPANDED_PORTS; port++) {
+    ports.push(port)
+  }
+  return ports
+}
+
+function isWildcardIp(ip: string | null): boolean {
+  return ip === null || ip === '0.0.0.0' || ip === '::'
+}
+
+// 分析 Docker Compose 文件，返回问题列表；不是 Compose 文件时返回空列表
+export function analyzeCompose(data: any): Problem[] {
+  if (!isComposeDocument(data)) return []
+  const problems: Problem[] = []
+  const services: Record<string, any> = data.services
+  const definedNetworks = new Set(isPlainObject(data.networks) ? Object.keys(data.networks) : [])
+  const definedVolumes = new Set(isPlainObject(data.volumes) ? Object.keys(data.volumes) : [])
+  const usedVolumes = new Set<string>()
+  // 已占用的宿主机端口：协议/端口 → 占用者
+  const boundPorts = new Map<string, Array<{ service: string; hostIp: string | null }>>()
+
+  const checkVolumeReference = (name: string, segments: PathSegment[]) => {
+    usedVolumes.add(name)
+    if (!definedVolumes.has(name)) {
+      problems.push(createProblem(segments, `数据卷 "${name}" 未在顶层 volumes 中定义`))
+    }
+  }
+
+  Object.entries(services).forEach(([serviceName, service]) => {
+    if (!isPlainObject(service)) return
+    const servicePath: PathSegment[] = ['services', serviceName]
+
+    getNameEntries(service.depends_on).forEach(([name, segment]) => {
+      const segments = [...servicePath, 'depends_on', segment]
+      if (name === serviceName) {
+        problems.push(createProblem(segments, `服务 "${serviceName}" 不能依赖自身`))
+      } else if (!Object.prototype.hasOwnProperty.call(services, name)) {
+        problems.push(createProblem(segments, `依赖的服务 "${name}" 未定义`))
+      }
+    })
+
+    getNameEntries(service.networks).forEach(([name, segment]) => {
+      if (name !== 'default' && !definedNetworks.has(name)) {
+        problems.push(createProblem([...servicePath, 'networks', segment], `网络 "${name}" 未在顶层 networks 中定义`))
+      }
+    })
+
+    if (Array.isArray(service.volumes)) {
+      service.volumes.forEach((volume: any, index: number) => {
+        const segments = [...servicePath, 'volumes', index]
+        if (typeof volume === 'string') {
+          if (hasInterpolation(volume)) return
+          const parsed = parseVolumeShortSyntax(volume)
+          if (typeof parsed === 'string') {
+            problems.push(createProblem(segments, parsed))
+          } else if (parsed.volumeName) {
+            checkVolumeReference(parsed.volumeName, segments)
+          }
+        } else if (isPlainObject(volume)) {
+          if (typeof volume.target !== 'string' || !volume.target) {
+            problems.push(createProblem(segments, '缺少容器路径 target'))
+          }
+          if ((volume.type === undefined || volume.type === 'volume') && typeof volume.source === 'string' && volume.source) {
+            checkVolumeReference(volume.source, [...segments, 'source'])
+          }
+        }
+      })
+    }
+
+    if (Array.isArray(service.ports)) {
+      service.ports.forEach((port: any, index: number) => {
+        const segments = [...servicePath, 'ports', index]
+        let parsed: PortMapping | string
+        if (typeof port === 'number') {
+          parsed = parsePortShortSyntax(String(port))
+        } else if (typeof port === 'string') {
+          if (hasInterpolation(port)) return
+          parsed = parsePortShortSyntax(port)
+        } else if (isPlainObject(port)) {
+          parsed = parsePortLongSyntax(port)
+        } else {
+          parsed = '端口应为字符串、数字或对象'
+        }
+        if (typeof parsed === 'string') {
+          problems.push(createProblem(segments, parsed))
+          return
+        }
+        if (!parsed.hostPorts) return
+
+        // 同一服务内重复的端口同样会导致启动失败，因此不区分服务
+        const conflicts = new Set<string>()
+        expandPorts(parsed.hostPorts).forEach(hostPort => {
+          const key = `${parsed.protocol}/${hostPort}`
+          const bindings = boundPorts.get(key) || []
+          const conflict = bindings.find(binding =>
+            isWildcardIp(binding.hostIp) || isWildcardIp(parsed.hostIp) || binding.hostIp === parsed.hostIp
+          )
+          if (conflict) {
+            conflicts.add(`${hostPort}（服务 "${conflict.service}"）`)
+          }
+          bindings.push({ service: serviceName, hostIp: parsed.hostIp })
+          boundPorts.set(key, bindings)
+        })
+        if (conflicts.size > 0) {
+          problems.push(createProblem(segments, `宿主机端口已被占用: ${Array.from(conflicts).join(', ')}`))
+        }
+      })
+    }
+  })
+
+  definedVolumes.forEach(name => {
+    if (!usedVolumes.has(name)) {
+      problems.push(createProblem(['volumes', name], `数据卷 "${name}" 未被任何服务使用`, 'warning'))
+    }
+  })
+
+  return problems
+}
@@ -0,0 +1,45 @@
+import { DRAFT_STORE, runStoreRequest } from './localDatabase'
+import type { SearchMode } from './pathQuery'
+
+// 草稿中保存的视图状态，恢复时还原表单的展开、搜索和多文档流中选中的文档
+export interface DraftViewState {
+  expanded: string[]
+  searchQuery: string
+  // 搜索模式：文本搜索或 JSONPath / jq 查询（旧草稿中没有该字段，按文本搜索恢复）
+  searchMode?: SearchMode
+  activeDocIndex: number
+}
+
+// 自动保存的草稿，以标签页 id 作为主键
+export interface Draft {
+  id: string
+  fileName: string
+  text: string
+  viewState: DraftViewState
+  updatedAt: number
+}
+
+export async function saveDraft(draft: Draft): Promise<void> {
+  await runStoreRequest(DRAFT_STORE, 'readwrite', store => store.put(draft))
+}
+
+// 按最近修改时间倒序列出所有草稿
+export async function listDrafts(): Promise<Draft[]> {
+  const drafts = await runStoreRequest<Draft[]>(DRAFT_STORE, 'readonly', store => store.getAll())
+  return drafts.sort((a, b) => b.updatedAt - a.updatedAt)
+}
+
+export async function deleteDraft(id: string): Promise<void> {
+  await runStoreRequest(DRAFT_STORE, 'readwrite', store => store.delete(id))
+}
+
+export async function clearDrafts(): Promise<void> {
+  await runStoreRequest(DRAFT_STORE, 'readwrite', store => store.clear())
+}
+
+// 草稿时间的显示格式，如 "2024/5/1 14:03"
+export function formatDraftTime(timestamp: number): string {
+  const date = new Date(timestamp)
+  const pad = (value: number) => String(value).padStart(2, '0')
+  return `${date.getFullYear()}/${date.getMonth() + 1}/${date.getDate()} ${pad(date.getHours())}:${pad(date.getMinutes())}`
+}
@@ -0,0 +1,153 @@
+import * as YAML from 'yaml'
+import { formatPath, type PathSegment } from './path'
+
+// 替换的作用范围：键名、值或两者
+export type ReplaceScope = 'both' | 'keys' | 'values'
+
+export const REPLACE_SCOPE_LABELS: Record<ReplaceScope, string> = {
+  both: '键和值',
+  keys: '仅键名',
+  values: '仅值',
+}
+
+export interface FindReplaceOptions {
+  query: string
+  replacement: string
+  useRegex: boolean
+  caseSensitive: boolean
+  scope: ReplaceScope
+  // 限定在该子树内替换（JSON Pointer），为空时作用于整个文档
+  subtreePath: string
+}
+
+// 预览中的一处替换：conflict 为新键名与同级键冲突，不会被应用
+export interface ReplacementMatch {
+  id: string
+  path: string
+  kind: 'key' | 'value'
+  before: string
+  after: string
+  conflict: boolean
+}
+
+interface MatchTarget {
+  match: ReplacementMatch
+  scalar: YAML.Scalar
+}
+
+const MERGE_KEY = '<<'
+
+function escapeRegExp(text: string): string {
+  return text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&')
+}
+
+// 构造查找用的正则：非正则模式下按字面量匹配，替换文本中的 $ 也按字面量处理；正则无效时抛出 SyntaxError
+export function buildSearchPattern(options: FindReplaceOptions): { pattern: RegExp; replacement: string } {
+  const flags = options.caseSensitive ? 'g' : 'gi'
+  if (options.useRegex) {
+    return { pattern: new RegExp(options.query, flags), replacement: options.replacement }
+  }
+  return {
+    pattern: new RegExp(escapeRegExp(options.query), flags),
+    replacement: options.replacement.replace(/\$/g, '$$$$'),
+  }
+}
+
+function isWithinSubtree(path: string, subtreePath: string): boolean {
+  return !subtreePath || path === subtreePath || path.startsWith(`${subtreePath}/`)
+}
+
+// 替换后的标量值：数字、布尔值替换后仍是合法的同类值时保持原类型，否则变为字符串
+function toScalarValue(original: unknown, text: string): unknown {
+  if (typeof original === 'number' && text.trim() !== '' && Number.isFinite(Number(text))) return Number(text)
+  if (typeof original === 'boolean' && (text === 'true' || text === 'false')) return text === 'true'
+  return text
+}
+
+// 遍历 AST 收集所有替换位置（按文档顺序），别名引用的节点只在锚点定义处处理一次
+function collectTargets(doc: YAML.Document | null, options: FindReplaceOptions): MatchTarget[] {
+  if (!doc || !doc.contents || !options.query) return []
+  const { pattern, replacement } = buildSearchPattern(options)
+  const includeKeys = options.scope !== 'values'
+  const includeValues = options.scope !== 'keys'
+  const subtreePath = options.subtreePath.trim().replace(/\/$/, '')
+  const targets: MatchTarget[] = []
+
+  const replaceText = (text: string): string | null => {
+    pattern.lastIndex = 0
+    if (!pattern.test(text)) return null
+    pattern.lastIndex = 0
+    return text.replace(pattern, replacement)
+  }
+
+  const visitValue = (node: unknown, segments: PathSegment[]) => {
+    if (!YAML.isNode(node) || YAML.isAlias(node)) return
+    const path = formatPath(segments)
+    if (YAML.isScalar(node)) {
+      const value = (node as YAML.Scalar).value
+      if (!includeValues || value === null || typeof value === 'object' || !isWithinSubtree(path, subtreePath)) return
+      const before = String(value)
+      const after = replaceText(before)
+      if (after !== null && after !== before) {
+        targets.push({ match: { id: `value:${path}`, path, kind: 'value', before, after, conflict: false }, scalar: node as YAML.Scalar })
+      }
+      return
+    }
+    if (YAML.isSeq(node)) {
+      (node as YAML.YAMLSeq).items.forEach((item, index) => visitValue(item, [...segments, index]))
+      return
+    }
+    if (!YAML.isMap(node)) return
+
+    const pairs = (node as YAML.YAMLMap).items
+    const keyTargets: MatchTarget[] = []
+    pairs.forEach(pair => {
+      if (!YAML.isScalar(pair.key)) return
+      const keyScalar = pair.key as YAML.Scalar
+      const key = String(keyScalar.value)
+      const itemSegments = [...segments, key]
+      const itemPath = formatPath(itemSegments)
+      // 限定子树时，子树根节点自身的键名不参与替换
+      if (includeKeys && key !== MERGE_KEY && itemPath !== subtreePath && isWithinSubtree(itemPath, subtreePath)) {
+        const after = replaceText(key)
+        if (after !== null && after !== key) {
+          const target: MatchTarget = { match: { id: `key:${itemPath}`, path: itemPath, kind: 'key', before: key, after, conflict: false }, scalar: keyScalar }
+          keyTargets.push(target)
+          targets.push(target)
+        }
+      }
+      if (key !== MERGE_KEY) {
+        visitValue(pair.value, itemSegments)
+      }
+    })
+
+    // 新键名为空，或与未改名的同级键、其他改名后的键重复时标记为冲突
+    const renamedFrom = new Set(keyTargets.map(target => target.match.before))
+    const remainingKeys = new Set(pairs.filter(pair => YAML.isScalar(pair.key)).map(pair => String((pair.key as YAML.Scalar).value)).filter(key => !renamedFrom.has(key)))
+    const newKeyCounts = new Map<string, number>()
+    keyTargets.forEach(target => newKeyCounts.set(target.match.after, (newKeyCounts.get(target.match.after) ?? 0) + 1))
+    keyTargets.forEach(target => {
+      const newKey = target.match.after
+      target.match.conflict = !newKey || remainingKeys.has(newKey) || (newKeyCounts.get(newKey) ?? 0) > 1
+    })
+  }
+
+  visitValue(doc.contents, [])
+  return targets
+}
+
+// 预览：列出所有将被替换的键名和值
+export function findReplacements(doc: YAML.Document | null, options: FindReplaceOptions): ReplacementMatch[] {
+  return collectTargets(doc, options).map(target => target.match)
+}
+
+// 直接修改 AST 上的标量，保留注释、锚点、标签和引号样式；selectedIds 为空时应用全部（冲突项除外），返回实际替换的数量
+export function applyReplacements(doc: YAML.Document | null, options: FindReplaceOptions, selectedIds: Set<string> | null): number {
+  let count = 0
+  collectTargets(doc, options).forEach(({ match, scalar }) => {
+    if (match.conflict || (selectedIds && !selectedIds.has(match.id))) return
+    scalar.value = match.kind === 'key' ? match.after : toScalarValue(scalar.value, match.after)
+    count++
+  })
+  return count
+}
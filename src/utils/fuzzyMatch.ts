@@ -0,0 +1,44 @@
+// 模糊匹配：查询中的字符按顺序出现在文本中即算匹配（忽略大小写和空格），
+// 连续匹配、匹配在单词开头或文本开头时得分更高
+
+export interface FuzzyMatch {
+  score: number
+  // 文本中被匹配的字符位置，用于高亮
+  indices: number[]
+}
+
+const CONSECUTIVE_BONUS = 5
+const WORD_START_BONUS = 3
+const TEXT_START_BONUS = 2
+
+function isWordStart(text: string, index: number): boolean {
+  if (index === 0) return true
+  const previous = text[index - 1]
+  const current = text[index]
+  if (/[\s\-_./:]/.test(previous)) return true
+  // camelCase 的大写字母
+  return previous === previous.toLowerCase() && current !== current.toLowerCase()
+}
+
+export function fuzzyMatch(query: string, text: string): FuzzyMatch | null {
+  const needle = query.replace(/\s+/g, '').toLowerCase()
+  if (!needle) return { score: 0, indices: [] }
+
+  const haystack = text.toLowerCase()
+  const indices: number[] = []
+  let score = 0
+  let from = 0
+  for (const char of needle) {
+    const index = haystack.indexOf(char, from)
+    if (index === -1) return null
+    score += 1
+    if (indices.length > 0 && index === indices[indices.length - 1] + 1) score += CONSECUTIVE_BONUS
+    if (isWordStart(text, index)) score += WORD_START_BONUS
+    if (index === 0) score += TEXT_START_BONUS
+    // 跳过的字符越多得分越低
+    score -= (index - from) * 0.1
+    indices.push(index)
+    from = index + 1
+  }
+  return { score, indices }
+}
@@ -0,0 +1,147 @@
+import * as YAML from 'yaml'
+import * as TOML from '@iarna/toml'
+import * as xmljs from 'xml-js'
+
+// 支持导入的文件格式
+export type ImportFormat = 'yaml' | 'json' | 'toml' | 'xml'
+
+export const IMPORT_FORMAT_LABELS: Record<ImportFormat, string> = {
+  yaml: 'YAML',
+  json: 'JSON',
+  toml: 'TOML',
+  xml: 'XML',
+}
+
+// 文件选择框接受的扩展名
+export const IMPORT_ACCEPT = '.yaml,.yml,.json,.toml,.xml'
+
+const EXTENSION_FORMATS: Record<string, ImportFormat> = {
+  yaml: 'yaml',
+  yml: 'yaml',
+  json: 'json',
+  toml: 'toml',
+  xml: 'xml',
+}
+
+// xml-js 紧凑模式中不属于数据的特殊键
+const XML_IGNORED_KEYS = ['_declaration', '_instruction', '_comment', '_doctype']
+
+// 根据内容推断格式（扩展名未知时使用）
+function detectFormatFromContent(text: string): ImportFormat {
+  const trimmed = text.trim()
+  if (trimmed.startsWith('<')) {
+    return 'xml'
+  }
+  if (trimmed.startsWith('{') || trimmed.startsWith('[')) {
+    try {
+      JSON.parse(trimmed)
+      return 'json'
+    } catch {
+      // 可能是 TOML 的表头，如 [server]
+    }
+  }
+  // TOML 特征：key = value 或 [table] / [[array]] 表头
+  if (/^\s*[\w."'-]+\s*=/m.test(text) || /^\s*\[\[?[\w."' .-]+\]\]?\s*$/m.test(text)) {
+    try {
+      TOML.parse(text)
+      return 'toml'
+    } catch {
+      // 不是合法的 TOML，按 YAML 处理
+    }
+  }
+  return 'yaml'
+}
+
+// 根据扩展名和内容检测文件格式，扩展名优先
+export function detectImportFormat(fileName: string, text: string): ImportFormat {
+  const extension = fileName.split('.').pop()?.toLowerCase() || ''
+  if (fileName.includes('.') && EXTENSION_FORMATS[extension]) {
+    return EXTENSION_FORMATS[extension]
+  }
+  return detectFormatFromContent(text)
+}
+
+// 将 XML 文本还原为基本类型（与导出时的字符串化对应）
+function coerceXmlText(text: string): string | number | boolean {
+  const value = text.trim()
+  if (value === 'true') return true
+  if (value === 'false') return false
+  if (/^-?(0|[1-9]\d*)(\.\d+)?([eE][+-]?\d+)?$/.test(value)) {
+    return Number(value)
+  }
+  return text
+}
+
+// 将 xml-js 紧凑模式的元素转换为普通数据
+function convertXmlElement(element: any): any {
+  if (Array.isArray(element)) {
+    return element.map(item => convertXmlElement(item))
+  }
+  if (element === null || typeof element !== 'object') {
+    return element
+  }
+
+  const text = [element._text, element._cdata]
+    .filter(value => value !== undefined)
+    .flat()
+    .join('')
+  const keys = Object.keys(element).filter(key => !XML_IGNORED_KEYS.includes(key))
+  const childKeys = keys.filter(key => key !== '_text' && key !== '_cdata' && key !== '_attributes')
+
+  // 只有文本内容的元素还原为标量，空元素还原为空字符串
+  if (childKeys.length === 0 && !element._attributes) {
+    return text ? coerceXmlText(text) : ''
+  }
+
+  const result: Record<string, any> = {}
+  if (element._attributes) {
+    Object.entries(element._attributes).forEach(([key, value]) => {
+      result[key] = coerceXmlText(String(value))
+    })
+  }
+  childKeys.forEach(key => {
+    result[key] = convertXmlElement(element[key])
+  })
+  if (text.trim()) {
+    result['#text'] = coerceXmlText(text)
+  }
+  return result
+}
+
+// 解析 XML：handleExportXML 使用 js2xml({ root: data }, { compact: true })，
+// 重复的同名元素还原为数组，并去掉导出时包裹的 root 元素
+export function parseXml(text: string): any {
+  const parsed = xmljs.xml2js(text, { compact: true }) as Record<string, any>
+  const keys = Object.keys(parsed).filter(key => !XML_IGNORED_KEYS.includes(key))
+  if (keys.length === 0) {
+    return {}
+  }
+  if (keys.length === 1 && keys[0] === 'root') {
+    return convertXmlElement(parsed.root)
+  }
+  const result: Record<string, any> = {}
+  keys.forEach(key => {
+    result[key] = convertXmlElement(parsed[key])
+  })
+  return result
+}
+
+// 解析非 YAML 格式的文本为数据
+export function parseImportedText(text: string, format: Exclude<ImportFormat, 'yaml'>): any {
+  switch (format) {
+    case 'json':
+      return JSON.parse(text)
+    case 'toml':
+      return TOML.parse(text)
+    case 'xml':
+      return parseXml(text)
+  }
+}
+
+// 将任意支持格式的文本转换为 YAML 文本（YAML 原样返回以保留注释）
+export function convertToYamlText(text: string, fileName: string): string {
+  const format = detectImportFormat(fileName, text)
+  if (format === 'yaml') return text
+  const imported = parseImportedText(text, format)
+  return imported === undefined || imported === null ? '' : YAML.stringify(imported, { indent: 2 })
+}
@@ -0,0 +1,628 @@
+// 内置的 Kubernetes 常用资源定义，以 OpenAPI（swagger definitions）格式手写，离线校验清单时使用。
+// 不区分 Kubernetes 版本：定义名称、字段和必填项参照 v1.29 的官方 OpenAPI；常用资源的字段完整列出并逐层定义，
+// 很少手写的字段（affinity、securityContext 等）只约束为对象，不检查其内部结构。
+// format 为 int-or-string 和 quantity 的字段与官方一致，转换为 JSON Schema 时展开为多种类型
+
+export interface GroupVersionKind {
+  group: string
+  version: string
+  kind: string
+}
+
+// 已从 Kubernetes 中移除的 API 版本，及其替代版本和移除时的 Kubernetes 版本
+export interface RemovedApi {
+  apiVersion: string
+  kinds: string[]
+  replacement: string
+  removedIn: string
+}
+
+const META = 'io.k8s.apimachinery.pkg.apis.meta.v1.'
+const CORE = 'io.k8s.api.core.v1.'
+const APPS = 'io.k8s.api.apps.v1.'
+const BATCH = 'io.k8s.api.batch.v1.'
+const NETWORKING = 'io.k8s.api.networking.v1.'
+const INT_OR_STRING = 'io.k8s.apimachinery.pkg.util.intstr.IntOrString'
+const QUANTITY = 'io.k8s.apimachinery.pkg.api.resource.Quantity'
+
+const string = { type: 'string' }
+const integer = { type: 'integer', format: 'int32' }
+const int64 = { type: 'integer', format: 'int64' }
+const boolean = { type: 'boolean' }
+// 只约束为对象，不检查内部字段
+const object = { type: 'object' }
+const stringMap = { type: 'object', additionalProperties: string }
+const stringArray = { type: 'array', items: string }
+const ref = (name: string) => ({ $ref: `#/definitions/${name}` })
+const arrayOf = (name: string) => ({ type: 'array', items: ref(name) })
+const enumOf = (...values: string[]) => ({ type: 'string', enum: values })
+
+// 资源的公共字段：apiVersion、kind、metadata、spec、status
+function resource(group: string, version: string, kind: string, properties: Record<string, any>, required?: string[]) {
+  return {
+    type: 'object',
+    required,
+    properties: {
+      apiVersion: string,
+      kind: string,
+      metadata: ref(`${META}ObjectMeta`),
+      ...properties,
+    },
+    'x-kubernetes-group-version-kind': [{ group, version, kind }],
+  }
+}
+
+// 数据卷来源中很少手写的类型，只约束为对象
+const OPAQUE_VOLUME_SOURCES = [
+  'awsElasticBlockStore', 'azureDisk', 'azureFile', 'cephfs', 'cinder', 'csi', 'downwardAPI', 'ephemeral',
+  'fc', 'flexVolume', 'flocker', 'gcePersistentDisk', 'gitRepo', 'glusterfs', 'iscsi', 'nfs',
+  'photonPersistentDisk', 'portworxVolume', 'projected', 'quobyte', 'rbd', 'scaleIO', 'storageos', 'vsphereVolume',
+]
+
+export const KUBERNETES_DEFINITIONS: Record<string, any> = {
+  [INT_OR_STRING]: { type: 'string', format: 'int-or-string' },
+  [QUANTITY]: { type: 'string', format: 'quantity' },
+
+  [`${META}ObjectMeta`]: {
+    type: 'object',
+    properties: {
+      annotations: stringMap,
+      creationTimestamp: { type: 'string', format: 'date-time', nullable: true },
+      deletionGracePeriodSeconds: int64,
+      deletionTimestamp: { type: 'string', format: 'date-time', nullable: true },
+      finalizers: stringArray,
+      generateName: string,
+      generation: int64,
+      labels: stringMap,
+      managedFields: { type: 'array', items: object },
+      name: string,
+      namespace: string,
+      ownerReferences: { type: 'array', items: object },
+      resourceVersion: string,
+      selfLink: string,
+      uid: string,
+    },
+  },
+  [`${META}LabelSelector`]: {
+    type: 'object',
+    properties: {
+      matchExpressions: arrayOf(`${META}LabelSelectorRequirement`),
+      matchLabels: stringMap,
+    },
+  },
+  [`${META}LabelSelectorRequirement`]: {
+    type: 'object',
+    required: ['key', 'operator'],
+    properties: {
+      key: string,
+      operator: enumOf('In', 'NotIn', 'Exists', 'DoesNotExist'),
+      values: stringArray,
+    },
+  },
+
+  [`${CORE}PodTemplateSpec`]: {
+    type: 'object',
+    properties: {
+      metadata: ref(`${META}ObjectMeta`),
+      spec: ref(`${CORE}PodSpec`),
+    },
+  },
+  [`${CORE}PodSpec`]: {
+    type: 'object',
+    required: ['containers'],
+    properties: {
+      activeDeadlineSeconds: int64,
+      affinity: object,
+      automountServiceAccountToken: boolean,
+      containers: arrayOf(`${CORE}Container`),
+      dnsConfig: object,
+      dnsPolicy: enumOf('ClusterFirst', 'ClusterFirstWithHostNet', 'Default', 'None'),
+      enableServiceLinks: boolean,
+      ephemeralContainers: { type: 'array', items: object },
+      hostAliases: { type: 'array', items: object },
+      hostIPC: boolean,
+      hostNetwork: boolean,
+      hostPID: boolean,
+      hostUsers: boolean,
+      hostname: string,
+      imagePullSecrets: arrayOf(`${CORE}LocalObjectReference`),
+      initContainers: arrayOf(`${CORE}Container`),
+      nodeName: string,
+      nodeSelector: stringMap,
+      os: object,
+      overhead: { type: 'object', additionalProperties: ref(QUANTITY) },
+      preemptionPolicy: string,
+      priority: integer,
+      priorityClassName: string,
+      readinessGates: { type: 'array', items: object },
+      resourceClaims: { type: 'array', items: object },
+      restartPolicy: enumOf('Always', 'OnFailure', 'Never'),
+      runtimeClassName: string,
+      schedulerName: string,
+      schedulingGates: { type: 'array', items: object },
+      securityContext: object,
+      serviceAccount: string,
+      serviceAccountName: string,
+      setHostnameAsFQDN: boolean,
+      shareProcessNamespace: boolean,
+      subdomain: string,
+      terminationGracePeriodSeconds: int64,
+      tolerations: arrayOf(`${CORE}Toleration`),
+      topologySpreadConstraints: { type: 'array', items: object },
+      volumes: arrayOf(`${CORE}Volume`),
+    },
+  },
+  [`${CORE}LocalObjectReference`]: {
+    type: 'object',
+    properties: { name: string },
+  },
+  [`${CORE}Toleration`]: {
+    type: 'object',
+    properties: {
+      effect: enumOf('NoSchedule', 'PreferNoSchedule', 'NoExecute'),
+      key: string,
+      operator: enumOf('Exists', 'Equal'),
+      tolerationSeconds: int64,
+      value: string,
+    },
+  },
+  [`${CORE}Container`]: {
+    type: 'object',
+    required: ['name'],
+    properties: {
+      args: stringArray,
+      command: stringArray,
+      env: arrayOf(`${CORE}EnvVar`),
+      envFrom: arrayOf(`${CORE}EnvFromSource`),
+      image: string,
+      imagePullPolicy: enumOf('Always', 'Never', 'IfNotPresent'),
+      lifecycle: object,
+      livenessProbe: ref(`${CORE}Probe`),
+      name: string,
+      ports: arrayOf(`${CORE}ContainerPort`),
+      readinessProbe: ref(`${CORE}Probe`),
+      resizePolicy: { type: 'array', items: object },
+      resources: ref(`${CORE}ResourceRequirements`),
+      restartPolicy: string,
+      securityContext: object,
+      startupProbe: ref(`${CORE}Probe`),
+      stdin: boolean,
+      stdinOnce: boolean,
+      terminationMessagePath: string,
+      terminationMessagePolicy: enumOf('File', 'FallbackToLogsOnError'),
+      tty: boolean,
+      volumeDevices: { type: 'array', items: object },
+      volumeMounts: arrayOf(`${CORE}VolumeMount`),
+      workingDir: string,
+    },
+  },
+  [`${CORE}ContainerPort`]: {
+    type: 'object',
+    required: ['containerPort'],
+    properties: {
+      containerPort: integer,
+      hostIP: string,
+      hostPort: integer,
+      name: string,
+      protocol: enumOf('TCP', 'UDP', 'SCTP'),
+    },
+  },
+  [`${CORE}EnvVar`]: {
+    type: 'object',
+    required: ['name'],
+    properties: {
+      name: string,
+      value: string,
+      valueFrom: ref(`${CORE}EnvVarSource`),
+    },
+  },
+  [`${CORE}EnvVarSource`]: {
+    type: 'object',
+    properties: {
+      configMapKeyRef: ref(`${CORE}ConfigMapKeySelector`),
+      fieldRef: ref(`${CORE}ObjectFieldSelector`),
+      resourceFieldRef: ref(`${CORE}ResourceFieldSelector`),
+      secretKeyRef: ref(`${CORE}SecretKeySelector`),
+    },
+  },
+  [`${CORE}ConfigMapKeySelector`]: {
+    type: 'object',
+    required: ['key'],
+    properties: { key: string, name: string, optional: boolean },
+  },
+  [`${CORE}SecretKeySelector`]: {
+    type: 'object',
+    required: ['key'],
+    properties: { key: string, name: string, optional: boolean },
+  },
+  [`${CORE}ObjectFieldSelector`]: {
+    type: 'object',
+    required: ['fieldPath'],
+    properties: { apiVersion: string, fieldPath: string },
+  },
+  [`${CORE}ResourceFieldSelector`]: {
+    type: 'object',
+    required: ['resource'],
+    properties: { containerName: string, divisor: ref(QUANTITY), resource: string },
+  },
+  [`${CORE}EnvFromSource`]: {
+    type: 'object',
+    properties: {
+      configMapRef: ref(`${CORE}ConfigMapEnvSource`),
+      prefix: string,
+      secretRef: ref(`${CORE}SecretEnvSource`),
+    },
+  },
+  [`${CORE}ConfigMapEnvSource`]: {
+    type: 'object',
+    properties: { name: string, optional: boolean },
+  },
+  [`${CORE}SecretEnvSource`]: {
+    type: 'object',
+    properties: { name: string, optional: boolean },
+  },
+  [`${CORE}ResourceRequirements`]: {
+    type: 'object',
+    properties: {
+      claims: { type: 'array', items: object },
+      limits: { type: 'object', additionalProperties: ref(QUANTITY) },
+      requests: { type: 'object', additionalProperties: ref(QUANTITY) },
+    },
+  },
+  [`${CORE}Probe`]: {
+    type: 'object',
+    properties: {
+      exec: ref(`${CORE}ExecAction`),
+      failureThreshold: integer,
+      grpc: {
+        type: 'object',
+        required: ['port'],
+        properties: { port: integer, service: string },
+      },
+      httpGet: ref(`${CORE}HTTPGetAction`),
+      initialDelaySeconds: integer,
+      periodSeconds: integer,
+      successThreshold: integer,
+      tcpSocket: ref(`${CORE}TCPSocketAction`),
+      terminationGracePeriodSeconds: int64,
+      timeoutSeconds: integer,
+    },
+  },
+  [`${CORE}ExecAction`]: {
+    type: 'object',
+    properties: { command: stringArray },
+  },
+  [`${CORE}HTTPGetAction`]: {
+    type: 'object',
+    required: ['port'],
+    properties: {
+      host: string,
+      httpHeaders: {
+        type: 'array',
+        items: {
+          type: 'object',
+          required: ['name', 'value'],
+          properties: { name: string, value: string },
+        },
+      },
+      path: string,
+      port: ref(INT_OR_STRING),
+      scheme: enumOf('HTTP', 'HTTPS'),
+    },
+  },
+  [`${CORE}TCPSocketAction`]: {
+    type: 'object',
+    required: ['port'],
+    properties: { host: string, port: ref(INT_OR_STRING) },
+  },
+  [`${CORE}VolumeMount`]: {
+    type: 'object',
+    required: ['name', 'mountPath'],
+    properties: {
+      mountPath: string,
+      mountPropagation: enumOf('None', 'HostToContainer', 'Bidirectional'),
+      name: string,
+      readOnly: boolean,
+      subPath: string,
+      subPathExpr: string,
+    },
+  },
+  [`${CORE}Volume`]: {
+    type: 'object',
+    required: ['name'],
+    properties: {
+      name: string,
+      configMap: ref(`${CORE}ConfigMapVolumeSource`),
+      emptyDir: {
+        type: 'object',
+        properties: { medium: string, sizeLimit: ref(QUANTITY) },
+      },
+      hostPath: {
+        type: 'object',
+        required: ['path'],
+        properties: { path: string, type: string },
+      },
+      persistentVolumeClaim: {
+        type: 'object',
+        required: ['claimName'],
+        properties: { claimName: string, readOnly: boolean },
+      },
+      secret: ref(`${CORE}SecretVolumeSource`),
+      ...Object.fromEntries(OPAQUE_VOLUME_SOURCES.map(source => [source, object])),
+    },
+  },
+  [`${CORE}KeyToPath`]: {
+    type: 'object',
+    required: ['key', 'path'],
+    properties: { key: string, mode: integer, path: string },
+  },
+  [`${CORE}ConfigMapVolumeSource`]: {
+    type: 'object',
+    properties: {
+      defaultMode: integer,
+      items: arrayOf(`${CORE}KeyToPath`),
+      name: string,
+      optional: boolean,
+    },
+  },
+  [`${CORE}SecretVolumeSource`]: {
+    type: 'object',
+    properties: {
+      defaultMode: integer,
+      items: arrayOf(`${CORE}KeyToPath`),
+      optional: boolean,
+      secretName: string,
+    },
+  },
+
+  [`${CORE}Pod`]: resource('', 'v1', 'Pod', {
+    spec: ref(`${CORE}PodSpec`),
+    status: object,
+  }),
+  [`${CORE}Service`]: resource('', 'v1', 'Service', {
+    spec: ref(`${CORE}ServiceSpec`),
+    status: object,
+  }),
+  [`${CORE}ServiceSpec`]: {
+    type: 'object',
+    properties: {
+      allocateLoadBalancerNodePorts: boolean,
+      clusterIP: string,
+      clusterIPs: stringArray,
+      externalIPs: stringArray,
+      externalName: string,
+      externalTrafficPolicy: enumOf('Cluster', 'Local'),
+      healthCheckNodePort: integer,
+      internalTrafficPolicy: enumOf('Cluster', 'Local'),
+      ipFamilies: { type: 'array', items: enumOf('IPv4', 'IPv6') },
+      ipFamilyPolicy: enumOf('SingleStack', 'PreferDualStack', 'RequireDualStack'),
+      loadBalancerClass: string,
+      loadBalancerIP: string,
+      loadBalancerSourceRanges: stringArray,
+      ports: arrayOf(`${CORE}ServicePort`),
+      publishNotReadyAddresses: boolean,
+      selector: stringMap,
+      sessionAffinity: enumOf('ClientIP', 'None'),
+      sessionAffinityConfig: object,
+      type: enumOf('ClusterIP', 'ExternalName', 'LoadBalancer', 'NodePort'),
+    },
+  },
+  [`${CORE}ServicePort`]: {
+    type: 'object',
+    required: ['port'],
+    properties: {
+      appProtocol: string,
+      name: string,
+      nodePort: integer,
+      port: integer,
+      protocol: enumOf('TCP', 'UDP', 'SCTP'),
+      targetPort: ref(INT_OR_STRING),
+    },
+  },
+  [`${CORE}ConfigMap`]: resource('', 'v1', 'ConfigMap', {
+    binaryData: stringMap,
+    data: stringMap,
+    immutable: boolean,
+  }),
+  [`${CORE}Secret`]: resource('', 'v1', 'Secret', {
+    data: stringMap,
+    immutable: boolean,
+    stringData: stringMap,
+    type: string,
+  }),
+  [`${CORE}Namespace`]: resource('', 'v1', 'Namespace', {
+    spec: {
+      type: 'object',
+      properties: { finalizers: stringArray },
+    },
+    status: object,
+  }),
+  [`${CORE}ServiceAccount`]: resource('', 'v1', 'ServiceAccount', {
+    automountServiceAccountToken: boolean,
+    imagePullSecrets: arrayOf(`${CORE}LocalObjectReference`),
+    secrets: { type: 'array', items: object },
+  }),
+
+  [`${APPS}Deployment`]: resource('apps', 'v1', 'Deployment', {
+    spec: ref(`${APPS}DeploymentSpec`),
+    status: object,
+  }),
+  [`${APPS}DeploymentSpec`]: {
+    type: 'object',
+    required: ['selector', 'template'],
+    properties: {
+      minReadySeconds: integer,
+      paused: boolean,
+      progressDeadlineSeconds: integer,
+      replicas: integer,
+      revisionHistoryLimit: integer,
+      selector: ref(`${META}LabelSelector`),
+      strategy: ref(`${APPS}DeploymentStrategy`),
+      template: ref(`${CORE}PodTemplateSpec`),
+    },
+  },
+  [`${APPS}DeploymentStrategy`]: {
+    type: 'object',
+    properties: {
+      rollingUpdate: {
+        type: 'object',
+        properties: {
+          maxSurge: ref(INT_OR_STRING),
+          maxUnavailable: ref(INT_OR_STRING),
+        },
+      },
+      type: enumOf('Recreate', 'RollingUpdate'),
+    },
+  },
+  [`${APPS}StatefulSet`]: resource('apps', 'v1', 'StatefulSet', {
+    spec: ref(`${APPS}StatefulSetSpec`),
+    status: object,
+  }),
+  [`${APPS}StatefulSetSpec`]: {
+    type: 'object',
+    required: ['selector', 'template'],
+    properties: {
+      minReadySeconds: integer,
+      ordinals: object,
+      persistentVolumeClaimRetentionPolicy: object,
+      podManagementPolicy: enumOf('OrderedReady', 'Parallel'),
+      replicas: integer,
+      revisionHistoryLimit: integer,
+      selector: ref(`${META}LabelSelector`),
+      serviceName: string,
+      template: ref(`${CORE}PodTemplateSpec`),
+      updateStrategy: object,
+      volumeClaimTemplates: { type: 'array', items: object },
+    },
+  },
+  [`${APPS}DaemonSet`]: resource('apps', 'v1', 'DaemonSet', {
+    spec: ref(`${APPS}DaemonSetSpec`),
+    status: object,
+  }),
+  [`${APPS}DaemonSetSpec`]: {
+    type: 'object',
+    required: ['selector', 'template'],
+    properties: {
+      minReadySeconds: integer,
+      revisionHistoryLimit: integer,
+      selector: ref(`${META}LabelSelector`),
+      template: ref(`${CORE}PodTemplateSpec`),
+      updateStrategy: object,
+    },
+  },
+
+  [`${BATCH}Job`]: resource('batch', 'v1', 'Job', {
+    spec: ref(`${BATCH}JobSpec`),
+    status: object,
+  }),
+  [`${BATCH}JobSpec`]: {
+    type: 'object',
+    required: ['template'],
+    properties: {
+      activeDeadlineSeconds: int64,
+      backoffLimit: integer,
+      backoffLimitPerIndex: integer,
+      completionMode: enumOf('NonIndexed', 'Indexed'),
+      completions: integer,
+      manualSelector: boolean,
+      maxFailedIndexes: integer,
+      parallelism: integer,
+      podFailurePolicy: object,
+      podReplacementPolicy: enumOf('TerminatingOrFailed', 'Failed'),
+      selector: ref(`${META}LabelSelector`),
+      suspend: boolean,
+      template: ref(`${CORE}PodTemplateSpec`),
+      ttlSecondsAfterFinished: integer,
+    },
+  },
+  [`${BATCH}CronJob`]: resource('batch', 'v1', 'CronJob', {
+    spec: ref(`${BATCH}CronJobSpec`),
+    status: object,
+  }),
+  [`${BATCH}CronJobSpec`]: {
+    type: 'object',
+    required: ['schedule', 'jobTemplate'],
+    properties: {
+      concurrencyPolicy: enumOf('Allow', 'Forbid', 'Replace'),
+      failedJobsHistoryLimit: integer,
+      jobTemplate: {
+        type: 'object',
+        properties: {
+          metadata: ref(`${META}ObjectMeta`),
+          spec: ref(`${BATCH}JobSpec`),
+        },
+      },
+      schedule: string,
+      startingDeadlineSeconds: int64,
+      successfulJobsHistoryLimit: integer,
+      suspend: boolean,
+      timeZone: string,
+    },
+  },
+
+  [`${NETWORKING}Ingress`]: resource('networking.k8s.io', 'v1', 'Ingress', {
+    spec: ref(`${NETWORKING}IngressSpec`),
+    status: object,
+  }),
+  [`${NETWORKING}IngressSpec`]: {
+    type: 'object',
+    properties: {
+      defaultBackend: ref(`${NETWORKING}IngressBackend`),
+      ingressClassName: string,
+      rules: arrayOf(`${NETWORKING}IngressRule`),
+      tls: {
+        type: 'array',
+        items: {
+          type: 'object',
+          properties: { hosts: stringArray, secretName: string },
+        },
+      },
+    },
+  },
+  [`${NETWORKING}IngressRule`]: {
+    type: 'object',
+    properties: {
+      host: string,
+      http: {
+        type: 'object',
+        required: ['paths'],
+        properties: { paths: arrayOf(`${NETWORKING}HTTPIngressPath`) },
+      },
+    },
+  },
+  [`${NETWORKING}HTTPIngressPath`]: {
+    type: 'object',
+    required: ['pathType', 'backend'],
+    properties: {
+      backend: ref(`${NETWORKING}IngressBackend`),
+      path: string,
+      pathType: enumOf('Exact', 'Prefix', 'ImplementationSpecific'),
+    },
+  },
+  [`${NETWORKING}IngressBackend`]: {
+    type: 'object',
+    properties: {
+      resource: object,
+      service: {
+        type: 'object',
+        required: ['name'],
+        properties: {
+          name: string,
+          port: {
+            type: 'object',
+            properties: { name: string, number: integer },
+          },
+        },
+      },
+    },
+  },
+}
+
+export const REMOVED_APIS: RemovedApi[] = [
+  { apiVersion: 'extensions/v1beta1', kinds: ['Deployment', 'DaemonSet', 'ReplicaSet'], replacement: 'apps/v1', removedIn: 'v1.16' },
+  { apiVersion: 'apps/v1beta1', kinds: ['Deployment', 'StatefulSet'], replacement: 'apps/v1', removedIn: 'v1.16' },
+  { apiVersion: 'apps/v1beta2', kinds: ['Deployment', 'StatefulSet', 'DaemonSet', 'ReplicaSet'], replacement: 'apps/v1', removedIn: 'v1.16' },
+  { apiVersion: 'extensions/v1beta1', kinds: ['Ingress'], replacement: 'networking.k8s.io/v1', removedIn: 'v1.22' },
+  { apiVersion: 'networking.k8s.io/v1beta1', kinds: ['Ingress'], replacement: 'networking.k8s.io/v1', removedIn: 'v1.22' },
+  { apiVersion: 'batch/v1beta1', kinds: ['CronJob'], replacement: 'batch/v1', removedIn: 'v1.25' },
+]
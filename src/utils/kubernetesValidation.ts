@@ -0,0 +1,286 @@
+import { validateAgainstSchema } from './schemaValidation'
+import { formatPath, type PathSegment } from './path'
+import type { Problem, ProblemSeverity } from './problems'
+import {
+  KUBERNETES_DEFINITIONS,
+  REMOVED_APIS,
+  type GroupVersionKind,
+} from './kubernetesSchemas'
+
+// 文档中识别出的 Kubernetes 资源
+export interface KubernetesResource extends GroupVersionKind {
+  apiVersion: string
+}
+
+// 内置 API 组：这些组中未收录的资源类型会给出提示，其他组视为 CRD 跳过校验
+const BUILTIN_GROUPS = new Set([
+  '', 'apps', 'batch', 'networking.k8s.io', 'policy', 'rbac.authorization.k8s.io', 'autoscaling',
+  'storage.k8s.io', 'scheduling.k8s.io', 'coordination.k8s.io', 'discovery.k8s.io', 'node.k8s.io',
+  'admissionregistration.k8s.io', 'apiextensions.k8s.io', 'certificates.k8s.io', 'extensions',
+])
+
+// 带 Pod 模板的工作负载，模板所在的路径
+const POD_TEMPLATE_PATHS: Record<string, PathSegment[]> = {
+  Deployment: ['spec', 'template'],
+  StatefulSet: ['spec', 'template'],
+  DaemonSet: ['spec', 'template'],
+  Job: ['spec', 'template'],
+  CronJob: ['spec', 'jobTemplate', 'spec', 'template'],
+}
+
+// 按定义名称缓存转换后的 JSON Schema，保证同一资源每次校验使用同一个对象（校验函数按对象缓存）
+const schemaCache = new Map<string, any>()
+
+// 文档顶层同时有字符串类型的 apiVersion 和 kind 时识别为 Kubernetes 资源
+export function getKubernetesResource(data: any): KubernetesResource | null {
+  if (!data || typeof data !== 'object' || Array.isArray(data)) return null
+  const { apiVersion, kind } = data
+  if (typeof apiVersion !== 'string' || typeof kind !== 'string' || !apiVersion || !kind) return null
+  const slash = apiVersion.lastIndexOf('/')
+  return {
+    apiVersion,
+    group: slash === -1 ? '' : apiVersion.slice(0, slash),
+    version: slash === -1 ? apiVersion : apiVersion.slice(slash + 1),
+    kind,
+  }
+}
+
+// 在定义中查找与资源 GVK 对应的定义名称
+function findDefinitionName(definitions: Record<string, any>, resource: KubernetesResource): string | null {
+  for (const [name, definition] of Object.entries(definitions)) {
+    const gvks: GroupVersionKind[] = definition['x-kubernetes-group-version-kind'] || []
+    if (gvks.some(gvk => gvk.group === resource.group && gvk.version === resource.version && gvk.kind === resource.kind)) {
+      return name
+    }
+  }
+  return null
+}
+
+// 将 OpenAPI 定义转换为 JSON Schema：
+// 有 properties 的对象不允许未定义的字段，int-or-string 和 quantity 允许数字或字符串，nullable 允许 null
+function toJsonSchema(definition: any): any {
+  if (!definition || typeof definition !== 'object') return definition
+  if (definition.$ref) return { $ref: definition.$ref }
+
+  const schema: any = {}
+  Object.entries(definition).forEach(([key, value]) => {
+    if (key.startsWith('x-kubernetes-') || key === 'nullable' || key === 'format' || value === undefined) return
+    if (key === 'properties') {
+      schema.properties = Object.fromEntries(
+        Object.entries(value as Record<string, any>).map(([name, property]) => [name, toJsonSchema(property)])
+      )
+    } else if (key === 'items' || key === 'additionalProperties') {
+      schema[key] = toJsonSchema(value)
+    } else {
+      schema[key] = value
+    }
+  })
+
+  if (definition.format === 'int-or-string') {
+    schema.type = ['integer', 'string']
+  } else if (definition.format === 'quantity') {
+    schema.type = ['string', 'number']
+  }
+  if (definition.nullable && typeof schema.type === 'string') {
+    schema.type = [schema.type, 'null']
+  }
+  if (schema.type === 'object' && schema.properties && schema.additionalProperties === undefined) {
+    schema.additionalProperties = false
+  }
+  return schema
+}
+
+// 获取资源对应的 JSON Schema，未收录的资源类型返回 null
+export function getKubernetesSchema(resource: KubernetesResource): any | null {
+  const name = findDefinitionName(KUBERNETES_DEFINITIONS, resource)
+  if (!name) return null
+
+  const cached = schemaCache.get(name)
+  if (cached) return cached
+
+  const definitions = Object.fromEntries(
+    Object.entries(KUBERNETES_DEFINITIONS).map(([key, definition]) => [key, toJsonSchema(definition)])
+  )
+  const schema = { ...definitions[name], definitions }
+  schemaCache.set(name, schema)
+  return schema
+}
+
+function createProblem(segments: PathSegment[], message: string, severity: ProblemSeverity = 'error'): Problem {
+  return { path: formatPath(segments), segments, message, severity, source: 'kubernetes' }
+}
+
+function isPlainObject(value: any): value is Record<string, any> {
+  return !!value && typeof value === 'object' && !Array.isArray(value)
+}
+
+// 按路径段读取值，中间值不是对象或数组时返回 undefined
+function getIn(data: any, segments: PathSegment[]): any {
+  return segments.reduce((value, segment) => (value && typeof value === 'object' ? value[segment] : undefined), data)
+}
+
+// 判断标签选择器是否选中给定的标签
+function matchExpression(expression: any, labels: Record<string, any>): boolean {
+  const values: any[] = Array.isArray(expression.values) ? expression.values : []
+  const has = Object.prototype.hasOwnProperty.call(labels, expression.key)
+  switch (expression.operator) {
+    case 'In':
+      return has && values.includes(labels[expression.key])
+    case 'NotIn':
+      return !has || !values.includes(labels[expression.key])
+    case 'Exists':
+      return has
+    case 'DoesNotExist':
+      return !has
+    default:
+      return true
+  }
+}
+
+// 选择器必须选中 Pod 模板的标签，否则工作负载无法管理自己创建的 Pod
+function checkSelector(data: any, templatePath: PathSegment[], problems: Problem[]) {
+  const selectorPath = [...templatePath.slice(0, -1), 'selector']
+  const selector = getIn(data, selectorPath)
+  if (!isPlainObject(selector)) return
+  const labelsPath = [...templatePath, 'metadata', 'labels']
+  const rawLabels = getIn(data, labelsPath)
+  const labels = isPlainObject(rawLabels) ? rawLabels : {}
+
+  if (isPlainObject(selector.matchLabels)) {
+    Object.entries(selector.matchLabels).forEach(([key, value]) => {
+      if (!Object.prototype.hasOwnProperty.call(labels, key)) {
+        problems.push(createProblem(
+          [...selectorPath, 'matchLabels', key],
+          `选择器标签 "${key}" 在 Pod 模板的标签中不存在`
+        ))
+      } else if (String(labels[key]) !== String(value)) {
+        problems.push(createProblem(
+          [...selectorPath, 'matchLabels', key],
+          `选择器标签 "${key}: ${value}" 与 Pod 模板的标签值 "${labels[key]}" 不一致`
+        ))
+      }
+    })
+  }
+  if (Array.isArray(selector.matchExpressions)) {
+    selector.matchExpressions.forEach((expression: any, index: number) => {
+      if (isPlainObject(expression) && typeof expression.key === 'string' && !matchExpression(expression, labels)) {
+        problems.push(createProblem(
+          [...selectorPath, 'matchExpressions', index],
+          `选择器表达式 "${expression.key} ${expression.operator}" 不匹配 Pod 模板的标签`
+        ))
+      }
+    })
+  }
+}
+
+// 检查 Pod 规格：容器名称重复、挂载未定义的数据卷、容器端口名称重复
+function checkPodSpec(data: any, specPath: PathSegment[], problems: Problem[]) {
+  const spec = getIn(data, specPath)
+  if (!isPlainObject(spec)) return
+
+  const volumeNames = new Set<string>()
+  if (Array.isArray(spec.volumes)) {
+    spec.volumes.forEach((volume: any, index: number) => {
+      if (!isPlainObject(volume) || typeof volume.name !== 'string') return
+      if (volumeNames.has(volume.name)) {
+        problems.push(createProblem([...specPath, 'volumes', index, 'name'], `数据卷名称 "${volume.name}" 重复`))
+      }
+      volumeNames.add(volume.name)
+    })
+  }
+
+  const containerNames = new Set<string>()
+  ;(['initContainers', 'containers'] as const).forEach(field => {
+    if (!Array.isArray(spec[field])) return
+    spec[field].forEach((container: any, index: number) => {
+      if (!isPlainObject(container)) return
+      const containerPath = [...specPath, field, index]
+      if (typeof container.name === 'string') {
+        if (containerNames.has(container.name)) {
+          problems.push(createProblem([...containerPath, 'name'], `容器名称 "${container.name}" 重复`))
+        }
+        containerNames.add(container.name)
+      }
+      if (Array.isArray(container.volumeMounts)) {
+        container.volumeMounts.forEach((mount: any, mountIndex: number) => {
+          if (isPlainObject(mount) && typeof mount.name === 'string' && !volumeNames.has(mount.name)) {
+            problems.push(createProblem(
+              [...containerPath, 'volumeMounts', mountIndex, 'name'],
+              `挂载的数据卷 "${mount.name}" 未在 volumes 中定义`
+            ))
+          }
+        })
+      }
+      if (Array.isArray(container.ports)) {
+        const portNames = new Set<string>()
+        container.ports.forEach((port: any, portIndex: number) => {
+          if (!isPlainObject(port) || typeof port.name !== 'string') return
+          if (portNames.has(port.name)) {
+            problems.push(createProblem([...containerPath, 'ports', portIndex, 'name'], `端口名称 "${port.name}" 重复`))
+          }
+          portNames.add(port.name)
+        })
+      }
+    })
+  })
+}
+
+// 语义检查：OpenAPI schema 无法表达的约束
+function checkSemantics(data: any, resource: KubernetesResource): Problem[] {
+  const problems: Problem[] = []
+
+  if (!isPlainObject(data.metadata) || (typeof data.metadata.name !== 'string' && typeof data.metadata.generateName !== 'string')) {
+    problems.push(createProblem(
+      isPlainObject(data.metadata) ? ['metadata'] : [],
+      '缺少资源名称 metadata.name'
+    ))
+  }
+
+  if (resource.kind === 'Pod') {
+    checkPodSpec(data, ['spec'], problems)
+  }
+  const templatePath = POD_TEMPLATE_PATHS[resource.kind]
+  if (templatePath) {
+    // Job 的选择器默认自动生成，只有 manualSelector 时才需要检查
+    const needsSelectorCheck = resource.kind === 'Job'
+      ? data.spec?.manualSelector === true
+      : resource.kind !== 'CronJob'
+    if (needsSelectorCheck) {
+      checkSelector(data, templatePath, problems)
+    }
+    checkPodSpec(data, [...templatePath, 'spec'], problems)
+  }
+  return problems
+}
+
+// 校验 Kubernetes 清单：已移除的 API 版本、内置 schema 校验和语义检查。
+// 不是 Kubernetes 资源或是未收录的 CRD 时返回空列表
+export function validateKubernetesManifest(data: any): Problem[] {
+  const resource = getKubernetesResource(data)
+  if (!resource) return []
+
+  const removed = REMOVED_APIS.find(api => api.apiVersion === resource.apiVersion && api.kinds.includes(resource.kind))
+  if (removed) {
+    return [createProblem(
+      ['apiVersion'],
+      `${resource.apiVersion} 中的 ${resource.kind} 已在 Kubernetes ${removed.removedIn} 中移除，请改用 ${removed.replacement}`
+    )]
+  }
+
+  const schema = getKubernetesSchema(resource)
+  if (!schema) {
+    if (BUILTIN_GROUPS.has(resource.group)) {
+      return [createProblem(
+        ['kind'],
+        `内置的 Kubernetes schema 中没有 ${resource.apiVersion} 的 ${resource.kind}，已跳过校验`,
+        'warning'
+      )]
+    }
+    return []
+  }
+
+  return [
+    ...validateAgainstSchema(schema, data, 'kubernetes'),
+    ...checkSemantics(data, resource),
+  ]
+}
@@ -0,0 +1,81 @@
+// 本地 IndexedDB 数据库：草稿、版本快照等需要在浏览器中长期保存、体积可能较大的数据
+
+const DB_NAME = 'yameilo'
+const DB_VERSION = 3
+
+// 对象仓库名称，均以 id 作为主键
+export const DRAFT_STORE = 'drafts'
+export const SNAPSHOT_STORE = 'snapshots'
+
+// 快照按所属文档查询的索引
+export const SNAPSHOT_DOCUMENT_INDEX = 'documentId'
+
+// 新增仓库或索引时提升 DB_VERSION，升级时创建缺少的仓库和索引
+const STORES = [DRAFT_STORE, SNAPSHOT_STORE]
+// 各仓库的索引，索引名与字段名相同
+const STORE_INDEXES: Record<string, string[]> = {
+  [SNAPSHOT_STORE]: [SNAPSHOT_DOCUMENT_INDEX],
+}
+
+let databasePromise: Promise<IDBDatabase> | null = null
+
+function openDatabase(): Promise<IDBDatabase> {
+  return new Promise((resolve, reject) => {
+    if (typeof indexedDB === 'undefined') {
+      reject(new Error('当前浏览器不支持 IndexedDB'))
+      return
+    }
+    const request = indexedDB.open(DB_NAME, DB_VERSION)
+    request.onupgradeneeded = () => {
+      const db = request.result
+      const transaction = request.transaction!
+      STORES.forEach(name => {
+        const store = db.objectStoreNames.contains(name)
+          ? transaction.objectStore(name)
+          : db.createObjectStore(name, { keyPath: 'id' })
+        ;(STORE_INDEXES[name] || []).forEach(field => {
+          if (!store.indexNames.contains(field)) {
+            store.createIndex(field, field)
+          }
+        })
+      })
+    }
+    request.onsuccess = () => {
+      const db = request.result
+      // 其他页面升级数据库时关闭当前连接，避免阻塞升级
+      db.onversionchange = () => {
+        db.close()
+        databasePromise = null
+      }
+      resolve(db)
+    }
+    request.onerror = () => reject(request.error)
+  })
+}
+
+// 复用同一个连接，打开失败时允许下次重试
+function getDatabase(): Promise<IDBDatabase> {
+  if (!databasePromise) {
+    databasePromise = openDatabase().catch(error => {
+      databasePromise = null
+      throw error
+    })
+  }
+  return databasePromise
+}
+
+// 在单个对象仓库上执行一次请求，事务完成后返回请求结果
+export async function runStoreRequest<T>(
+  storeName: string,
+  mode: IDBTransactionMode,
+  action: (store: IDBObjectStore) => IDBRequest<T>
+): Promise<T> {
+  const db = await getDatabase()
+  return new Promise((resolve, reject) => {
+    const transaction = db.transaction(storeName, mode)
+    const request = action(transaction.objectStore(storeName))
+    transaction.oncomplete = () => resolve(request.result)
+    transaction.onerror = () => reject(transaction.error)
+    transaction.onabort = () => reject(transaction.error)
+  })
+}
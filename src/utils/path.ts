@@ -0,0 +1,96 @@
+// 表单路径工具：路径统一使用 JSON Pointer（RFC 6901）表示，如 "/a/b/0/c"，根路径为 ""。
+// 键中的 "~" 和 "/" 会被转义，因此 "app.kubernetes.io/name"、"a[0]" 这类键不会与嵌套路径混淆
+
+export type PathSegment = string | number
+
+// 转义单个路径段：~ → ~0，/ → ~1
+export function escapePathSegment(segment: PathSegment): string {
+  return String(segment).replace(/~/g, '~0').replace(/\//g, '~1')
+}
+
+function unescapePathSegment(segment: string): string {
+  return segment.replace(/~1/g, '/').replace(/~0/g, '~')
+}
+
+// 将路径段数组格式化为路径字符串
+export function formatPath(segments: PathSegment[]): string {
+  return segments.map(segment => `/${escapePathSegment(segment)}`).join('')
+}
+
+// 在父路径后追加一个路径段
+export function appendPath(path: string, segment: PathSegment): string {
+  return `${path}/${escapePathSegment(segment)}`
+}
+
+// 将路径字符串解析为路径段数组（纯数字段视为数组索引，读写对象时与同名字符串键等价）
+export function parsePath(path: string): PathSegment[] {
+  if (!path) return []
+  return path.split('/').slice(1).map(raw => {
+    const segment = unescapePathSegment(raw)
+    return /^(0|[1-9]\d*)$/.test(segment) ? parseInt(segment) : segment
+  })
+}
+
+// 所有祖先路径（不含根路径和自身），从外到内排列
+export function getAncestorPaths(path: string): string[] {
+  const segments = parsePath(path)
+  return segments.slice(0, -1).map((_, index) => formatPath(segments.slice(0, index + 1)))
+}
+
+// 将 JSON Pointer（如 "/a/b/0"）转换为路径段数组，借助数据判断哪些段是数组索引
+export function pointerToSegments(pointer: string, data: any): PathSegment[] {
+  if (!pointer) return []
+  const segments: PathSegment[] = []
+  let current = data
+  pointer.split('/').slice(1).forEach(raw => {
+    const part = unescapePathSegment(raw)
+    if (Array.isArray(current) && /^\d+$/.test(part)) {
+      const index = parseInt(part)
+      segments.push(index)
+      current = current[index]
+    } else {
+      segments.push(part)
+      current = current && typeof current === 'object' ? current[part] : undefined
+    }
+  })
+  return segments
+}
+
+// 读取数据中指定路径的值，路径不存在时返回 undefined
+export function getValueAtPath(data: any, segments: PathSegment[]): any {
+  let current = data
+  for (const segment of segments) {
+    if (current === null || typeof current !== 'object') return undefined
+    current = current[segment]
+  }
+  return current
+}
+
+// 不可变地设置指定路径的值，返回新的数据（缺失的中间层级按下一段的类型创建对象或数组）
+export function setValueAtPath(data: any, segments: PathSegment[], value: any): any {
+  if (segments.length === 0) return value
+  const [segment, ...rest] = segments
+  const container = data !== null && typeof data === 'object'
+    ? data
+    : (typeof segment === 'number' ? [] : {})
+  const next = Array.isArray(container) ? [...container] : { ...container }
+  ;(next as any)[segment] = setValueAtPath((container as any)[segment], rest, value)
+  return next
+}
+
+// 不可变地删除指定路径的值（数组项会被移除），返回新的数据
+export function deleteValueAtPath(data: any, segments: PathSegment[]): any {
+  if (segments.length === 0 || data === null || typeof data !== 'object') return data
+  const [segment, ...rest] = segments
+  if (!(segment in data)) return data
+  if (rest.length > 0) {
+    const next = Array.isArray(data) ? [...data] : { ...data }
+    ;(next as any)[segment] = deleteValueAtPath(data[segment], rest)
+    return next
+  }
+  if (Array.isArray(data)) {
+    return data.filter((_, index) => index !== segment)
+  }
+  const { [segment]: _removed, ...remaining } = data
+  return remaining
+}
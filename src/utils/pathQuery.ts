@@ -0,0 +1,801 @@
+import { formatPath, type PathSegment } from './path'
+import { deepEqual } from './structuralDiff'
+
+// 查询语言：JSONPath（RFC 9535 的常用子集）和 jq 的常用子集
+export type QueryLanguage = 'jsonpath' | 'jq'
+
+// 搜索框的模式：文本搜索或按查询语言查询
+export type SearchMode = 'text' | QueryLanguage
+
+export const QUERY_LANGUAGE_LABELS: Record<QueryLanguage, string> = {
+  jsonpath: 'JSONPath',
+  jq: 'jq',
+}
+
+export const QUERY_PLACEHOLDERS: Record<QueryLanguage, string> = {
+  jsonpath: '如 $.spec..image',
+  jq: '如 .services[] | select(.ports[]? == 80)',
+}
+
+// 查询结果：path 为结果在文档中的位置；jq 计算出的新值（如 length、比较结果）没有位置，path 为 null
+export interface QueryResult {
+  path: string | null
+  value: any
+}
+
+// 求值过程中带位置的值
+interface Located {
+  value: any
+  segments: PathSegment[] | null
+}
+
+type CompareOp = '==' | '!=' | '<' | '<=' | '>' | '>=' | '=~'
+
+const NAME_PATTERN = /[^\s.[\]()*,?:=!<>&|'"@$;/]+/y
+const NAME_START_PATTERN = /^[^\s.[\]()*,?:=!<>&|'"@$;/]$/
+const INTEGER_PATTERN = /-?\d+/y
+const NUMBER_PATTERN = /-?\d+(?:\.\d+)?(?:[eE][+-]?\d+)?/y
+const COMPARE_PATTERN = /==|!=|<=|>=|=~|<|>/y
+const STRING_ESCAPES: Record<string, string> = { n: '\n', t: '\t', r: '\r', b: '\b', f: '\f' }
+
+function isPlainObject(value: any): boolean {
+  return typeof value === 'object' && value !== null && !Array.isArray(value)
+}
+
+function describeType(value: any): string {
+  if (value === null) return 'null'
+  if (Array.isArray(value)) return '数组'
+  if (typeof value === 'object') return '对象'
+  if (typeof value === 'string') return '字符串'
+  if (typeof value === 'number') return '数字'
+  return '布尔值'
+}
+
+function childAt(node: Located, segment: PathSegment, value: any): Located {
+  return { value, segments: node.segments ? [...node.segments, segment] : null }
+}
+
+function childrenOf(node: Located): Located[] {
+  if (Array.isArray(node.value)) return node.value.map((item, index) => childAt(node, index, item))
+  if (isPlainObject(node.value)) return Object.keys(node.value).map(key => childAt(node, key, node.value[key]))
+  return []
+}
+
+// 节点自身及所有后代（先序，即文档顺序）
+function descendantsOf(node: Located): Located[] {
+  return [node, ...childrenOf(node).flatMap(descendantsOf)]
+}
+
+function compareValues(op: CompareOp, left: any, right: any): boolean {
+  switch (op) {
+    case '==':
+      return deepEqual(left, right)
+    case '!=':
+      return !deepEqual(left, right)
+    case '=~':
+      if (!(right instanceof RegExp) || typeof left !== 'string') return false
+      right.lastIndex = 0
+      return right.test(left)
+  }
+  const comparable = (typeof left === 'number' && typeof right === 'number') || (typeof left === 'string' && typeof right === 'string')
+  if (!comparable) return false
+  switch (op) {
+    case '<':
+      return left < right
+    case '<=':
+      return left <= right
+    case '>':
+      return left > right
+    default:
+      return left >= right
+  }
+}
+
+// 逐字符读取查询文本，出错时报告位置
+class Scanner {
+  pos = 0
+
+  constructor(private text: string) {}
+
+  done(): boolean {
+    return this.pos >= this.text.length
+  }
+
+  peek(offset = 0): string {
+    return this.text[this.pos + offset] ?? ''
+  }
+
+  skipSpace() {
+    while (/\s/.test(this.peek())) this.pos++
+  }
+
+  eat(token: string): boolean {
+    if (!this.text.startsWith(token, this.pos)) return false
+    this.pos += token.length
+    return true
+  }
+
+  // 匹配关键字（后面不能紧跟名称字符）
+  eatWord(word: string): boolean {
+    if (!this.text.startsWith(word, this.pos) || /[\w$]/.test(this.text[this.pos + word.length] ?? '')) return false
+    this.pos += word.length
+    return true
+  }
+
+  expect(token: string) {
+    this.skipSpace()
+    if (!this.eat(token)) this.error(`缺少 "${token}"`)
+  }
+
+  match(pattern: RegExp): string | null {
+    pattern.lastIndex = this.pos
+    const match = pattern.exec(this.text)
+    if (!match) return null
+    this.pos += match[0].length
+    return match[0]
+  }
+
+  readString(): string {
+    const quote = this.peek()
+    this.pos++
+    let result = ''
+    while (!this.done() && this.peek() !== quote) {
+      let char = this.peek()
+      this.pos++
+      if (char === '\\') {
+        const escaped = this.peek()
+        this.pos++
+        if (escaped === 'u') {
+          char = String.fromCharCode(parseInt(this.text.slice(this.pos, this.pos + 4), 16))
+          this.pos += 4
+        } else {
+          char = STRING_ESCAPES[escaped] ?? escaped
+        }
+      }
+      result += char
+    }
+    if (this.done()) this.error('字符串缺少结束引号')
+    this.pos++
+    return result
+  }
+
+  readRegex(): RegExp {
+    this.pos++
+    let source = ''
+    while (!this.done() && this.peek() !== '/') {
+      if (this.peek() === '\\') {
+        source += this.peek()
+        this.pos++
+      }
+      source += this.peek()
+      this.pos++
+    }
+    if (this.done()) this.error('正则表达式缺少结束的 /')
+    this.pos++
+    const flags = this.match(/[a-z]*/y) ?? ''
+    return this.createRegex(source, flags)
+  }
+
+  createRegex(source: string, flags: string): RegExp {
+    try {
+      return new RegExp(source, flags.replace('g', ''))
+    } catch (error) {
+      this.error(`正则表达式无效：${error instanceof Error ? error.message : String(error)}`)
+    }
+  }
+
+  rest(): string {
+    return this.text.slice(this.pos)
+  }
+
+  error(message: string): never {
+    throw new Error(`${message}（位置 ${this.pos + 1}）`)
+  }
+}
+
+// ---------- JSONPath ----------
+
+type JsonPathSelector =
+  | { type: 'name'; name: string }
+  | { type: 'wildcard' }
+  | { type: 'index'; index: number }
+  | { type: 'slice'; start: number | null; end: number | null; step: number | null }
+  | { type: 'filter'; expr: FilterExpr }
+
+interface JsonPathSegment {
+  recursive: boolean
+  selectors: JsonPathSelector[]
+}
+
+type FilterOperand =
+  | { type: 'literal'; value: any }
+  | { type: 'path'; root: '@' | '$'; segments: JsonPathSegment[] }
+
+type FilterExpr =
+  | { type: 'and' | 'or'; left: FilterExpr; right: FilterExpr }
+  | { type: 'not'; operand: FilterExpr }
+  | { type: 'compare'; op: CompareOp; left: FilterOperand; right: FilterOperand }
+  | { type: 'exists'; operand: FilterOperand }
+
+function parseJsonPath(text: string): JsonPathSegment[] {
+  const scanner = new Scanner(text)
+  scanner.skipSpace()
+  if (!scanner.eat('$')) scanner.error('JSONPath 需要以 $ 开头')
+  const segments = parseJsonPathSegments(scanner)
+  scanner.skipSpace()
+  if (!scanner.done()) scanner.error(`无法解析 "${scanner.rest()}"`)
+  return segments
+}
+
+function parseJsonPathSegments(scanner: Scanner): JsonPathSegment[] {
+  const segments: JsonPathSegment[] = []
+  for (;;) {
+    if (scanner.eat('..')) {
+      const selectors = scanner.peek() === '[' ? parseBracketSelectors(scanner) : [parseDotSelector(scanner)]
+      segments.push({ recursive: true, selectors })
+    } else if (scanner.eat('.')) {
+      segments.push({ recursive: false, selectors: [parseDotSelector(scanner)] })
+    } else if (scanner.peek() === '[') {
+      segments.push({ recursive: false, selectors: parseBracketSelectors(scanner) })
+    } else {
+      return segments
+    }
+  }
+}
+
+function parseDotSelector(scanner: Scanner): JsonPathSelector {
+  if (scanner.eat('*')) return { type: 'wildcard' }
+  const name = scanner.match(NAME_PATTERN)
+  if (!name) scanner.error('缺少属性名')
+  return { type: 'name', name }
+}
+
+function parseBracketSelectors(scanner: Scanner): JsonPathSelector[] {
+  scanner.eat('[')
+  const selectors: JsonPathSelector[] = []
+  do {
+    scanner.skipSpace()
+    selectors.push(parseBracketSelector(scanner))
+    scanner.skipSpace()
+  } while (scanner.eat(','))
+  scanner.expect(']')
+  return selectors
+}
+
+function parseBracketSelector(scanner: Scanner): JsonPathSelector {
+  const char = scanner.peek()
+  if (char === '"' || char === "'") return { type: 'name', name: scanner.readString() }
+  if (scanner.eat('*')) return { type: 'wildcard' }
+  if (scanner.eat('?')) return { type: 'filter', expr: parseFilterOr(scanner) }
+
+  const readInteger = () => {
+    scanner.skipSpace()
+    const digits = scanner.match(INTEGER_PATTERN)
+    scanner.skipSpace()
+    return digits === null ? null : parseInt(digits, 10)
+  }
+  const start = readInteger()
+  if (!scanner.eat(':')) {
+    if (start === null) scanner.error('无法解析选择器')
+    return { type: 'index', index: start }
+  }
+  const end = readInteger()
+  const step = scanner.eat(':') ? readInteger() : null
+  return { type: 'slice', start, end, step }
+}
+
+function parseFilterOr(scanner: Scanner): FilterExpr {
+  let left = parseFilterAnd(scanner)
+  scanner.skipSpace()
+  while (scanner.eat('||')) {
+    left = { type: 'or', left, right: parseFilterAnd(scanner) }
+    scanner.skipSpace()
+  }
+  return left
+}
+
+function parseFilterAnd(scanner: Scanner): FilterExpr {
+  let left = parseFilterUnary(scanner)
+  scanner.skipSpace()
+  while (scanner.eat('&&')) {
+    left = { type: 'and', left, right: parseFilterUnary(scanner) }
+    scanner.skipSpace()
+  }
+  return left
+}
+
+function parseFilterUnary(scanner: Scanner): FilterExpr {
+  scanner.skipSpace()
+  if (scanner.peek() === '!' && scanner.peek(1) !== '=') {
+    scanner.eat('!')
+    return { type: 'not', operand: parseFilterUnary(scanner) }
+  }
+  if (scanner.eat('(')) {
+    const expr = parseFilterOr(scanner)
+    scanner.expect(')')
+    return expr
+  }
+  const left = parseFilterOperand(scanner)
+  scanner.skipSpace()
+  const op = scanner.match(COMPARE_PATTERN) as CompareOp | null
+  if (!op) return { type: 'exists', operand: left }
+  scanner.skipSpace()
+  const right = op === '=~' ? parseRegexOperand(scanner) : parseFilterOperand(scanner)
+  return { type: 'compare', op, left, right }
+}
+
+function parseFilterOperand(scanner: Scanner): FilterOperand {
+  scanner.skipSpace()
+  const char = scanner.peek()
+  if (char === '@' || char === '$') {
+    scanner.eat(char)
+    return { type: 'path', root: char, segments: parseJsonPathSegments(scanner) }
+  }
+  if (char === '"' || char === "'") return { type: 'literal', value: scanner.readString() }
+  const number = scanner.match(NUMBER_PATTERN)
+  if (number !== null) return { type: 'literal', value: Number(number) }
+  if (scanner.eatWord('true')) return { type: 'literal', value: true }
+  if (scanner.eatWord('false')) return { type: 'literal', value: false }
+  if (scanner.eatWord('null')) return { type: 'literal', value: null }
+  scanner.error('无法解析过滤条件')
+}
+
+// =~ 右侧：/正则/标志 或字符串形式的正则
+function parseRegexOperand(scanner: Scanner): FilterOperand {
+  const char = scanner.peek()
+  if (char === '/') return { type: 'literal', value: scanner.readRegex() }
+  if (char === '"' || char === "'") return { type: 'literal', value: scanner.createRegex(scanner.readString(), '') }
+  scanner.error('=~ 右侧需要正则表达式')
+}
+
+function applyJsonPath(nodes: Located[], segments: JsonPathSegment[], root: Located): Located[] {
+  return segments.reduce((current, segment) => current.flatMap(node =>
+    (segment.recursive ? descendantsOf(node) : [node]).flatMap(target =>
+      segment.selectors.flatMap(selector => applySelector(target, selector, root))
+    )
+  ), nodes)
+}
+
+function applySelector(node: Located, selector: JsonPathSelector, root: Located): Located[] {
+  const value = node.value
+  switch (selector.type) {
+    case 'name':
+      return isPlainObject(value) && Object.prototype.hasOwnProperty.call(value, selector.name)
+        ? [childAt(node, selector.name, value[selector.name])]
+        : []
+    case 'wildcard':
+      return childrenOf(node)
+    case 'index': {
+      if (!Array.isArray(value)) return []
+      const index = selector.index < 0 ? value.length + selector.index : selector.index
+      return index >= 0 && index < value.length ? [childAt(node, index, value[index])] : []
+    }
+    case 'slice': {
+      if (!Array.isArray(value)) return []
+      const step = selector.step ?? 1
+      if (step === 0) return []
+      const normalize = (index: number) => index < 0 ? Math.max(value.length + index, step > 0 ? 0 : -1) : Math.min(index, step > 0 ? value.length : value.length - 1)
+      const start = selector.start === null ? (step > 0 ? 0 : value.length - 1) : normalize(selector.start)
+      const end = selector.end === null ? (step > 0 ? value.length : -1) : normalize(selector.end)
+      const result: Located[] = []
+      for (let index = start; step > 0 ? index < end : index > end; index += step) {
+        result.push(childAt(node, index, value[index]))
+      }
+      return result
+    }
+    case 'filter':
+      return childrenOf(node).filter(child => testFilter(selector.expr, child, root))
+  }
+}
+
+function filterOperandValues(operand: FilterOperand, current: Located, root: Located): any[] {
+  if (operand.type === 'literal') return [operand.value]
+  return applyJsonPath([operand.root === '@' ? current : root], operand.segments, root).map(node => node.value)
+}
+
+// 路径可能得到多个值，比较时只要有一组值满足条件即为真
+function testFilter(expr: FilterExpr, current: Located, root: Located): boolean {
+  switch (expr.type) {
+    case 'and':
+      return testFilter(expr.left, current, root) && testFilter(expr.right, current, root)
+    case 'or':
+      return testFilter(expr.left, current, root) || testFilter(expr.right, current, root)
+    case 'not':
+      return !testFilter(expr.operand, current, root)
+    case 'exists':
+      return expr.operand.type === 'literal'
+        ? Boolean(expr.operand.value)
+        : filterOperandValues(expr.operand, current, root).length > 0
+    case 'compare': {
+      const rightValues = filterOperandValues(expr.right, current, root)
+      return filterOperandValues(expr.left, current, root).some(left => rightValues.some(right => compareValues(expr.op, left, right)))
+    }
+  }
+}
+
+// ---------- jq ----------
+
+type JqExpr =
+  | { type: 'identity' }
+  | { type: 'recurse' }
+  | { type: 'field'; target: JqExpr; name: string }
+  | { type: 'index'; target: JqExpr; index: number }
+  | { type: 'iterate'; target: JqExpr }
+  | { type: 'slice'; target: JqExpr; start: number | null; end: number | null }
+  | { type: 'optional'; target: JqExpr }
+  | { type: 'literal'; value: any }
+  | { type: 'collect'; expr: JqExpr | null }
+  | { type: 'pipe' | 'comma' | 'alternative' | 'and' | 'or'; left: JqExpr; right: JqExpr }
+  | { type: 'compare'; op: CompareOp; left: JqExpr; right: JqExpr }
+  | { type: 'call'; name: string; args: JqExpr[] }
+
+// 支持的函数及参数个数
+const JQ_FUNCTIONS: Record<string, number[]> = {
+  select: [1],
+  not: [0],
+  empty: [0],
+  recurse: [0],
+  has: [1],
+  test: [1, 2],
+  startswith: [1],
+  endswith: [1],
+  contains: [1],
+  length: [0],
+  keys: [0],
+  type: [0],
+  any: [0, 1],
+  all: [0, 1],
+  map: [1],
+}
+
+function parseJq(text: string): JqExpr {
+  const scanner = new Scanner(text)
+  const expr = parseJqPipe(scanner)
+  scanner.skipSpace()
+  if (!scanner.done()) scanner.error(`无法解析 "${scanner.rest()}"`)
+  return expr
+}
+
+function parseJqPipe(scanner: Scanner): JqExpr {
+  let left = parseJqComma(scanner)
+  scanner.skipSpace()
+  while (scanner.eat('|')) {
+    left = { type: 'pipe', left, right: parseJqComma(scanner) }
+    scanner.skipSpace()
+  }
+  return left
+}
+
+function parseJqComma(scanner: Scanner): JqExpr {
+  let left = parseJqAlternative(scanner)
+  scanner.skipSpace()
+  while (scanner.eat(',')) {
+    left = { type: 'comma', left, right: parseJqAlternative(scanner) }
+    scanner.skipSpace()
+  }
+  return left
+}
+
+function parseJqAlternative(scanner: Scanner): JqExpr {
+  let left = parseJqOr(scanner)
+  scanner.skipSpace()
+  while (scanner.eat('//')) {
+    left = { type: 'alternative', left, right: parseJqOr(scanner) }
+    scanner.skipSpace()
+  }
+  return left
+}
+
+function parseJqOr(scanner: Scanner): JqExpr {
+  let left = parseJqAnd(scanner)
+  scanner.skipSpace()
+  while (scanner.eatWord('or')) {
+    left = { type: 'or', left, right: parseJqAnd(scanner) }
+    scanner.skipSpace()
+  }
+  return left
+}
+
+function parseJqAnd(scanner: Scanner): JqExpr {
+  let left = parseJqCompare(scanner)
+  scanner.skipSpace()
+  while (scanner.eatWord('and')) {
+    left = { type: 'and', left, right: parseJqCompare(scanner) }
+    scanner.skipSpace()
+  }
+  return left
+}
+
+function parseJqCompare(scanner: Scanner): JqExpr {
+  const left = parseJqPostfix(scanner)
+  scanner.skipSpace()
+  const op = scanner.match(/==|!=|<=|>=|<|>/y) as CompareOp | null
+  if (!op) return left
+  return { type: 'compare', op, left, right: parseJqPostfix(scanner) }
+}
+
+function parseJqPostfix(scanner: Scanner): JqExpr {
+  let expr = parseJqTerm(scanner)
+  for (;;) {
+    if (scanner.peek() === '.' && scanner.peek(1) !== '.' && scanner.peek(1) !== '[' && scanner.peek(1) !== '') {
+      scanner.eat('.')
+      expr = { type: 'field', target: expr, name: parseJqFieldName(scanner) }
+    } else if (scanner.peek() === '[' || (scanner.peek() === '.' && scanner.peek(1) === '[')) {
+      scanner.eat('.')
+      expr = parseJqBracket(scanner, expr)
+    } else if (scanner.eat('?')) {
+      expr = { type: 'optional', target: expr }
+    } else {
+      return expr
+    }
+  }
+}
+
+function parseJqFieldName(scanner: Scanner): string {
+  const char = scanner.peek()
+  if (char === '"' || char === "'") return scanner.readString()
+  const name = scanner.match(NAME_PATTERN)
+  if (!name) scanner.error('缺少字段名')
+  return name
+}
+
+// .[] 遍历、.[n] 索引、.["key"] 字段、.[m:n] 切片
+function parseJqBracket(scanner: Scanner, target: JqExpr): JqExpr {
+  scanner.eat('[')
+  scanner.skipSpace()
+  if (scanner.eat(']')) return { type: 'iterate', target }
+  const char = scanner.peek()
+  if (char === '"' || char === "'") {
+    const name = scanner.readString()
+    scanner.expect(']')
+    return { type: 'field', target, name }
+  }
+  const readInteger = () => {
+    scanner.skipSpace()
+    const digits = scanner.match(INTEGER_PATTERN)
+    scanner.skipSpace()
+    return digits === null ? null : parseInt(digits, 10)
+  }
+  const start = readInteger()
+  if (scanner.eat(':')) {
+    const end = readInteger()
+    scanner.expect(']')
+    return { type: 'slice', target, start, end }
+  }
+  if (start === null) scanner.error('仅支持数字或字符串索引')
+  scanner.expect(']')
+  return { type: 'index', target, index: start }
+}
+
+function parseJqTerm(scanner: Scanner): JqExpr {
+  scanner.skipSpace()
+  if (scanner.eat('..')) return { type: 'recurse' }
+  if (scanner.peek() === '.') {
+    scanner.eat('.')
+    const char = scanner.peek()
+    if (char === '"' || char === "'" || NAME_START_PATTERN.test(char)) {
+      return { type: 'field', target: { type: 'identity' }, name: parseJqFieldName(scanner) }
+    }
+    return { type: 'identity' }
+  }
+  if (scanner.eat('(')) {
+    const expr = parseJqPipe(scanner)
+    scanner.expect(')')
+    return expr
+  }
+  // [f] 把 f 的所有输出收集为数组
+  if (scanner.eat('[')) {
+    scanner.skipSpace()
+    if (scanner.eat(']')) return { type: 'collect', expr: null }
+    const expr = parseJqPipe(scanner)
+    scanner.expect(']')
+    return { type: 'collect', expr }
+  }
+  const char = scanner.peek()
+  if (char === '"' || char === "'") return { type: 'literal', value: scanner.readString() }
+  const number = scanner.match(NUMBER_PATTERN)
+  if (number !== null) return { type: 'literal', value: Number(number) }
+  if (scanner.eatWord('true')) return { type: 'literal', value: true }
+  if (scanner.eatWord('false')) return { type: 'literal', value: false }
+  if (scanner.eatWord('null')) return { type: 'literal', value: null }
+
+  const name = scanner.match(/[a-z_]+/y)
+  if (!name) scanner.error('无法解析表达式')
+  const args: JqExpr[] = []
+  if (scanner.eat('(')) {
+    do {
+      args.push(parseJqPipe(scanner))
+      scanner.skipSpace()
+    } while (scanner.eat(';'))
+    scanner.expect(')')
+  }
+  const arities = JQ_FUNCTIONS[name]
+  if (!arities) scanner.error(`不支持的函数 ${name}`)
+  if (!arities.includes(args.length)) scanner.error(`函数 ${name} 的参数个数不正确`)
+  return { type: 'call', name, args }
+}
+
+function isTruthy(value: any): boolean {
+  return value !== false && value !== null && value !== undefined
+}
+
+function computed(value: any): Located {
+  return { value, segments: null }
+}
+
+// jq 的 contains：字符串为子串，数组为每一项都被包含，对象为每个键的值都被包含
+function jqContains(container: any, target: any): boolean {
+  if (typeof container === 'string' && typeof target === 'string') return container.includes(target)
+  if (Array.isArray(container) && Array.isArray(target)) {
+    return target.every(item => container.some(candidate => jqContains(candidate, item)))
+  }
+  if (isPlainObject(container) && isPlainObject(target)) {
+    return Object.keys(target).every(key => key in container && jqContains(container[key], target[key]))
+  }
+  return deepEqual(container, target)
+}
+
+function jqField(node: Located, name: string): Located {
+  if (node.value === null || node.value === undefined) return childAt(node, name, null)
+  if (!isPlainObject(node.value)) throw new Error(`无法在${describeType(node.value)}上取字段 "${name}"`)
+  return childAt(node, name, Object.prototype.hasOwnProperty.call(node.value, name) ? node.value[name] : null)
+}
+
+function jqIndex(node: Located, index: number): Located {
+  if (node.value === null || node.value === undefined) return childAt(node, index, null)
+  if (!Array.isArray(node.value)) throw new Error(`无法用数字索引${describeType(node.value)}`)
+  const resolved = index < 0 ? node.value.length + index : index
+  return childAt(node, resolved, resolved >= 0 && resolved < node.value.length ? node.value[resolved] : null)
+}
+
+function evaluateJq(expr: JqExpr, input: Located): Located[] {
+  switch (expr.type) {
+    case 'identity':
+      return [input]
+    case 'recurse':
+      return descendantsOf(input)
+    case 'field':
+      return evaluateJq(expr.target, input).map(node => jqField(node, expr.name))
+    case 'index':
+      return evaluateJq(expr.target, input).map(node => jqIndex(node, expr.index))
+    case 'iterate':
+      return evaluateJq(expr.target, input).flatMap(node => {
+        if (!Array.isArray(node.value) && !isPlainObject(node.value)) throw new Error(`无法遍历${describeType(node.value)}`)
+        return childrenOf(node)
+      })
+    case 'slice':
+      return evaluateJq(expr.target, input).map(node => {
+        if (node.value === null) return computed(null)
+        if (!Array.isArray(node.value) && typeof node.value !== 'string') throw new Error(`无法切片${describeType(node.value)}`)
+        return computed(node.value.slice(expr.start ?? undefined, expr.end ?? undefined))
+      })
+    case 'optional':
+      try {
+        return evaluateJq(expr.target, input)
+      } catch {
+        return []
+      }
+    case 'literal':
+      return [computed(expr.value)]
+    case 'collect':
+      return [computed(expr.expr ? evaluateJq(expr.expr, input).map(node => node.value) : [])]
+    case 'pipe':
+      return evaluateJq(expr.left, input).flatMap(node => evaluateJq(expr.right, node))
+    case 'comma':
+      return [...evaluateJq(expr.left, input), ...evaluateJq(expr.right, input)]
+    case 'alternative': {
+      let left: Located[] = []
+      try {
+        left = evaluateJq(expr.left, input).filter(node => isTruthy(node.value))
+      } catch {
+        left = []
+      }
+      return left.length > 0 ? left : evaluateJq(expr.right, input)
+    }
+    case 'and':
+    case 'or':
+      return evaluateJq(expr.left, input).flatMap(left => {
+        const leftTruthy = isTruthy(left.value)
+        if (expr.type === 'and' ? !leftTruthy : leftTruthy) return [computed(leftTruthy)]
+        return evaluateJq(expr.right, input).map(right => computed(isTruthy(right.value)))
+      })
+    case 'compare': {
+      const rightValues = evaluateJq(expr.right, input)
+      return evaluateJq(expr.left, input).flatMap(left => rightValues.map(right => computed(compareValues(expr.op, left.value, right.value))))
+    }
+    case 'call':
+      return callJqFunction(expr.name, expr.args, input)
+  }
+}
+
+function callJqFunction(name: string, args: JqExpr[], input: Located): Located[] {
+  const value = input.value
+  const argValues = (index: number) => evaluateJq(args[index], input).map(node => node.value)
+  const requireString = () => {
+    if (typeof value !== 'string') throw new Error(`${name} 需要字符串输入，实际为${describeType(value)}`)
+    return value
+  }
+  const requireIterable = () => {
+    if (!Array.isArray(value) && !isPlainObject(value)) throw new Error(`${name} 需要数组或对象输入，实际为${describeType(value)}`)
+    return childrenOf(input)
+  }
+
+  switch (name) {
+    // 条件有多个输出时只要有一个为真就保留输入（只输出一次，便于筛选节点）
+    case 'select':
+      return evaluateJq(args[0], input).some(node => isTruthy(node.value)) ? [input] : []
+    case 'not':
+      return [computed(!isTruthy(value))]
+    case 'empty':
+      return []
+    case 'recurse':
+      return descendantsOf(input)
+    case 'has':
+      return argValues(0).map(key => {
+        if (isPlainObject(value)) return computed(Object.prototype.hasOwnProperty.call(value, String(key)))
+        if (Array.isArray(value) && typeof key === 'number') return computed(key >= 0 && key < value.length)
+        throw new Error(`无法检查${describeType(value)}是否包含键 ${JSON.stringify(key)}`)
+      })
+    case 'test': {
+      const text = requireString()
+      const flags = args.length > 1 ? String(argValues(1)[0] ?? '') : ''
+      return argValues(0).map(source => {
+        try {
+          return computed(new RegExp(String(source), flags.replace(/[gnpsl]/g, '')).test(text))
+        } catch (error) {
+          throw new Error(`正则表达式无效：${error instanceof Error ? error.message : String(error)}`)
+        }
+      })
+    }
+    case 'startswith':
+      return argValues(0).map(prefix => computed(requireString().startsWith(String(prefix))))
+    case 'endswith':
+      return argValues(0).map(suffix => computed(requireString().endsWith(String(suffix))))
+    case 'contains':
+      return argValues(0).map(target => computed(jqContains(value, target)))
+    case 'length':
+      if (value === null) return [computed(0)]
+      if (typeof value === 'number') return [computed(Math.abs(value))]
+      if (typeof value === 'string' || Array.isArray(value)) return [computed(value.length)]
+      if (isPlainObject(value)) return [computed(Object.keys(value).length)]
+      throw new Error(`${describeType(value)}没有长度`)
+    case 'keys':
+      if (Array.isArray(value)) return [computed(value.map((_, index) => index))]
+      if (isPlainObject(value)) return [computed(Object.keys(value).sort())]
+      throw new Error(`${describeType(value)}没有键`)
+    case 'type':
+      return [computed(value === null ? 'null' : Array.isArray(value) ? 'array' : typeof value === 'object' ? 'object' : typeof value)]
+    case 'any':
+    case 'all': {
+      const items = requireIterable()
+      const test = (item: Located) => args.length === 0 ? isTruthy(item.value) : evaluateJq(args[0], item).some(node => isTruthy(node.value))
+      return [computed(name === 'any' ? items.some(test) : items.every(test))]
+    }
+    case 'map':
+      return [computed(requireIterable().flatMap(item => evaluateJq(args[0], item)).map(node => node.value))]
+    default:
+      throw new Error(`不支持的函数 ${name}`)
+  }
+}
+
+// 对数据执行查询，结果按输出顺序排列，同一位置只保留一次；语法或求值错误时抛出带说明的 Error
+export function runQuery(data: any, query: string, language: QueryLanguage): QueryResult[] {
+  const root: Located = { value: data, segments: [] }
+  const nodes = language === 'jsonpath'
+    ? applyJsonPath([root], parseJsonPath(query), root)
+    : evaluateJq(parseJq(query), root)
+
+  const seen = new Set<string>()
+  const results: QueryResult[] = []
+  nodes.forEach(node => {
+    if (node.segments === null) {
+      results.push({ path: null, value: node.value })
+      return
+    }
+    const path = formatPath(node.segments)
+    if (seen.has(path)) return
+    seen.add(path)
+    results.push({ path, value: node.value })
+  })
+  return results
+}
@@ -0,0 +1,35 @@
+import type { PathSegment } from './path'
+
+export type ProblemSeverity = 'error' | 'warning'
+
+export type ProblemSource = 'schema' | 'kubernetes' | 'compose' | 'workflow'
+
+export const PROBLEM_SOURCE_LABELS: Record<ProblemSource, string> = {
+  schema: 'Schema',
+  kubernetes: 'Kubernetes',
+  compose: 'Compose',
+  workflow: 'Workflow',
+}
+
+// 校验问题：path 为表单路径，segments 为对应的路径段
+export interface Problem {
+  path: string
+  segments: PathSegment[]
+  message: string
+  severity: ProblemSeverity
+  source: ProblemSource
+}
+
+// 按路径分组问题，供表单按字段显示
+export function groupProblemsByPath(problems: Problem[]): Map<string, Problem[]> {
+  const map = new Map<string, Problem[]>()
+  problems.forEach(problem => {
+    const list = map.get(problem.path)
+    if (list) {
+      list.push(problem)
+    } else {
+      map.set(problem.path, [problem])
+    }
+  })
+  return map
+}
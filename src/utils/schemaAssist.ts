@@ -0,0 +1,199 @@
+import * as YAML from 'yaml'
+import { parseYamlStream } from './yamlDocuments'
+import { getDocumentIndexAtOffset, getPathAtOffset, getRangeForPath, type OffsetRange } from './yamlAst'
+import type { PathSegment } from './path'
+import { getSchemaAtPath, getSchemaProperties, getSchemaTypes } from './schemaNavigation'
+
+// 编辑器中基于 JSON Schema 的补全和悬停说明：根据光标所在行推断路径，补全对象中尚未填写的键或当前键的枚举值。
+// 只依赖文本和 schema，在 Web Worker 中运行，不阻塞编辑
+
+export interface SchemaCompletionItem {
+  label: string
+  kind: 'property' | 'value'
+  insertText: string
+  // 类型摘要，如 "string"、"integer | null"
+  detail?: string
+  documentation?: string
+  required?: boolean
+  // 插入键后继续弹出值的补全（值有枚举或是布尔类型）
+  retrigger?: boolean
+}
+
+export interface SchemaCompletionResult {
+  items: SchemaCompletionItem[]
+  // 补全替换的文本范围（光标所在的单词）
+  range: OffsetRange
+}
+
+export interface SchemaHoverResult {
+  // Markdown 格式的说明
+  contents: string[]
+  range: OffsetRange | null
+}
+
+// 补全时替换当前行内容所用的占位键，用于让未写完的行也能解析出路径
+const PLACEHOLDER_KEY = '__yameilo_completion__'
+
+// 光标前是缩进、可选的 "- " 和未写完的键
+const KEY_CONTEXT = /^(\s*(?:-[ \t]+)*)([^\s#:'"{}[\],-][^\s#:'"{}[\],]*)?$/
+// 光标前是 "键: " 和未写完的值
+const VALUE_CONTEXT = /^(\s*(?:-[ \t]+)*)([^\s#:'"{}[\],-][^#:]*?|"[^"]*"|'[^']*'):[ \t]+([^\s#'"{}[\],]*)$/
+
+// schema 的类型摘要：保留 integer 等声明的类型，未声明时按 getSchemaTypes 推断
+function describeType(schema: Record<string, any>): string | undefined {
+  const declared: string[] = Array.isArray(schema.type) ? schema.type : typeof schema.type === 'string' ? [schema.type] : getSchemaTypes(schema)
+  return declared.length > 0 ? declared.join(' | ') : undefined
+}
+
+function describeSchema(schema: Record<string, any>): string | undefined {
+  const text = [schema.title, schema.description].filter(part => typeof part === 'string' && part).join('\n\n')
+  return text || undefined
+}
+
+// 标量值写入 YAML 时的文本，需要时加引号（如 "yes"、"1.0"）
+function formatScalar(value: any): string {
+  return YAML.stringify(value).trimEnd()
+}
+
+// schema 允许的标量取值：enum、const，或布尔类型的 true / false
+function getValueCandidates(schema: Record<string, any> | null): any[] {
+  if (!schema) return []
+  const candidates: any[] = Array.isArray(schema.enum) ? schema.enum : 'const' in schema ? [schema.const] : []
+  if (candidates.length > 0) return candidates.filter(value => value === null || typeof value !== 'object')
+  return getSchemaTypes(schema).includes('boolean') ? [true, false] : []
+}
+
+// 把光标所在行替换为 "前缀键: null" 后解析，返回该键的路径和所在文档；行结构无法解析出该键时返回 null
+function parseWithLineReplaced(
+  text: string,
+  lineStart: number,
+  lineEnd: number,
+  prefix: string,
+  key: string
+): { doc: YAML.Document; segments: PathSegment[] } | null {
+  const replaced = `${text.slice(0, lineStart)}${prefix}${key}: null${text.slice(lineEnd)}`
+  const keyOffset = lineStart + prefix.length
+  const docs = parseYamlStream(replaced)
+  const doc = docs[getDocumentIndexAtOffset(docs, keyOffset)]
+  if (!doc) return null
+  const segments = getPathAtOffset(doc, keyOffset)
+  const name = key.replace(/^(["'])(.*)\1$/, '$2')
+  return segments[segments.length - 1] === name ? { doc, segments } : null
+}
+
+// 对象中已经存在的键（不含占位键）
+function getExistingKeys(doc: YAML.Document, parent: PathSegment[]): Set<string> {
+  const node = parent.length === 0 ? doc.contents : doc.getIn(parent, true)
+  const keys = new Set<string>()
+  if (YAML.isMap(node)) {
+    node.items.forEach(pair => {
+      if (YAML.isScalar(pair.key) && pair.key.value !== PLACEHOLDER_KEY) keys.add(String(pair.key.value))
+    })
+  }
+  return keys
+}
+
+function createValueItems(schema: Record<string, any> | null): SchemaCompletionItem[] {
+  const detail = schema ? describeType(schema) : undefined
+  return getValueCandidates(schema).map(value => ({
+    label: formatScalar(value),
+    kind: 'value',
+    insertText: formatScalar(value),
+    detail,
+    documentation: schema && 'default' in schema && schema.default === value ? '默认值' : undefined,
+  }))
+}
+
+// 对象中尚未填写的键；插入时按值的类型补上冒号和换行（对象换行缩进，数组换行并写好 "- "）
+function createPropertyItems(schema: Record<string, any> | null, root: any, existing: Set<string>, hasColon: boolean): SchemaCompletionItem[] {
+  return getSchemaProperties(schema, root)
+    .filter(property => !existing.has(property.name))
+    .map(property => {
+      const types = getSchemaTypes(property.schema)
+      const key = formatScalar(property.name)
+      let insertText = `${key}: `
+      if (hasColon) {
+        insertText = key
+      } else if (types.length === 1 && types[0] === 'object') {
+        insertText = `${key}:\n  `
+      } else if (types.length === 1 && types[0] === 'array') {
+        insertText = `${key}:\n  - `
+      }
+      return {
+        label: property.name,
+        kind: 'property',
+        insertText,
+        detail: describeType(property.schema),
+        documentation: describeSchema(property.schema),
+        required: property.required,
+        retrigger: !hasColon && getValueCandidates(property.schema).length > 0,
+      }
+    })
+}
+
+// 计算光标处的补全项：在键的位置补全父对象 schema 中尚未填写的属性（数组项位置同时补全项的枚举值），
+// 在 "键: " 之后补全该键的枚举值
+export function getSchemaCompletions(text: string, offset: number, rootSchema: any): SchemaCompletionResult | null {
+  const lineStart = text.lastIndexOf('\n', offset - 1) + 1
+  const newline = text.indexOf('\n', offset)
+  const lineEnd = newline === -1 ? text.length : newline
+  const before = text.slice(lineStart, offset)
+  const after = text.slice(offset, lineEnd)
+
+  const valueMatch = VALUE_CONTEXT.exec(before)
+  if (valueMatch) {
+    const [, prefix, key, partial] = valueMatch
+    const parsed = parseWithLineReplaced(text, lineStart, lineEnd, prefix, key.trim())
+    if (!parsed) return null
+    const wordEnd = offset + (/^[^\s#,\]}]*/.exec(after)?.[0].length ?? 0)
+    return {
+      items: createValueItems(getSchemaAtPath(rootSchema, parsed.segments)),
+      range: [offset - partial.length, wordEnd],
+    }
+  }
+
+  const keyMatch = KEY_CONTEXT.exec(before)
+  if (!keyMatch) return null
+  const [, prefix, partial = ''] = keyMatch
+  const parsed = parseWithLineReplaced(text, lineStart, lineEnd, prefix, PLACEHOLDER_KEY)
+  if (!parsed) return null
+  const parent = parsed.segments.slice(0, -1)
+  const parentSchema = getSchemaAtPath(rootSchema, parent)
+  const word = /^[^\s#:'"{}[\],]*/.exec(after)?.[0] ?? ''
+  // 正在修改已有的键时只替换键名
+  const hasColon = /^\s*:/.test(after.slice(word.length))
+  const items = createPropertyItems(parentSchema, rootSchema, getExistingKeys(parsed.doc, parent), hasColon)
+  if (/-[ \t]+$/.test(prefix) && !hasColon) {
+    items.push(...createValueItems(parentSchema))
+  }
+  return { items, range: [offset - partial.length, offset + word.length] }
+}
+
+// 计算光标处字段的悬停说明：标题、描述、类型、默认值和可选值；schema 中没有定义该字段时返回 null
+export function getSchemaHover(text: string, offset: number, rootSchema: any): SchemaHoverResult | null {
+  const docs = parseYamlStream(text)
+  const doc = docs[getDocumentIndexAtOffset(docs, offset)]
+  if (!doc) return null
+  const segments = getPathAtOffset(doc, offset)
+  if (segments.length === 0) return null
+  const schema = getSchemaAtPath(rootSchema, segments)
+  if (!schema) return null
+
+  const contents: string[] = []
+  const name = segments[segments.length - 1]
+  contents.push(typeof schema.title === 'string' && schema.title ? `**${schema.title}** (\`${name}\`)` : `**${name}**`)
+  if (typeof schema.description === 'string' && schema.description) {
+    contents.push(schema.description)
+  }
+  const details: string[] = []
+  const type = describeType(schema)
+  if (type) details.push(`类型: \`${type}\``)
+  if ('default' in schema) details.push(`默认值: \`${JSON.stringify(schema.default)}\``)
+  if (Array.isArray(schema.enum) && schema.enum.length > 0) {
+    details.push(`可选值: ${schema.enum.map((value: any) => `\`${JSON.stringify(value)}\``).join(' | ')}`)
+  }
+  if (details.length > 0) contents.push(details.join('  \n'))
+  if (contents.length === 1) return null
+
+  return { contents, range: getRangeForPath(doc, segments) }
+}
@@ -0,0 +1,26 @@
+import { getSchemaCompletions, getSchemaHover } from './schemaAssist'
+import type { SchemaAssistRequest, SchemaAssistResponse } from './schemaAssistClient'
+
+// 在 Worker 中计算补全和悬停说明，schema 只在变化时传入一次；出错时把错误描述随响应返回，由客户端记录
+
+let rootSchema: any = null
+
+self.onmessage = (event: MessageEvent<SchemaAssistRequest>) => {
+  const request = event.data
+  if (request.type === 'setSchema') {
+    rootSchema = request.schema
+    return
+  }
+
+  const response: SchemaAssistResponse = { id: request.id, result: null }
+  if (rootSchema) {
+    try {
+      response.result = request.type === 'complete'
+        ? getSchemaCompletions(request.text, request.offset, rootSchema)
+        : getSchemaHover(request.text, request.offset, rootSchema)
+    } catch (error) {
+      response.error = error instanceof Error ? error.message : String(error)
+    }
+  }
+  self.postMessage(response)
+}
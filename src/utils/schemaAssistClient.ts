@@ -0,0 +1,94 @@
+import type { SchemaCompletionResult, SchemaHoverResult } from './schemaAssist'
+
+// 与 schema 提示 Worker 通信：按请求 id 匹配响应，编辑器中的补全和悬停提供者通过它异步获取结果
+
+export type SchemaAssistRequest =
+  | { type: 'setSchema'; schema: any }
+  | { type: 'complete' | 'hover'; id: number; text: string; offset: number }
+
+export interface SchemaAssistResponse {
+  id: number
+  result: SchemaCompletionResult | SchemaHoverResult | null
+  // 计算出错时的错误描述，此时 result 为 null
+  error?: string
+}
+
+export interface SchemaAssistClient {
+  setSchema: (schema: any | null) => void
+  complete: (text: string, offset: number) => Promise<SchemaCompletionResult | null>
+  hover: (text: string, offset: number) => Promise<SchemaHoverResult | null>
+  dispose: () => void
+}
+
+// 创建客户端；Worker 在有 schema 时按需启动（出错后在下一次请求时重新创建），没有 schema 时请求直接返回 null
+export function createSchemaAssistClient(): SchemaAssistClient {
+  let worker: Worker | null = null
+  // 最近一次关联的 schema，重新创建 Worker 时重新传入
+  let currentSchema: any | null = null
+  let nextId = 1
+  const pending = new Map<number, (result: any) => void>()
+
+  const resolvePending = () => {
+    pending.forEach(resolve => resolve(null))
+    pending.clear()
+  }
+
+  // Worker 加载失败或在处理请求时抛出错误时，未完成的请求都返回 null（否则补全列表一直显示加载中），
+  // 并丢弃该 Worker，下一次请求时重新创建
+  const handleWorkerError = (event: Event) => {
+    console.warn('Schema assist worker failed:', event)
+    worker?.terminate()
+    worker = null
+    resolvePending()
+  }
+
+  const postSchema = (target: Worker) => {
+    const message: SchemaAssistRequest = { type: 'setSchema', schema: currentSchema }
+    target.postMessage(message)
+  }
+
+  const startWorker = (): Worker => {
+    const created = new Worker(new URL('./schemaAssist.worker.ts', import.meta.url), { type: 'module' })
+    created.onmessage = (event: MessageEvent<SchemaAssistResponse>) => {
+      if (event.data.error) {
+        console.warn('Failed to compute schema assist:', event.data.error)
+      }
+      const resolve = pending.get(event.data.id)
+      pending.delete(event.data.id)
+      resolve?.(event.data.result)
+    }
+    created.onerror = handleWorkerError
+    created.onmessageerror = handleWorkerError
+    postSchema(created)
+    return created
+  }
+
+  const request = (type: 'complete' | 'hover', text: string, offset: number): Promise<any> => {
+    if (!currentSchema) return Promise.resolve(null)
+    const target = worker ?? (worker = startWorker())
+    const id = nextId++
+    const message: SchemaAssistRequest = { type, id, text, offset }
+    return new Promise(resolve => {
+      pending.set(id, resolve)
+      target.postMessage(message)
+    })
+  }
+
+  return {
+    setSchema(schema) {
+      currentSchema = schema || null
+      if (worker) {
+        postSchema(worker)
+      } else if (currentSchema) {
+        worker = startWorker()
+      }
+    },
+    complete: (text, offset) => request('complete', text, offset),
+    hover: (text, offset) => request('hover', text, offset),
+    dispose() {
+      worker?.terminate()
+      worker = null
+      resolvePending()
+    },
+  }
+}
@@ -0,0 +1,240 @@
+import type { PathSegment } from './path'
+
+// 在 JSON Schema 中按数据路径查找字段定义：展开文档内的 $ref，合并 allOf / anyOf / oneOf 的分支，
+// 供表单控件、编辑器补全和悬停提示使用。只做结构上的查找，不根据数据选择 anyOf / oneOf 的分支
+
+export type SchemaValueType = 'string' | 'number' | 'boolean' | 'object' | 'array' | 'null'
+
+// 对象 schema 中的一个属性
+export interface SchemaProperty {
+  name: string
+  schema: any
+  required: boolean
+}
+
+// 合并 $ref 与组合关键字时的嵌套上限，防止自引用的 schema 无限展开
+const MAX_RESOLVE_DEPTH = 16
+
+function isSchemaObject(value: any): value is Record<string, any> {
+  return !!value && typeof value === 'object' && !Array.isArray(value)
+}
+
+// 按 JSON Pointer 查找文档内的引用（#/definitions/x、#/$defs/x），不支持外部引用
+function lookupRef(ref: string, root: any): any {
+  if (!ref.startsWith('#')) return null
+  const pointer = ref.slice(1)
+  if (!pointer) return root
+  return pointer
+    .split('/')
+    .slice(1)
+    .map(part => decodeURIComponent(part).replace(/~1/g, '/').replace(/~0/g, '~'))
+    .reduce((node, part) => (isSchemaObject(node) ? node[part] : undefined), root) ?? null
+}
+
+// 合并两个 schema：first 中已有的描述性字段优先，properties 取并集，required 在 includeRequired 时取并集
+function mergeSchemas(first: Record<string, any>, second: Record<string, any>, includeRequired: boolean): Record<string, any> {
+  const merged: Record<string, any> = { ...second, ...first }
+  if (first.properties || second.properties) {
+    merged.properties = { ...second.properties, ...first.properties }
+  }
+  if (first.patternProperties || second.patternProperties) {
+    merged.patternProperties = { ...second.patternProperties, ...first.patternProperties }
+  }
+  const required = [
+    ...(Array.isArray(first.required) ? first.required : []),
+    ...(includeRequired && Array.isArray(second.required) ? second.required : []),
+  ]
+  if (required.length > 0) {
+    merged.required = Array.from(new Set(required))
+  } else {
+    delete merged.required
+  }
+  // 只要有一个分支允许额外属性，合并后就不能禁止
+  if (first.additionalProperties === false && second.additionalProperties !== undefined && second.additionalProperties !== false) {
+    merged.additionalProperties = second.additionalProperties
+  }
+  return merged
+}
+
+// 合并 anyOf / oneOf 的分支：任一分支都可能生效，type 取各分支的并集（有分支不限制类型时不限制），
+// enum、const、default 只在每个分支都有约束时保留，properties 和 patternProperties 取并集，其余字段靠前的分支优先
+function mergeAlternatives(branches: Record<string, any>[]): Record<string, any> {
+  let merged: Record<string, any> = {}
+  branches.forEach(branch => {
+    merged = mergeSchemas(merged, branch, false)
+  })
+  delete merged.type
+  delete merged.enum
+  delete merged.const
+  delete merged.default
+
+  const branchTypes = branches.map(branch => {
+    if (Array.isArray(branch.type)) return branch.type as string[]
+    if (typeof branch.type === 'string') return [branch.type]
+    return getSchemaTypes(branch)
+  })
+  if (branchTypes.every(types => types.length > 0)) {
+    const types = Array.from(new Set(branchTypes.flat()))
+    merged.type = types.length === 1 ? types[0] : types
+  }
+
+  if (branches.every(branch => Array.isArray(branch.enum) || 'const' in branch)) {
+    const seen = new Set<string>()
+    merged.enum = branches
+      .flatMap(branch => Array.isArray(branch.enum) ? branch.enum : [branch.const])
+      .filter(value => {
+        const key = JSON.stringify(value)
+        if (seen.has(key)) return false
+        seen.add(key)
+        return true
+      })
+  }
+
+  const defaultText = JSON.stringify(branches[0]?.default)
+  if (branches.every(branch => 'default' in branch && JSON.stringify(branch.default) === defaultText)) {
+    merged.default = branches[0].default
+  }
+  return merged
+}
+
+// 展开 schema 顶层的 $ref、allOf、anyOf、oneOf，得到一个合并后的 schema；
+// schema 为 true 或空对象时返回空对象（允许任意值），无效输入返回 null
+export function resolveSchema(schema: any, root: any, depth = 0): Record<string, any> | null {
+  if (schema === true) return {}
+  if (!isSchemaObject(schema)) return null
+  if (depth > MAX_RESOLVE_DEPTH) return {}
+
+  const { $ref, allOf, anyOf, oneOf, ...own } = schema
+  let result: Record<string, any> = own
+  if (typeof $ref === 'string') {
+    const target = resolveSchema(lookupRef($ref, root), root, depth + 1)
+    if (target) result = mergeSchemas(result, target, true)
+  }
+  if (Array.isArray(allOf)) {
+    allOf.forEach(part => {
+      const resolved = resolveSchema(part, root, depth + 1)
+      if (resolved) result = mergeSchemas(result, resolved, true)
+    })
+  }
+  // anyOf / oneOf 的分支都可能生效，合并后属性取并集，但分支中的必填字段不再必填
+  ;[anyOf, oneOf].forEach(branches => {
+    if (!Array.isArray(branches)) return
+    const resolved = branches
+      .map(part => resolveSchema(part, root, depth + 1))
+      .filter((part): part is Record<string, any> => part !== null)
+    if (resolved.length > 0) result = mergeSchemas(result, mergeAlternatives(resolved), false)
+  })
+  return result
+}
+
+// 对象或数组 schema 中子项的 schema（已展开），没有定义时返回 null
+export function getChildSchema(schema: Record<string, any> | null, segment: PathSegment, root: any): Record<string, any> | null {
+  if (!schema) return null
+  const isIndex = typeof segment === 'number' || /^\d+$/.test(segment)
+  if (isIndex && (schema.items !== undefined || schema.prefixItems !== undefined)) {
+    const index = Number(segment)
+    if (Array.isArray(schema.prefixItems)) {
+      return resolveSchema(index < schema.prefixItems.length ? schema.prefixItems[index] : schema.items, root)
+    }
+    if (Array.isArray(schema.items)) {
+      return resolveSchema(index < schema.items.length ? schema.items[index] : schema.additionalItems, root)
+    }
+    return resolveSchema(schema.items, root)
+  }
+
+  const name = String(segment)
+  if (isSchemaObject(schema.properties) && Object.prototype.hasOwnProperty.call(schema.properties, name)) {
+    return resolveSchema(schema.properties[name], root)
+  }
+  if (isSchemaObject(schema.patternProperties)) {
+    for (const [pattern, patternSchema] of Object.entries(schema.patternProperties)) {
+      try {
+        if (new RegExp(pattern, 'u').test(name)) return resolveSchema(patternSchema, root)
+      } catch {
+        // 无效的正则忽略
+      }
+    }
+  }
+  return resolveSchema(schema.additionalProperties, root)
+}
+
+// 按路径段查找字段的 schema（已展开），路径上任何一级没有定义时返回 null
+export function getSchemaAtPath(root: any, segments: PathSegment[]): Record<string, any> | null {
+  let schema = resolveSchema(root, root)
+  for (const segment of segments) {
+    schema = getChildSchema(schema, segment, root)
+    if (!schema) return null
+  }
+  return schema
+}
+
+// schema 允许的值类型（integer 归为 number）；未声明 type 时根据 enum、properties、items 推断，无法推断时返回空数组
+export function getSchemaTypes(schema: Record<string, any> | null): SchemaValueType[] {
+  if (!schema) return []
+  const declared: string[] = Array.isArray(schema.type) ? schema.type : typeof schema.type === 'string' ? [schema.type] : []
+  const types = new Set<SchemaValueType>()
+  declared.forEach(type => {
+    if (type === 'integer' || type === 'number') types.add('number')
+    else if (['string', 'boolean', 'object', 'array', 'null'].includes(type)) types.add(type as SchemaValueType)
+  })
+  if (types.size === 0) {
+    if (Array.isArray(schema.enum)) {
+      schema.enum.forEach((value: any) => types.add(getJsonValueType(value)))
+    } else if ('const' in schema) {
+      types.add(getJsonValueType(schema.const))
+    } else if (schema.properties || schema.patternProperties || schema.required) {
+      types.add('object')
+    } else if (schema.items || schema.prefixItems) {
+      types.add('array')
+    }
+  }
+  return Array.from(types)
+}
+
+function getJsonValueType(value: any): SchemaValueType {
+  if (value === null) return 'null'
+  if (Array.isArray(value)) return 'array'
+  if (typeof value === 'object') return 'object'
+  if (typeof value === 'number') return 'number'
+  if (typeof value === 'boolean') return 'boolean'
+  return 'string'
+}
+
+// 对象 schema 中定义的属性（按 schema 中的顺序），以及是否必填
+export function getSchemaProperties(schema: Record<string, any> | null, root: any): SchemaProperty[] {
+  if (!schema || !isSchemaObject(schema.properties)) return []
+  const required = new Set<string>(Array.isArray(schema.required) ? schema.required : [])
+  return Object.keys(schema.properties).map(name => ({
+    name,
+    schema: resolveSchema(schema.properties[name], root) ?? {},
+    required: required.has(name),
+  }))
+}
+
+// 对象 schema 是否允许 properties 以外的键
+export function allowsAdditionalProperties(schema: Record<string, any> | null): boolean {
+  if (!schema) return true
+  return schema.additionalProperties !== false || isSchemaObject(schema.patternProperties)
+}
+
+// 新增字段时使用的初始值：优先使用 default，其次是 const 或第一个枚举值，否则按第一个允许的类型取空值
+export function getSchemaInitialValue(schema: Record<string, any> | null): any {
+  if (!schema) return ''
+  if ('default' in schema) return structuredClone(schema.default)
+  if ('const' in schema) return structuredClone(schema.const)
+  if (Array.isArray(schema.enum) && schema.enum.length > 0) return structuredClone(schema.enum[0])
+  switch (getSchemaTypes(schema)[0]) {
+    case 'number':
+      return 0
+    case 'boolean':
+      return false
+    case 'object':
+      return {}
+    case 'array':
+      return []
+    case 'null':
+      return null
+    default:
+      return ''
+  }
+}
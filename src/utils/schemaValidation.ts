@@ -0,0 +1,160 @@
+import Ajv, { type ErrorObject, type ValidateFunction } from 'ajv'
+import Ajv2020 from 'ajv/dist/2020'
+import { formatPath, pointerToSegments, type PathSegment } from './path'
+import type { Problem, ProblemSource } from './problems'
+
+const ajvOptions = {
+  allErrors: true,
+  strict: false,
+  validateFormats: false,
+  // 错误中带上 parentSchema，用于给拼错的字段名提供建议
+  verbose: true,
+}
+
+// draft-07 与 2020-12 使用不同的 Ajv 实例
+const ajvDraft07 = new Ajv(ajvOptions)
+const ajv2020 = new Ajv2020(ajvOptions)
+
+// 缓存已编译的校验函数，避免每次编辑都重新编译 schema
+const validatorCache = new WeakMap<object, ValidateFunction>()
+
+// 判断 schema 使用的草案版本
+export function getSchemaDraft(schema: any): 'draft-07' | '2020-12' {
+  const uri = typeof schema?.$schema === 'string' ? schema.$schema : ''
+  return uri.includes('2020-12') ? '2020-12' : 'draft-07'
+}
+
+// 编译 schema，schema 本身不合法时抛出错误
+export function compileSchema(schema: any): ValidateFunction {
+  const cached = validatorCache.get(schema)
+  if (cached) return cached
+
+  const ajv = getSchemaDraft(schema) === '2020-12' ? ajv2020 : ajvDraft07
+  // 重新加载同一 $id 的 schema 时先移除旧的，避免 Ajv 报 "already exists"
+  if (typeof schema.$id === 'string' && ajv.getSchema(schema.$id)) {
+    ajv.removeSchema(schema.$id)
+  }
+  const validate = ajv.compile(schema)
+  validatorCache.set(schema, validate)
+  return validate
+}
+
+// 两个字符串的编辑距离
+function getEditDistance(a: string, b: string): number {
+  let previous = Array.from({ length: b.length + 1 }, (_, index) => index)
+  for (let i = 1; i <= a.length; i++) {
+    const current = [i]
+    for (let j = 1; j <= b.length; j++) {
+      const cost = a[i - 1] === b[j - 1] ? 0 : 1
+      current[j] = Math.min(previous[j] + 1, current[j - 1] + 1, previous[j - 1] + cost)
+    }
+    previous = current
+  }
+  return previous[b.length]
+}
+
+// 在 schema 定义的字段中查找与未知字段最接近的名称（忽略大小写后编辑距离不超过 2）
+function suggestPropertyName(name: string, parentSchema: any): string | null {
+  const properties = parentSchema?.properties
+  if (!properties || typeof properties !== 'object') return null
+  let best: string | null = null
+  let bestDistance = Math.min(2, Math.floor(name.length / 2))
+  for (const candidate of Object.keys(properties)) {
+    const distance = getEditDistance(name.toLowerCase(), candidate.toLowerCase())
+    if (distance <= bestDistance) {
+      best = candidate
+      bestDistance = distance
+    }
+  }
+  return best
+}
+
+// 将 Ajv 错误转换为中文描述
+function formatErrorMessage(error: ErrorObject): string {
+  const params = error.params as Record<string, any>
+  switch (error.keyword) {
+    case 'required':
+      return `缺少必填字段 "${params.missingProperty}"`
+    case 'type':
+      return `类型应为 ${params.type}`
+    case 'enum':
+      return `值必须是以下之一: ${(params.allowedValues || []).map((v: any) => JSON.stringify(v)).join(', ')}`
+    case 'const':
+      return `值必须为 ${JSON.stringify(params.allowedValue)}`
+    case 'additionalProperties':
+    case 'unevaluatedProperties': {
+      const name = error.keyword === 'additionalProperties' ? params.additionalProperty : params.unevaluatedProperty
+      const suggestion = suggestPropertyName(String(name), error.parentSchema)
+      return suggestion
+        ? `不允许的字段 "${name}"，是否应为 "${suggestion}"？`
+        : `不允许的字段 "${name}"`
+    }
+    case 'minimum':
+    case 'exclusiveMinimum':
+    case 'maximum':
+    case 'exclusiveMaximum':
+      return `值应 ${params.comparison} ${params.limit}`
+    case 'minLength':
+      return `长度不能少于 ${params.limit} 个字符`
+    case 'maxLength':
+      return `长度不能超过 ${params.limit} 个字符`
+    case 'minItems':
+      return `至少需要 ${params.limit} 项`
+    case 'maxItems':
+      return `最多允许 ${params.limit} 项`
+    case 'uniqueItems':
+      return `第 ${params.j} 项与第 ${params.i} 项重复`
+    case 'pattern':
+      return `值应匹配模式 ${params.pattern}`
+    case 'format':
+      return `值应符合格式 "${params.format}"`
+    case 'oneOf':
+      return '值应恰好匹配一个子 schema'
+    case 'anyOf':
+      return '值应至少匹配一个子 schema'
+    default:
+      return error.message || `校验失败 (${error.keyword})`
+  }
+}
+
+// 计算错误对应的路径段：缺失字段和多余字段定位到具体的 key
+function getErrorSegments(error: ErrorObject, data: any): PathSegment[] {
+  const segments = pointerToSegments(error.instancePath, data)
+  const params = error.params as Record<string, any>
+  if (error.keyword === 'additionalProperties' && params.additionalProperty !== undefined) {
+    return [...segments, params.additionalProperty]
+  }
+  if (error.keyword === 'unevaluatedProperties' && params.unevaluatedProperty !== undefined) {
+    return [...segments, params.unevaluatedProperty]
+  }
+  return segments
+}
+
+// 使用 JSON Schema 校验数据，返回问题列表
+export function validateAgainstSchema(schema: any, data: any, source: ProblemSource = 'schema'): Problem[] {
+  const validate = compileSchema(schema)
+  if (validate(data)) return []
+
+  const seen = new Set<string>()
+  const problems: Problem[] = []
+  ;(validate.errors || []).forEach(error => {
+    // oneOf/anyOf 的汇总错误信息量太少，只保留具体的子错误
+    if ((error.keyword === 'oneOf' || error.keyword === 'anyOf') && (validate.errors || []).length > 1) {
+      return
+    }
+    const segments = getErrorSegments(error, data)
+    const path = formatPath(segments)
+    const message = formatErrorMessage(error)
+    const dedupeKey = `${path}\u0000${message}`
+    if (seen.has(dedupeKey)) return
+    seen.add(dedupeKey)
+    problems.push({
+      path,
+      segments,
+      message,
+      severity: 'error',
+      source,
+    })
+  })
+  return problems
+}
@@ -0,0 +1,92 @@
+import { SNAPSHOT_STORE, SNAPSHOT_DOCUMENT_INDEX, runStoreRequest } from './localDatabase'
+
+// 快照的创建时机：加载文件、保存文件、应用模板前、定时、恢复快照前和手动命名
+export type SnapshotTrigger = 'load' | 'save' | 'template' | 'interval' | 'restore' | 'manual'
+
+// 文档的版本快照，documentId 为所属标签页的 id
+export interface Snapshot {
+  id: string
+  documentId: string
+  fileName: string
+  text: string
+  trigger: SnapshotTrigger
+  // 手动创建的快照名称，自动快照为空
+  name: string
+  createdAt: number
+}
+
+export type SnapshotInput = Omit<Snapshot, 'id' | 'createdAt'>
+
+export const SNAPSHOT_TRIGGER_LABELS: Record<SnapshotTrigger, string> = {
+  load: '加载',
+  save: '保存',
+  template: '应用模板前',
+  interval: '定时',
+  restore: '恢复前',
+  manual: '手动',
+}
+
+// 每个文档最多保留的自动快照数量，手动命名的快照不受限制
+export const MAX_AUTO_SNAPSHOTS = 50
+
+let snapshotCounter = 0
+
+// 按创建时间倒序列出快照，不传 documentId 时列出所有文档的快照
+export async function listSnapshots(documentId?: string): Promise<Snapshot[]> {
+  const snapshots = await runStoreRequest<Snapshot[]>(SNAPSHOT_STORE, 'readonly', store =>
+    documentId === undefined ? store.getAll() : store.index(SNAPSHOT_DOCUMENT_INDEX).getAll(documentId)
+  )
+  return snapshots.sort((a, b) => b.createdAt - a.createdAt)
+}
+
+// 创建快照：自动快照与该文档最近一次快照的内容相同时跳过（返回 null），并清理超出数量的旧自动快照
+export async function createSnapshot(input: SnapshotInput): Promise<Snapshot | null> {
+  const existing = await listSnapshots(input.documentId)
+  if (input.trigger !== 'manual' && existing[0]?.text === input.text) {
+    return null
+  }
+
+  snapshotCounter++
+  const snapshot: Snapshot = { ...input, id: `snapshot-${Date.now()}-${snapshotCounter}`, createdAt: Date.now() }
+  await runStoreRequest(SNAPSHOT_STORE, 'readwrite', store => store.put(snapshot))
+
+  const expired = [snapshot, ...existing].filter(item => item.trigger !== 'manual').slice(MAX_AUTO_SNAPSHOTS)
+  await Promise.all(expired.map(item => deleteSnapshot(item.id)))
+  return snapshot
+}
+
+export async function deleteSnapshot(id: string): Promise<void> {
+  await runStoreRequest(SNAPSHOT_STORE, 'readwrite', store => store.delete(id))
+}
+
+// 清理快照：只删除自动快照，或连同手动命名的快照一起删除
+export async function clearSnapshots(snapshots: Snapshot[], includeManual: boolean): Promise<void> {
+  const targets = includeManual ? snapshots : snapshots.filter(snapshot => snapshot.trigger !== 'manual')
+  await Promise.all(targets.map(snapshot => deleteSnapshot(snapshot.id)))
+}
+
+// 清理已关闭标签页的自动快照；手动命名的快照保留，仍可在「所有文档」中查看和恢复
+export async function pruneClosedSnapshots(openDocumentIds: string[]): Promise<void> {
+  const open = new Set(openDocumentIds)
+  const snapshots = await listSnapshots()
+  await clearSnapshots(snapshots.filter(snapshot => !open.has(snapshot.documentId)), false)
+}
+
+// 快照的显示名称：手动快照使用名称，自动快照使用创建时机
+export function getSnapshotLabel(snapshot: Snapshot): string {
+  return snapshot.name || SNAPSHOT_TRIGGER_LABELS[snapshot.trigger]
+}
+
+const pad = (value: number) => String(value).padStart(2, '0')
+
+// 时间线按天分组显示，如 "2024/5/1"
+export function formatSnapshotDay(timestamp: number): string {
+  const date = new Date(timestamp)
+  return `${date.getFullYear()}/${date.getMonth() + 1}/${date.getDate()}`
+}
+
+// 时间线中每个快照的时间，如 "14:03:27"
+export function formatSnapshotTime(timestamp: number): string {
+  const date = new Date(timestamp)
+  return `${pad(date.getHours())}:${pad(date.getMinutes())}:${pad(date.getSeconds())}`
+}
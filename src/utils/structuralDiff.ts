@@ -0,0 +1,266 @@
+import { formatPath, type PathSegment } from './path'
+
+// 差异类型：相对于对比文档，当前文档新增、删除、修改或移动的节点
+export type DiffKind = 'added' | 'removed' | 'changed' | 'moved'
+
+export interface DiffEntry {
+  path: string
+  segments: PathSegment[]
+  kind: DiffKind
+  oldValue?: any
+  newValue?: any
+  fromPath?: string // 移动前的路径
+}
+
+export interface DiffOptions {
+  // 对象数组按该字段匹配数组项（如 name），为空时按索引比较
+  identityKey?: string
+}
+
+// 供表单按路径查找差异
+export interface DiffLookup {
+  byPath: Map<string, DiffEntry>
+  removedByParent: Map<string, DiffEntry[]>
+  changedAncestors: Set<string>
+}
+
+export const DIFF_KIND_LABELS: Record<DiffKind, string> = {
+  added: '新增',
+  removed: '删除',
+  changed: '修改',
+  moved: '移动',
+}
+
+function isPlainObject(value: any): boolean {
+  return typeof value === 'object' && value !== null && !Array.isArray(value)
+}
+
+export function deepEqual(a: any, b: any): boolean {
+  if (a === b) return true
+  if (Array.isArray(a)) {
+    return Array.isArray(b) && a.length === b.length && a.every((item, index) => deepEqual(item, b[index]))
+  }
+  if (isPlainObject(a) && isPlainObject(b)) {
+    const keysA = Object.keys(a)
+    const keysB = Object.keys(b)
+    return keysA.length === keysB.length && keysA.every(key => key in b && deepEqual(a[key], b[key]))
+  }
+  if (a instanceof Date && b instanceof Date) {
+    return a.getTime() === b.getTime()
+  }
+  return false
+}
+
+// 数组中的每一项都是带有标识字段的对象时，才按标识字段匹配
+function canMatchByIdentity(items: any[], identityKey: string): boolean {
+  return items.every(item => isPlainObject(item) && item[identityKey] !== undefined && item[identityKey] !== null)
+}
+
+// 最长递增子序列中的位置：这些匹配项保持了相对顺序，其余视为移动
+function stableIndices(sequence: number[]): Set<number> {
+  const lengths = sequence.map(() => 1)
+  const previous = sequence.map(() => -1)
+  let best = -1
+  sequence.forEach((value, i) => {
+    for (let j = 0; j < i; j++) {
+      if (sequence[j] < value && lengths[j] + 1 > lengths[i]) {
+        lengths[i] = lengths[j] + 1
+        previous[i] = j
+      }
+    }
+    if (best === -1 || lengths[i] > lengths[best]) {
+      best = i
+    }
+  })
+  const result = new Set<number>()
+  for (let i = best; i !== -1; i = previous[i]) {
+    result.add(i)
+  }
+  return result
+}
+
+function diffArrays(oldItems: any[], newItems: any[], segments: PathSegment[], options: DiffOptions, entries: DiffEntry[]) {
+  const { identityKey } = options
+  if (!identityKey || !canMatchByIdentity(oldItems, identityKey) || !canMatchByIdentity(newItems, identityKey)) {
+    // 按索引逐项比较
+    const length = Math.max(oldItems.length, newItems.length)
+    for (let index = 0; index < length; index++) {
+      const itemSegments = [...segments, index]
+      if (index >= oldItems.length) {
+        entries.push({ path: formatPath(itemSegments), segments: itemSegments, kind: 'added', newValue: newItems[index] })
+      } else if (index >= newItems.length) {
+        entries.push({ path: formatPath(itemSegments), segments: itemSegments, kind: 'removed', oldValue: oldItems[index] })
+      } else {
+        diffValues(oldItems[index], newItems[index], itemSegments, options, entries)
+      }
+    }
+    return
+  }
+
+  // 按标识字段匹配，重新排序的数组项只标记为移动
+  const oldIndicesByKey = new Map<string, number[]>()
+  oldItems.forEach((item, index) => {
+    const key = String(item[identityKey])
+    oldIndicesByKey.set(key, [...(oldIndicesByKey.get(key) || []), index])
+  })
+
+  const matches: Array<{ oldIndex: number; newIndex: number }> = []
+  const matchedOld = new Set<number>()
+  newItems.forEach((item, newIndex) => {
+    const oldIndex = oldIndicesByKey.get(String(item[identityKey]))?.shift()
+    const itemSegments = [...segments, newIndex]
+    if (oldIndex === undefined) {
+      entries.push({ path: formatPath(itemSegments), segments: itemSegments, kind: 'added', newValue: item })
+    } else {
+      matchedOld.add(oldIndex)
+      matches.push({ oldIndex, newIndex })
+    }
+  })
+
+  const stable = stableIndices(matches.map(match => match.oldIndex))
+  matches.forEach(({ oldIndex, newIndex }, position) => {
+    const itemSegments = [...segments, newIndex]
+    if (!stable.has(position)) {
+      entries.push({
+        path: formatPath(itemSegments),
+        segments: itemSegments,
+        kind: 'moved',
+        oldValue: oldItems[oldIndex],
+        newValue: newItems[newIndex],
+        fromPath: formatPath([...segments, oldIndex]),
+      })
+    }
+    diffValues(oldItems[oldIndex], newItems[newIndex], itemSegments, options, entries)
+  })
+
+  oldItems.forEach((item, oldIndex) => {
+    if (!matchedOld.has(oldIndex)) {
+      const itemSegments = [...segments, oldIndex]
+      entries.push({ path: formatPath(itemSegments), segments: itemSegments, kind: 'removed', oldValue: item })
+    }
+  })
+}
+
+function diffValues(oldValue: any, newValue: any, segments: PathSegment[], options: DiffOptions, entries: DiffEntry[]) {
+  if (isPlainObject(oldValue) && isPlainObject(newValue)) {
+    const keys = [...Object.keys(newValue), ...Object.keys(oldValue).filter(key => !(key in newValue))]
+    keys.forEach(key => {
+      const keySegments = [...segments, key]
+      if (!(key in oldValue)) {
+        entries.push({ path: formatPath(keySegments), segments: keySegments, kind: 'added', newValue: newValue[key] })
+      } else if (!(key in newValue)) {
+        entries.push({ path: formatPath(keySegments), segments: keySegments, kind: 'removed', oldValue: oldValue[key] })
+      } else {
+        diffValues(oldValue[key], newValue[key], keySegments, options, entries)
+      }
+    })
+    return
+  }
+  if (Array.isArray(oldValue) && Array.isArray(newValue)) {
+    diffArrays(oldValue, newValue, segments, options, entries)
+    return
+  }
+  if (!deepEqual(oldValue, newValue)) {
+    entries.push({ path: formatPath(segments), segments, kind: 'changed', oldValue, newValue })
+  }
+}
+
+// 同名且值相同的键从一个父级移到另一个父级时，合并为一条移动记录
+function detectMovedKeys(entries: DiffEntry[]): DiffEntry[] {
+  const removed = entries.filter(entry => entry.kind === 'removed' && typeof entry.segments[entry.segments.length - 1] === 'string')
+  const consumed = new Set<DiffEntry>()
+  const result: DiffEntry[] = []
+
+  entries.forEach(entry => {
+    if (entry.kind !== 'added' || typeof entry.segments[entry.segments.length - 1] !== 'string') {
+      result.push(entry)
+      return
+    }
+    const key = entry.segments[entry.segments.length - 1]
+    const source = removed.find(candidate =>
+      !consumed.has(candidate)
+      && candidate.segments[candidate.segments.length - 1] === key
+      && deepEqual(candidate.oldValue, entry.newValue)
+    )
+    if (source) {
+      consumed.add(source)
+      result.push({ ...entry, kind: 'moved', oldValue: source.oldValue, fromPath: source.path })
+    } else {
+      result.push(entry)
+    }
+  })
+
+  return result.filter(entry => !consumed.has(entry))
+}
+
+// 比较两个文档的结构：oldData 为对比文档，newData 为当前文档
+export function diffStructures(oldData: any, newData: any, options: DiffOptions = {}): DiffEntry[] {
+  const entries: DiffEntry[] = []
+  diffValues(oldData, newData, [], options, entries)
+  return detectMovedKeys(entries)
+}
+
+// 把当前文档中的路径映射为对比文档中对应节点的路径（按标识字段匹配的数组项在两边的索引可能不同），对比文档中没有对应节点时返回 null
+export function mapPathToOldData(segments: PathSegment[], oldData: any, newData: any, options: DiffOptions = {}): PathSegment[] | null {
+  const { identityKey } = options
+  const result: PathSegment[] = []
+  let oldNode = oldData
+  let newNode = newData
+  for (const segment of segments) {
+    let oldSegment = segment
+    if (typeof segment === 'number' && Array.isArray(oldNode) && Array.isArray(newNode)
+      && identityKey && canMatchByIdentity(oldNode, identityKey) && canMatchByIdentity(newNode, identityKey)) {
+      // 同一标识值出现多次时按出现顺序对应
+      const item = newNode[segment]
+      if (item === undefined) return null
+      const key = String(item[identityKey])
+      const occurrence = newNode.slice(0, segment).filter(other => String(other[identityKey]) === key).length
+      const oldIndices = oldNode.flatMap((other, index) => String(other[identityKey]) === key ? [index] : [])
+      if (occurrence >= oldIndices.length) return null
+      oldSegment = oldIndices[occurrence]
+    } else if (oldNode === null || typeof oldNode !== 'object' || !(segment in oldNode)) {
+      return null
+    }
+    result.push(oldSegment)
+    oldNode = oldNode[oldSegment]
+    newNode = newNode !== null && typeof newNode === 'object' ? newNode[segment] : undefined
+  }
+  return result
+}
+
+// 统计各类差异的数量
+export function countDiffKinds(entries: DiffEntry[]): Record<DiffKind, number> {
+  const counts: Record<DiffKind, number> = { added: 0, removed: 0, changed: 0, moved: 0 }
+  entries.forEach(entry => {
+    counts[entry.kind]++
+  })
+  return counts
+}
+
+// 构建按路径查找的索引：删除的节点挂在父级路径下，祖先路径用于提示折叠的节点内有差异
+export function buildDiffLookup(entries: DiffEntry[]): DiffLookup {
+  const lookup: DiffLookup = {
+    byPath: new Map(),
+    removedByParent: new Map(),
+    changedAncestors: new Set(),
+  }
+  entries.forEach(entry => {
+    if (entry.kind === 'removed') {
+      const parentPath = formatPath(entry.segments.slice(0, -1))
+      lookup.removedByParent.set(parentPath, [...(lookup.removedByParent.get(parentPath) || []), entry])
+    } else if (!lookup.byPath.has(entry.path) || entry.kind === 'moved') {
+      lookup.byPath.set(entry.path, entry)
+    }
+    for (let i = 1; i < entry.segments.length; i++) {
+      lookup.changedAncestors.add(formatPath(entry.segments.slice(0, i)))
+    }
+  })
+  return lookup
+}
+
+// 差异值的简短文本（用于提示）
+export function formatDiffValue(value: any): string {
+  if (value === undefined) return ''
+  const text = typeof value === 'string' ? value : JSON.stringify(value)
+  return text.length > 60 ? `${text.slice(0, 57)}...` : text
+}
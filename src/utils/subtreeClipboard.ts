@@ -0,0 +1,173 @@
+import * as YAML from 'yaml'
+import { YAML_PARSE_OPTIONS } from './yamlTags'
+
+// 粘贴时键冲突的处理方式：覆盖已有的值、重命名粘贴的键、与已有的值深度合并
+export type PasteCollision = 'overwrite' | 'rename' | 'merge'
+
+// 粘贴位置：作为所选节点的同级（插入到其后），或作为所选节点的子项（追加到末尾）
+export type PasteMode = 'sibling' | 'child'
+
+export const PASTE_COLLISION_LABELS: Record<PasteCollision, string> = {
+  overwrite: '覆盖',
+  rename: '重命名',
+  merge: '合并',
+}
+
+const JSON_MIME = 'application/json'
+
+// 粘贴非映射内容到对象中时使用的键（与添加键值对的默认键一致）
+const DEFAULT_PASTE_KEY = 'newKey'
+
+function isPlainObject(value: any): boolean {
+  return typeof value === 'object' && value !== null && !Array.isArray(value)
+}
+
+// 复制的内容：对象中的键值对保留键名（单键映射），数组项只复制值
+export function getCopyPayload(value: any, key: string | null): any {
+  return key === null ? value : { [key]: value }
+}
+
+// 子树的两种文本格式，写入系统剪贴板
+export function serializeSubtree(payload: any): { yaml: string; json: string } {
+  return {
+    yaml: YAML.stringify(payload, { indent: 2 }),
+    json: JSON.stringify(payload, null, 2),
+  }
+}
+
+// 在 copy/cut 事件中写入剪贴板：纯文本为 YAML，同时附带 JSON
+export function setClipboardData(clipboardData: DataTransfer, payload: any) {
+  const { yaml, json } = serializeSubtree(payload)
+  clipboardData.setData('text/plain', yaml)
+  clipboardData.setData(JSON_MIME, json)
+}
+
+// 从按钮等非剪贴板事件中复制：通过 execCommand 触发 copy 事件写入两种格式，不可用时只写入 YAML 文本
+export async function writeSubtreeToClipboard(payload: any): Promise<void> {
+  const handleCopy = (event: ClipboardEvent) => {
+    if (!event.clipboardData) return
+    setClipboardData(event.clipboardData, payload)
+    event.preventDefault()
+  }
+  document.addEventListener('copy', handleCopy)
+  let copied = false
+  try {
+    copied = document.execCommand('copy')
+  } finally {
+    document.removeEventListener('copy', handleCopy)
+  }
+  if (!copied) {
+    await navigator.clipboard.writeText(serializeSubtree(payload).yaml)
+  }
+}
+
+// 解析粘贴的内容：优先使用 JSON 数据，其次按 YAML（JSON 也是合法的 YAML）解析，无法解析时作为纯文本字符串
+export function parseClipboardContent(text: string, json = ''): any {
+  if (json.trim()) {
+    try {
+      return JSON.parse(json)
+    } catch {
+      // 不是合法的 JSON，继续按文本解析
+    }
+  }
+  if (!text.trim()) return text
+  try {
+    const doc = YAML.parseDocument(text, YAML_PARSE_OPTIONS)
+    if (doc.errors.length === 0) {
+      const value = doc.toJS()
+      return value === undefined ? text : value
+    }
+  } catch {
+    // 按纯文本处理
+  }
+  return text
+}
+
+// 从剪贴板事件中读取粘贴的内容
+export function readClipboardData(clipboardData: DataTransfer): any {
+  return parseClipboardContent(clipboardData.getData('text/plain'), clipboardData.getData(JSON_MIME))
+}
+
+// 为粘贴到对象中的内容生成键值对：映射按原键展开，其他值使用默认键
+export function getPasteEntries(value: any): Array<[string, any]> {
+  if (isPlainObject(value)) return Object.entries(value)
+  return [[DEFAULT_PASTE_KEY, value]]
+}
+
+// 粘贴到对象中时与已有键冲突的键
+export function findPasteCollisions(target: Record<string, any>, entries: Array<[string, any]>): string[] {
+  return entries.map(([key]) => key).filter(key => key in target)
+}
+
+// 重命名冲突的键：key_copy、key_copy2……
+function getUniqueKey(key: string, taken: Set<string>): string {
+  let candidate = `${key}_copy`
+  let counter = 2
+  while (taken.has(candidate)) {
+    candidate = `${key}_copy${counter}`
+    counter++
+  }
+  return candidate
+}
+
+// 深度合并：对象逐键合并，其他值使用粘贴的值
+export function deepMerge(base: any, incoming: any): any {
+  if (!isPlainObject(base) || !isPlainObject(incoming)) return incoming
+  const result = { ...base }
+  Object.entries(incoming).forEach(([key, value]) => {
+    result[key] = key in base ? deepMerge(base[key], value) : value
+  })
+  return result
+}
+
+// 把键值对插入对象：afterKey 为空时追加到末尾，否则插入到该键之后；冲突的键按 collision 处理，保持其余键的顺序
+export function insertIntoObject(
+  target: Record<string, any>,
+  entries: Array<[string, any]>,
+  afterKey: string | null,
+  collision: PasteCollision
+): Record<string, any> {
+  const updates = new Map<string, any>()
+  const inserted: Array<[string, any]> = []
+  const taken = new Set([...Object.keys(target), ...entries.map(([key]) => key)])
+
+  entries.forEach(([key, value]) => {
+    if (!(key in target)) {
+      inserted.push([key, value])
+    } else if (collision === 'rename') {
+      const newKey = getUniqueKey(key, taken)
+      taken.add(newKey)
+      inserted.push([newKey, value])
+    } else {
+      updates.set(key, collision === 'merge' ? deepMerge(target[key], value) : value)
+    }
+  })
+
+  const result: Record<string, any> = {}
+  const keys = Object.keys(target)
+  if (afterKey === null || !keys.includes(afterKey)) {
+    keys.forEach(key => {
+      result[key] = updates.has(key) ? updates.get(key) : target[key]
+    })
+    inserted.forEach(([key, value]) => {
+      result[key] = value
+    })
+    return result
+  }
+  keys.forEach(key => {
+    result[key] = updates.has(key) ? updates.get(key) : target[key]
+    if (key === afterKey) {
+      inserted.forEach(([newKey, value]) => {
+        result[newKey] = value
+      })
+    }
+  })
+  return result
+}
+
+// 把值作为一项插入数组：afterIndex 为空时追加到末尾，否则插入到该项之后
+export function insertIntoArray(target: any[], value: any, afterIndex: number | null): any[] {
+  const result = [...target]
+  result.splice(afterIndex === null ? result.length : afterIndex + 1, 0, value)
+  return result
+}
@@ -0,0 +1,105 @@
+import { formatPath, type PathSegment } from './path'
+import { deepEqual } from './structuralDiff'
+
+// 表示某一方中不存在该键（被删除或从未添加）
+export const MISSING = Symbol('missing')
+
+export type MergeValue = any | typeof MISSING
+
+// 冲突的解决方式：使用我方、使用对方，或保留表单中手动编辑的值
+export type MergeResolution = 'ours' | 'theirs' | 'manual'
+
+export interface MergeConflict {
+  path: string
+  segments: PathSegment[]
+  base: MergeValue
+  ours: MergeValue
+  theirs: MergeValue
+}
+
+export interface MergeResult {
+  merged: any
+  conflicts: MergeConflict[]
+  // 自动应用的对方修改数量
+  appliedCount: number
+}
+
+// 供表单按路径查找冲突及其解决状态
+export interface MergeConflictLookup {
+  byPath: Map<string, MergeConflict>
+  resolutions: Map<string, MergeResolution>
+}
+
+export const MERGE_RESOLUTION_LABELS: Record<MergeResolution, string> = {
+  ours: '我方',
+  theirs: '对方',
+  manual: '手动',
+}
+
+function isPlainObject(value: any): boolean {
+  return typeof value === 'object' && value !== null && !Array.isArray(value)
+}
+
+function sameValue(a: MergeValue, b: MergeValue): boolean {
+  if (a === MISSING || b === MISSING) return a === b
+  return deepEqual(a, b)
+}
+
+function mergeValues(base: MergeValue, ours: MergeValue, theirs: MergeValue, segments: PathSegment[], result: MergeResult): MergeValue {
+  if (sameValue(ours, theirs)) return ours
+  if (sameValue(base, ours)) {
+    result.appliedCount++
+    return theirs
+  }
+  if (sameValue(base, theirs)) return ours
+
+  // 双方都修改了对象：逐键合并（键顺序以我方为准，对方新增的键追加在后面）
+  if (isPlainObject(base) && isPlainObject(ours) && isPlainObject(theirs)) {
+    const keys = [...Object.keys(ours)]
+    Object.keys(theirs).forEach(key => {
+      if (!keys.includes(key)) keys.push(key)
+    })
+    Object.keys(base).forEach(key => {
+      if (!keys.includes(key)) keys.push(key)
+    })
+    const merged: Record<string, any> = {}
+    keys.forEach(key => {
+      const value = mergeValues(
+        key in base ? base[key] : MISSING,
+        key in ours ? ours[key] : MISSING,
+        key in theirs ? theirs[key] : MISSING,
+        [...segments, key],
+        result,
+      )
+      if (value !== MISSING) {
+        merged[key] = value
+      }
+    })
+    return merged
+  }
+
+  // 长度相同的数组逐项合并，否则整个数组视为一个冲突
+  if (Array.isArray(base) && Array.isArray(ours) && Array.isArray(theirs)
+    && base.length === ours.length && base.length === theirs.length) {
+    return ours.map((item, index) => mergeValues(base[index], item, theirs[index], [...segments, index], result))
+  }
+
+  // 冲突：默认保留我方的值，等待用户选择
+  result.conflicts.push({ path: formatPath(segments), segments, base, ours, theirs })
+  return ours
+}
+
+// 按路径进行三方合并：双方不冲突的修改自动应用，冲突的路径暂时保留我方的值
+export function mergeThreeWay(base: any, ours: any, theirs: any): MergeResult {
+  const result: MergeResult = { merged: undefined, conflicts: [], appliedCount: 0 }
+  const merged = mergeValues(base, ours, theirs, [], result)
+  result.merged = merged === MISSING ? {} : merged
+  return result
+}
+
+// 冲突值的简短文本（用于提示）
+export function formatMergeValue(value: MergeValue): string {
+  if (value === MISSING) return '(已删除)'
+  const text = typeof value === 'string' ? value : String(JSON.stringify(value))
+  return text.length > 60 ? `${text.slice(0, 57)}...` : text
+}
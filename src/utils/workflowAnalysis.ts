@@ -0,0 +1,303 @@
+import { formatPath, type PathSegment } from './path'
+import type { Problem, ProblemSeverity } from './problems'
+import { parseWorkflowExpression, extractExpressions, type ParsedExpression } from './workflowExpression'
+
+// GitHub Actions 工作流分析：needs 引用和循环依赖、${{ }} 表达式的语法和上下文、未知的步骤字段，
+// 以及用于绘制任务依赖图的图结构
+
+// 依赖图中的一个任务
+export interface WorkflowJobNode {
+  id: string
+  // 任务的 name，未设置时为 id
+  name: string
+  // 已定义的依赖任务（忽略未定义的引用和重复项）
+  needs: string[]
+  // 所在列：最长依赖链的长度，没有依赖的任务为 0
+  level: number
+  inCycle: boolean
+}
+
+export interface WorkflowGraph {
+  jobs: WorkflowJobNode[]
+}
+
+// 表达式所在的任务，用于检查 needs、steps、matrix 上下文
+interface ExpressionScope {
+  jobId: string | null
+}
+
+const KNOWN_CONTEXTS = new Set([
+  'github', 'env', 'vars', 'job', 'jobs', 'steps', 'runner', 'secrets', 'strategy', 'matrix', 'needs', 'inputs',
+])
+
+// 函数名不区分大小写
+const KNOWN_FUNCTIONS = new Set([
+  'contains', 'startswith', 'endswith', 'format', 'join', 'tojson', 'fromjson', 'hashfiles',
+  'success', 'always', 'cancelled', 'failure',
+])
+
+const STEP_KEYS = new Set([
+  'id', 'if', 'name', 'uses', 'run', 'shell', 'with', 'env', 'continue-on-error', 'timeout-minutes', 'working-directory',
+])
+
+function createProblem(segments: PathSegment[], message: string, severity: ProblemSeverity = 'error'): Problem {
+  return { path: formatPath(segments), segments, message, severity, source: 'workflow' }
+}
+
+function isPlainObject(value: any): value is Record<string, any> {
+  return !!value && typeof value === 'object' && !Array.isArray(value)
+}
+
+// 顶层有 jobs 映射，并且有 on 触发条件或任务中有 runs-on 时识别为 GitHub Actions 工作流
+export function isWorkflowDocument(data: any): boolean {
+  if (!isPlainObject(data) || !isPlainObject(data.jobs)) return false
+  if ('on' in data) return true
+  return Object.values(data.jobs).some(job => isPlainObject(job) && ('runs-on' in job || 'uses' in job))
+}
+
+// 任务的 needs 可以是单个任务名，也可以是任务名数组；返回任务名及其路径
+function getNeedsEntries(jobId: string, job: Record<string, any>): Array<[string, PathSegment[]]> {
+  const needsPath: PathSegment[] = ['jobs', jobId, 'needs']
+  if (typeof job.needs === 'string') return [[job.needs, needsPath]]
+  if (!Array.isArray(job.needs)) return []
+  return job.needs
+    .map((name, index) => [name, [...needsPath, index]] as [any, PathSegment[]])
+    .filter(([name]) => typeof name === 'string')
+}
+
+// 查找 needs 中的循环依赖，返回每个循环及形成循环的那条 needs 的路径
+function findCycles(jobs: Record<string, any>): Array<{ cycle: string[]; segments: PathSegment[] }> {
+  const cycles: Array<{ cycle: string[]; segments: PathSegment[] }> = []
+  const state = new Map<string, 'visiting' | 'done'>()
+  const stack: string[] = []
+
+  const visit = (jobId: string) => {
+    state.set(jobId, 'visiting')
+    stack.push(jobId)
+    const job = jobs[jobId]
+    if (isPlainObject(job)) {
+      const seen = new Set<string>()
+      getNeedsEntries(jobId, job).forEach(([name, segments]) => {
+        // 重复的依赖只检查一次，避免同一个循环报告多次
+        if (seen.has(name) || !Object.prototype.hasOwnProperty.call(jobs, name)) return
+        seen.add(name)
+        if (state.get(name) === 'visiting') {
+          cycles.push({ cycle: [...stack.slice(stack.indexOf(name)), name], segments })
+        } else if (!state.has(name)) {
+          visit(name)
+        }
+      })
+    }
+    stack.pop()
+    state.set(jobId, 'done')
+  }
+
+  Object.keys(jobs).forEach(jobId => {
+    if (!state.has(jobId)) visit(jobId)
+  })
+  return cycles
+}
+
+// 构建任务依赖图；循环中的依赖不参与列的计算
+export function buildJobGraph(data: any): WorkflowGraph {
+  if (!isWorkflowDocument(data)) return { jobs: [] }
+  const jobs: Record<string, any> = data.jobs
+  const cycleJobs = new Set(findCycles(jobs).flatMap(({ cycle }) => cycle))
+  const levels = new Map<string, number>()
+  const computing = new Set<string>()
+
+  const getLevel = (jobId: string): number => {
+    const cached = levels.get(jobId)
+    if (cached !== undefined) return cached
+    if (computing.has(jobId)) return 0
+    computing.add(jobId)
+    const job = jobs[jobId]
+    let level = 0
+    if (isPlainObject(job)) {
+      getNeedsEntries(jobId, job).forEach(([name]) => {
+        if (Object.prototype.hasOwnProperty.call(jobs, name) && !computing.has(name)) {
+          level = Math.max(level, getLevel(name) + 1)
+        }
+      })
+    }
+    computing.delete(jobId)
+    levels.set(jobId, level)
+    return level
+  }
+
+  return {
+    jobs: Object.keys(jobs).map(jobId => {
+      const job = jobs[jobId]
+      const needs = isPlainObject(job)
+        ? getNeedsEntries(jobId, job)
+          .map(([name]) => name)
+          .filter(name => Object.prototype.hasOwnProperty.call(jobs, name))
+        : []
+      return {
+        id: jobId,
+        name: isPlainObject(job) && typeof job.name === 'string' && job.name ? job.name : jobId,
+        needs: Array.from(new Set(needs)),
+        level: getLevel(jobId),
+        inCycle: cycleJobs.has(jobId),
+      }
+    }),
+  }
+}
+
+// 检查表达式引用的函数和上下文
+function checkExpression(
+  parsed: ParsedExpression,
+  scope: ExpressionScope,
+  data: any,
+  segments: PathSegment[],
+  problems: Problem[]
+) {
+  const job = scope.jobId !== null ? data.jobs[scope.jobId] : null
+
+  parsed.functions.forEach(name => {
+    if (!KNOWN_FUNCTIONS.has(name.toLowerCase())) {
+      problems.push(createProblem(segments, `未知的函数 "${name}"`))
+    }
+  })
+
+  parsed.references.forEach(({ context, property }) => {
+    if (!KNOWN_CONTEXTS.has(context)) {
+      problems.push(createProblem(segments, `未知的上下文 "${context}"`))
+      return
+    }
+    if (!isPlainObject(job) || property === null || property === '*') return
+
+    if (context === 'needs') {
+      const needs = getNeedsEntries(scope.jobId!, job).map(([name]) => name)
+      if (!needs.includes(property)) {
+        problems.push(createProblem(segments, `任务 "${property}" 不在当前任务的 needs 中，无法通过 needs 上下文引用`))
+      }
+    } else if (context === 'steps') {
+      const stepIds = Array.isArray(job.steps)
+        ? job.steps.filter(isPlainObject).map((step: any) => step.id).filter((id: any) => typeof id === 'string')
+        : []
+      if (!stepIds.includes(property)) {
+        problems.push(createProblem(segments, `当前任务中没有 id 为 "${property}" 的步骤`))
+      }
+    } else if (context === 'matrix' && !isPlainObject(job.strategy?.matrix) && typeof job.strategy?.matrix !== 'string') {
+      problems.push(createProblem(segments, '当前任务没有定义 strategy.matrix，matrix 上下文为空', 'warning'))
+    }
+  })
+}
+
+function checkExpressionText(
+  text: string,
+  scope: ExpressionScope,
+  data: any,
+  segments: PathSegment[],
+  problems: Problem[]
+) {
+  try {
+    checkExpression(parseWorkflowExpression(text), scope, data, segments, problems)
+  } catch (error) {
+    problems.push(createProblem(segments, `表达式语法错误: ${error instanceof Error ? error.message : String(error)}`))
+  }
+}
+
+// 检查字符串中所有的 ${{ }} 表达式
+function checkStringValue(
+  value: string,
+  scope: ExpressionScope,
+  data: any,
+  segments: PathSegment[],
+  problems: Problem[]
+) {
+  const { expressions, error } = extractExpressions(value)
+  expressions.forEach(expression => checkExpressionText(expression, scope, data, segments, problems))
+  if (error) {
+    problems.push(createProblem(segments, `表达式语法错误: ${error}`))
+  }
+}
+
+// 递归检查所有字符串值中的表达式；任务和步骤的 if 可以省略 ${{ }}，整个值就是表达式
+function checkExpressions(value: any, segments: PathSegment[], scope: ExpressionScope, data: any, problems: Problem[]) {
+  if (typeof value === 'string') {
+    const key = segments[segments.length - 1]
+    const isCondition = key === 'if' && (
+      (segments.length === 3 && segments[0] === 'jobs') ||
+      (segments.length === 5 && segments[0] === 'jobs' && segments[2] === 'steps')
+    )
+    if (isCondition && !value.includes('${{')) {
+      checkExpressionText(value, scope, data, segments, problems)
+    } else {
+      checkStringValue(value, scope, data, segments, problems)
+    }
+    return
+  }
+  if (Array.isArray(value)) {
+    value.forEach((item, index) => checkExpressions(item, [...segments, index], scope, data, problems))
+  } else if (isPlainObject(value)) {
+    Object.entries(value).forEach(([key, child]) => {
+      const childScope = segments.length === 1 && segments[0] === 'jobs' ? { jobId: key } : scope
+      checkExpressions(child, [...segments, key], childScope, data, problems)
+    })
+  }
+}
+
+// 检查步骤：未知字段，uses 和 run 必须且只能有一个
+function checkSteps(jobId: string, job: Record<string, any>, problems: Problem[]) {
+  if (!Array.isArray(job.steps)) return
+  const stepIds = new Set<string>()
+  job.steps.forEach((step: any, index: number) => {
+    const stepPath: PathSegment[] = ['jobs', jobId, 'steps', index]
+    if (!isPlainObject(step)) {
+      problems.push(createProblem(stepPath, '步骤应为对象'))
+      return
+    }
+    Object.keys(step).forEach(key => {
+      if (!STEP_KEYS.has(key)) {
+        problems.push(createProblem([...stepPath, key], `未知的步骤字段 "${key}"`))
+      }
+    })
+    if ('uses' in step && 'run' in step) {
+      problems.push(createProblem(stepPath, '步骤不能同时包含 uses 和 run'))
+    } else if (!('uses' in step) && !('run' in step)) {
+      problems.push(createProblem(stepPath, '步骤缺少 uses 或 run'))
+    }
+    if (typeof step.id === 'string') {
+      if (stepIds.has(step.id)) {
+        problems.push(createProblem([...stepPath, 'id'], `步骤 id "${step.id}" 重复`))
+      }
+      stepIds.add(step.id)
+    }
+  })
+}
+
+// 分析 GitHub Actions 工作流，返回问题列表；不是工作流时返回空列表
+export function analyzeWorkflow(data: any): Problem[] {
+  if (!isWorkflowDocument(data)) return []
+  const problems: Problem[] = []
+  const jobs: Record<string, any> = data.jobs
+
+  Object.entries(jobs).forEach(([jobId, job]) => {
+    if (!isPlainObject(job)) return
+    const seenNeeds = new Set<string>()
+    getNeedsEntries(jobId, job).forEach(([name, segments]) => {
+      if (seenNeeds.has(name)) {
+        problems.push(createProblem(segments, `依赖的任务 "${name}" 重复`, 'warning'))
+        return
+      }
+      seenNeeds.add(name)
+      if (name === jobId) {
+        problems.push(createProblem(segments, `任务 "${jobId}" 不能依赖自身`))
+      } else if (!Object.prototype.hasOwnProperty.call(jobs, name)) {
+        problems.push(createProblem(segments, `依赖的任务 "${name}" 未定义`))
+      }
+    })
+    checkSteps(jobId, job, problems)
+  })
+
+  findCycles(jobs).forEach(({ cycle, segments }) => {
+    if (cycle.length > 2) {
+      problems.push(createProblem(segments, `任务之间存在循环依赖: ${cycle.join(' → ')}`))
+    }
+  })
+
+  checkExpressions(data, [], { jobId: null }, data, problems)
+  return problems
+}
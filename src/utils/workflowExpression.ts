@@ -0,0 +1,201 @@
+// GitHub Actions 表达式（${{ ... }}）的语法检查：解析表达式并收集其中引用的上下文和调用的函数，
+// 只检查语法，不求值
+
+// 表达式中对上下文的引用，如 needs.build.outputs.version 的 context 为 needs，property 为 build
+export interface ContextReference {
+  context: string
+  property: string | null
+}
+
+export interface ParsedExpression {
+  references: ContextReference[]
+  functions: string[]
+}
+
+// 逐字符读取表达式文本，出错时报告位置
+class Scanner {
+  pos = 0
+
+  constructor(private text: string) {}
+
+  atEnd(): boolean {
+    return this.pos >= this.text.length
+  }
+
+  done(): boolean {
+    this.skipSpace()
+    return this.pos >= this.text.length
+  }
+
+  peek(): string {
+    return this.text[this.pos] ?? ''
+  }
+
+  skipSpace() {
+    while (/\s/.test(this.peek())) this.pos++
+  }
+
+  eat(token: string): boolean {
+    this.skipSpace()
+    if (!this.text.startsWith(token, this.pos)) return false
+    this.pos += token.length
+    return true
+  }
+
+  expect(token: string) {
+    if (!this.eat(token)) this.error(`缺少 "${token}"`)
+  }
+
+  match(pattern: RegExp): string | null {
+    this.skipSpace()
+    pattern.lastIndex = this.pos
+    const match = pattern.exec(this.text)
+    if (!match) return null
+    this.pos += match[0].length
+    return match[0]
+  }
+
+  // 单引号字符串，'' 表示一个单引号
+  readString(): string {
+    this.pos++
+    let result = ''
+    while (this.pos < this.text.length) {
+      const char = this.text[this.pos++]
+      if (char === "'") {
+        if (this.text[this.pos] !== "'") return result
+        this.pos++
+      }
+      result += char
+    }
+    this.error('字符串缺少结束引号')
+  }
+
+  error(message: string): never {
+    throw new Error(`${message}（位置 ${this.pos + 1}）`)
+  }
+}
+
+const IDENTIFIER = /[A-Za-z_][\w-]*/y
+const NUMBER = /-?(0x[0-9a-fA-F]+|\d+(\.\d+)?([eE][+-]?\d+)?|Infinity|NaN)/y
+const COMPARISON = /==|!=|<=|>=|<|>/y
+const LITERALS = new Set(['true', 'false', 'null'])
+
+class ExpressionParser {
+  references: ContextReference[] = []
+  functions: string[] = []
+
+  constructor(private scanner: Scanner) {}
+
+  parseOr() {
+    this.parseAnd()
+    while (this.scanner.eat('||')) this.parseAnd()
+  }
+
+  parseAnd() {
+    this.parseComparison()
+    while (this.scanner.eat('&&')) this.parseComparison()
+  }
+
+  parseComparison() {
+    this.parseUnary()
+    while (this.scanner.match(COMPARISON)) this.parseUnary()
+  }
+
+  parseUnary() {
+    // != 由比较运算处理，这里只处理前缀的 !
+    if (this.scanner.eat('!')) {
+      this.parseUnary()
+      return
+    }
+    this.parsePostfix()
+  }
+
+  parsePostfix() {
+    const reference = this.parsePrimary()
+    let first = true
+    for (;;) {
+      if (this.scanner.eat('.')) {
+        const name = this.scanner.eat('*') ? '*' : this.scanner.match(IDENTIFIER)
+        if (name === null) this.scanner.error('"." 后缺少属性名')
+        if (reference && first) reference.property = name
+      } else if (this.scanner.eat('[')) {
+        this.scanner.skipSpace()
+        if (this.scanner.peek() === "'") {
+          const name = this.scanner.readString()
+          if (reference && first) reference.property = name
+        } else if (!this.scanner.eat('*')) {
+          this.parseOr()
+        }
+        this.scanner.expect(']')
+      } else {
+        return
+      }
+      first = false
+    }
+  }
+
+  // 解析基本项，是上下文名称时返回对应的引用
+  parsePrimary(): ContextReference | null {
+    const scanner: Scanner = this.scanner
+    scanner.skipSpace()
+    if (scanner.peek() === "'") {
+      scanner.readString()
+      return null
+    }
+    if (scanner.match(NUMBER) !== null) return null
+    if (scanner.eat('(')) {
+      this.parseOr()
+      scanner.expect(')')
+      return null
+    }
+    const name = scanner.match(IDENTIFIER)
+    if (name === null) {
+      scanner.error(scanner.atEnd() ? '表达式不完整' : `无法识别的字符 "${scanner.peek()}"`)
+    }
+    if (LITERALS.has(name)) return null
+    if (scanner.eat('(')) {
+      this.functions.push(name)
+      if (!scanner.eat(')')) {
+        do {
+          this.parseOr()
+        } while (scanner.eat(','))
+        scanner.expect(')')
+      }
+      return null
+    }
+    const reference: ContextReference = { context: name, property: null }
+    this.references.push(reference)
+    return reference
+  }
+}
+
+// 解析表达式（不含 ${{ }}），语法错误时抛出错误
+export function parseWorkflowExpression(text: string): ParsedExpression {
+  const scanner = new Scanner(text)
+  if (scanner.done()) scanner.error('表达式为空')
+  const parser = new ExpressionParser(scanner)
+  parser.parseOr()
+  if (!scanner.done()) scanner.error(`无法识别的字符 "${scanner.peek()}"`)
+  return { references: parser.references, functions: parser.functions }
+}
+
+// 提取字符串中所有的 ${{ }} 表达式，跳过表达式中字符串里的 }}；缺少结束的 }} 时返回错误描述和之前已提取的表达式
+export function extractExpressions(value: string): { expressions: string[]; error: string | null } {
+  const expressions: string[] = []
+  let from = 0
+  for (;;) {
+    const start = value.indexOf('${{', from)
+    if (start === -1) return { expressions, error: null }
+    let pos = start + 3
+    let inString = false
+    while (pos < value.length && (inString || !value.startsWith('}}', pos))) {
+      if (value[pos] === "'") inString = !inString
+      pos++
+    }
+    if (pos >= value.length) {
+      return { expressions, error: `表达式缺少结束的 "}}"（位置 ${start + 1}）` }
+    }
+    expressions.push(value.slice(start + 3, pos))
+    from = pos + 2
+  }
+}
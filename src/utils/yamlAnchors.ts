@@ -0,0 +1,136 @@
+import * as YAML from 'yaml'
+import { formatPath, type PathSegment } from './path'
+
+// 合并键（<<）相关的标记：inherited 为继承的键，overridden 为被本地键覆盖的继承键，override 为覆盖继承值的本地键
+export type MergeKeyState = 'inherited' | 'overridden' | 'override'
+
+export interface AnchorInfo {
+  name: string
+  aliasCount: number
+}
+
+export interface AliasInfo {
+  name: string
+  anchorPath: string | null
+}
+
+// 供表单按路径查找锚点、别名和合并键信息
+export interface AnchorLookup {
+  anchors: Map<string, AnchorInfo>
+  aliases: Map<string, AliasInfo>
+  mergeKeys: Map<string, MergeKeyState>
+}
+
+export const MERGE_KEY = '<<'
+
+export const MERGE_KEY_STATE_LABELS: Record<MergeKeyState, string> = {
+  inherited: '继承',
+  overridden: '已覆盖',
+  override: '覆盖',
+}
+
+function pairKey(pair: YAML.Pair): string | null {
+  if (YAML.isScalar(pair.key)) return String((pair.key as YAML.Scalar).value)
+  return null
+}
+
+// 标记 <<: *anchor 或 <<: [*a, *b] 引入的键（先出现的来源优先，本地键优先于所有来源）
+function collectMergeKeys(doc: YAML.Document, map: YAML.YAMLMap, segments: PathSegment[], lookup: AnchorLookup) {
+  const mergePair = map.items.find(pair => pairKey(pair) === MERGE_KEY)
+  if (!mergePair) return
+
+  const ownKeys = new Set(map.items.map(pairKey).filter((key): key is string => key !== null && key !== MERGE_KEY))
+  const sources = YAML.isSeq(mergePair.value)
+    ? (mergePair.value as YAML.YAMLSeq).items.map((item, index) => ({ node: item, segments: [...segments, MERGE_KEY, index] }))
+    : [{ node: mergePair.value, segments: [...segments, MERGE_KEY] }]
+
+  const seen = new Set<string>(ownKeys)
+  sources.forEach(source => {
+    const node = YAML.isAlias(source.node) ? (source.node as YAML.Alias).resolve(doc) : source.node
+    if (!YAML.isMap(node)) return
+    (node as YAML.YAMLMap).items.forEach(pair => {
+      const key = pairKey(pair)
+      if (key === null || key === MERGE_KEY) return
+      const path = formatPath([...source.segments, key])
+      if (seen.has(key)) {
+        lookup.mergeKeys.set(path, 'overridden')
+        if (ownKeys.has(key)) {
+          lookup.mergeKeys.set(formatPath([...segments, key]), 'override')
+        }
+      } else {
+        lookup.mergeKeys.set(path, 'inherited')
+        seen.add(key)
+      }
+    })
+  })
+}
+
+// 遍历文档，收集锚点（&name）、别名（*name）和合并键的位置，路径与表单路径一致
+export function collectAnchorInfo(doc: YAML.Document | null): AnchorLookup {
+  const lookup: AnchorLookup = { anchors: new Map(), aliases: new Map(), mergeKeys: new Map() }
+  if (!doc || !doc.contents) return lookup
+
+  const anchorPaths = new Map<string, string>()
+
+  const walk = (node: unknown, segments: PathSegment[]) => {
+    const path = formatPath(segments)
+    if (YAML.isAlias(node)) {
+      const name = (node as YAML.Alias).source
+      const anchorPath = anchorPaths.get(name) ?? null
+      lookup.aliases.set(path, { name, anchorPath })
+      if (anchorPath !== null) {
+        const anchor = lookup.anchors.get(anchorPath)
+        if (anchor) anchor.aliasCount++
+      }
+      return
+    }
+    if (!YAML.isNode(node)) return
+
+    const anchor = (node as YAML.Node).anchor
+    if (anchor) {
+      anchorPaths.set(anchor, path)
+      lookup.anchors.set(path, { name: anchor, aliasCount: 0 })
+    }
+
+    if (YAML.isMap(node)) {
+      (node as YAML.YAMLMap).items.forEach(pair => {
+        const key = pairKey(pair)
+        if (key !== null) {
+          walk(pair.value, [...segments, key])
+        }
+      })
+      collectMergeKeys(doc, node as YAML.YAMLMap, segments, lookup)
+    } else if (YAML.isSeq(node)) {
+      (node as YAML.YAMLSeq).items.forEach((item, index) => walk(item, [...segments, index]))
+    }
+  }
+
+  walk(doc.contents, [])
+  return lookup
+}
+
+// 锚点节点被删除后，引用它的别名会无法解析：用原锚点内容的副本替换这些别名
+export function replaceDanglingAliases(contents: YAML.Node, previousContents: unknown) {
+  const previousAnchors = new Map<string, YAML.Node>()
+  YAML.visit(previousContents as YAML.Node, (_key, node) => {
+    if (YAML.isNode(node) && !YAML.isAlias(node) && node.anchor) {
+      previousAnchors.set(node.anchor, node)
+    }
+  })
+
+  const definedAnchors = new Set<string>()
+  YAML.visit(contents, (_key, node) => {
+    if (YAML.isAlias(node)) {
+      if (definedAnchors.has(node.source)) return undefined
+      const original = previousAnchors.get(node.source)
+      if (!original) return undefined
+      const copy = original.clone() as YAML.Node
+      copy.anchor = undefined
+      return copy
+    }
+    if (YAML.isNode(node) && node.anchor) {
+      definedAnchors.add(node.anchor)
+    }
+    return undefined
+  })
+}
@@ -0,0 +1,149 @@
+import * as YAML from 'yaml'
+import type { PathSegment } from './path'
+
+// 文本中的字符偏移范围 [start, end)
+export type OffsetRange = [number, number]
+
+// 在 Map 中查找 key 对应的 Pair
+function findPair(map: YAML.YAMLMap, key: PathSegment): YAML.Pair | undefined {
+  return map.items.find(pair => {
+    const pairKey = YAML.isScalar(pair.key) ? (pair.key as YAML.Scalar).value : pair.key
+    return String(pairKey) === String(key)
+  })
+}
+
+// 根据路径段查找对应的文本范围：对象属性返回 key 的范围，数组项返回该项节点的范围
+export function getRangeForPath(doc: YAML.Document | null, segments: PathSegment[]): OffsetRange | null {
+  if (!doc || !doc.contents) return null
+
+  let node: unknown = doc.contents
+  let range: OffsetRange | null = null
+  const contentsRange = (doc.contents as YAML.Node).range
+  if (contentsRange) {
+    range = [contentsRange[0], contentsRange[1]]
+  }
+  // 根节点只标记第一个条目，避免整篇文档都被标记
+  if (YAML.isCollection(node) && node.items.length > 0) {
+    const first = node.items[0]
+    const firstNode = YAML.isPair(first) ? first.key : first
+    if (YAML.isNode(firstNode) && firstNode.range) {
+      range = [firstNode.range[0], firstNode.range[1]]
+    }
+  }
+
+  for (const segment of segments) {
+    if (YAML.isAlias(node)) {
+      node = node.resolve(doc)
+    }
+    if (YAML.isMap(node)) {
+      const pair = findPair(node as YAML.YAMLMap, segment)
+      if (!pair) return range
+      const keyRange = YAML.isNode(pair.key) ? (pair.key as YAML.Node).range : null
+      if (keyRange) {
+        range = [keyRange[0], keyRange[1]]
+      }
+      node = pair.value
+    } else if (YAML.isSeq(node) && typeof segment === 'number') {
+      const item = (node as YAML.YAMLSeq).items[segment]
+      if (!YAML.isNode(item)) return range
+      const itemRange = (item as YAML.Node).range
+      if (itemRange) {
+        range = [itemRange[0], itemRange[1]]
+      }
+      node = item
+    } else {
+      // 路径超出文档结构（例如缺失的字段），返回最近的父级范围
+      return range
+    }
+  }
+
+  return range
+}
+
+// 节点自身的范围（不含尾随注释）
+function nodeRange(node: unknown): OffsetRange | null {
+  if (!YAML.isNode(node) || !node.range) return null
+  return [node.range[0], node.range[1]]
+}
+
+// 键值对的范围：从 key 开始到 value 结束
+function pairRange(pair: YAML.Pair): OffsetRange | null {
+  const keyRange = nodeRange(pair.key)
+  if (!keyRange) return null
+  const valueRange = nodeRange(pair.value)
+  return [keyRange[0], valueRange ? Math.max(valueRange[1], keyRange[1]) : keyRange[1]]
+}
+
+// 根据路径段查找节点的完整范围（对象属性包含 key 和 value，数组项为整个项），路径不存在时返回 null
+export function getNodeRangeForPath(doc: YAML.Document | null, segments: PathSegment[]): OffsetRange | null {
+  if (!doc || !doc.contents) return null
+
+  let node: unknown = doc.contents
+  let range = nodeRange(node)
+
+  for (const segment of segments) {
+    if (YAML.isAlias(node)) {
+      node = node.resolve(doc)
+    }
+    if (YAML.isMap(node)) {
+      const pair = findPair(node as YAML.YAMLMap, segment)
+      if (!pair) return null
+      range = pairRange(pair)
+      node = pair.value
+    } else if (YAML.isSeq(node) && typeof segment === 'number') {
+      const item = (node as YAML.YAMLSeq).items[segment]
+      if (item === undefined) return null
+      range = nodeRange(item)
+      node = item
+    } else {
+      return null
+    }
+  }
+
+  return range
+}
+
+// 查找文本偏移处最深的节点路径：落在键值对上返回该属性的路径，落在数组项（含前面的 "- "）上返回该项的路径
+export function getPathAtOffset(doc: YAML.Document | null, offset: number): PathSegment[] {
+  const segments: PathSegment[] = []
+  if (!doc || !doc.contents) return segments
+
+  let node: unknown = doc.contents
+  while (YAML.isCollection(node)) {
+    let next: unknown = undefined
+    if (YAML.isMap(node)) {
+      const pair = (node as YAML.YAMLMap).items.find(item => {
+        const range = pairRange(item)
+        return range !== null && offset >= range[0] && offset <= range[1]
+      })
+      if (!pair || !YAML.isScalar(pair.key)) break
+      segments.push(String((pair.key as YAML.Scalar).value))
+      next = pair.value
+    } else {
+      const items = (node as YAML.YAMLSeq).items
+      let previousEnd = nodeRange(node)?.[0] ?? 0
+      const index = items.findIndex(item => {
+        const range = nodeRange(item)
+        if (!range) return false
+        const isInside = offset >= previousEnd && offset <= range[1]
+        previousEnd = range[1] + 1
+        return isInside
+      })
+      if (index === -1) break
+      segments.push(index)
+      next = items[index]
+    }
+    // 只有落在子节点的值范围内时才继续深入（例如点击 key 时停留在该属性）
+    const range = nodeRange(next)
+    if (!range || offset < range[0] || offset > range[1]) break
+    node = next
+  }
+
+  return segments
+}
+
+// 在 YAML 流中查找包含文本偏移的文档索引
+export function getDocumentIndexAtOffset(docs: YAML.Document[], offset: number): number {
+  const index = docs.findIndex(doc => doc.range && offset <= doc.range[2])
+  return index === -1 ? Math.max(docs.length - 1, 0) : index
+}
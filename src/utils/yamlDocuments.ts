@@ -0,0 +1,38 @@
+import * as YAML from 'yaml'
+import { YAML_PARSE_OPTIONS } from './yamlTags'
+
+// 多文档流中单个文档的摘要信息（用于文档切换器）
+export interface DocumentSummary {
+  index: number
+  kind?: string
+  name?: string
+}
+
+// 解析 YAML 流（以 --- 分隔的多个文档），保留每个文档的注释和自定义标签
+export function parseYamlStream(text: string): YAML.Document[] {
+  const docs = YAML.parseAllDocuments(text, YAML_PARSE_OPTIONS)
+  return Array.isArray(docs) ? docs : []
+}
+
+// 将多个文档写回为 YAML 流，保留分隔符和注释
+export function stringifyYamlStream(docs: YAML.Document[]): string {
+  return docs.map(doc => doc.toString()).join('')
+}
+
+// 获取文档的摘要信息（Kubernetes 等清单的 kind 和 metadata.name）
+export function getDocumentSummary(doc: YAML.Document, index: number): DocumentSummary {
+  const summary: DocumentSummary = { index }
+  if (YAML.isMap(doc.contents)) {
+    const kind = doc.get('kind')
+    const name = doc.getIn(['metadata', 'name'])
+    if (kind !== undefined && kind !== null) summary.kind = String(kind)
+    if (name !== undefined && name !== null) summary.name = String(name)
+  }
+  return summary
+}
+
+// 文档切换器中显示的标签，如 "#2 Service/my-app"
+export function formatDocumentLabel(summary: DocumentSummary): string {
+  const detail = [summary.kind, summary.name].filter(Boolean).join('/')
+  return detail ? `#${summary.index + 1} ${detail}` : `#${summary.index + 1}`
+}
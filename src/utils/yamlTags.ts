@@ -0,0 +1,156 @@
+import * as YAML from 'yaml'
+import { formatPath, type PathSegment } from './path'
+
+// 标签可以作用的节点类型
+export type TagNodeKind = 'scalar' | 'seq' | 'map'
+
+export interface TagDefinition {
+  // 完整标签名，如 !Ref、tag:yaml.org,2002:binary
+  tag: string
+  group: 'CloudFormation' | 'YAML'
+  kinds: TagNodeKind[]
+  description: string
+}
+
+// 表单中某个节点上的显式标签
+export interface TagInfo {
+  tag: string
+  kind: TagNodeKind
+}
+
+const YAML_TAG_PREFIX = 'tag:yaml.org,2002:'
+
+const BASE64_PATTERN = /^[A-Za-z0-9+/]*={0,2}$/
+const TIMESTAMP_PATTERN = /^\d{4}-\d{1,2}-\d{1,2}(?:(?:[Tt]|[ \t]+)\d{1,2}:\d{2}:\d{2}(?:\.\d+)?(?:[ \t]*(?:Z|[-+]\d{1,2}(?::\d{2})?))?)?$/
+
+// CloudFormation 短格式内置函数
+const CLOUDFORMATION_TAGS: Array<{ name: string; kinds: TagNodeKind[]; description: string }> = [
+  { name: 'Ref', kinds: ['scalar'], description: '引用参数或资源' },
+  { name: 'Sub', kinds: ['scalar', 'seq'], description: '字符串变量替换' },
+  { name: 'GetAtt', kinds: ['scalar', 'seq'], description: '获取资源属性' },
+  { name: 'Join', kinds: ['seq'], description: '用分隔符连接列表' },
+  { name: 'Select', kinds: ['seq'], description: '按索引选择列表项' },
+  { name: 'Split', kinds: ['seq'], description: '按分隔符拆分字符串' },
+  { name: 'FindInMap', kinds: ['seq'], description: '从 Mappings 中取值' },
+  { name: 'GetAZs', kinds: ['scalar'], description: '获取可用区列表' },
+  { name: 'ImportValue', kinds: ['scalar', 'map'], description: '导入其他堆栈的输出' },
+  { name: 'Base64', kinds: ['scalar', 'map'], description: 'Base64 编码' },
+  { name: 'Cidr', kinds: ['seq'], description: '生成 CIDR 地址块' },
+  { name: 'If', kinds: ['seq'], description: '按条件取值' },
+  { name: 'Equals', kinds: ['seq'], description: '比较两个值是否相等' },
+  { name: 'And', kinds: ['seq'], description: '逻辑与' },
+  { name: 'Or', kinds: ['seq'], description: '逻辑或' },
+  { name: 'Not', kinds: ['seq'], description: '逻辑非' },
+  { name: 'Condition', kinds: ['scalar'], description: '引用条件' },
+  { name: 'Transform', kinds: ['map'], description: '调用宏' },
+]
+
+// 标签注册表：表单中的标签菜单和解析/序列化共用
+export const TAG_REGISTRY: TagDefinition[] = [
+  ...CLOUDFORMATION_TAGS.map(({ name, kinds, description }) => ({
+    tag: `!${name}`,
+    group: 'CloudFormation' as const,
+    kinds,
+    description,
+  })),
+  { tag: `${YAML_TAG_PREFIX}binary`, group: 'YAML', kinds: ['scalar'], description: 'Base64 编码的二进制数据' },
+  { tag: `${YAML_TAG_PREFIX}timestamp`, group: 'YAML', kinds: ['scalar'], description: '时间戳' },
+  { tag: `${YAML_TAG_PREFIX}set`, group: 'YAML', kinds: ['map'], description: '集合（值均为空的映射）' },
+]
+
+// CloudFormation 标签只做标记，值按原样保留（标量为字符串，序列/映射保持为集合节点）
+function createPassThroughTags(definition: TagDefinition): YAML.Tags {
+  return definition.kinds.map(kind => kind === 'scalar'
+    ? { tag: definition.tag, resolve: (value: string) => value }
+    : { tag: definition.tag, collection: kind, resolve: (collection: YAML.YAMLMap | YAML.YAMLSeq) => collection })
+}
+
+// !!binary、!!timestamp 解析为字符串而不是 Uint8Array/Date，使表单数据保持为普通 JSON，标签保留在节点上
+const yamlTypeTags: YAML.Tags = [
+  {
+    tag: `${YAML_TAG_PREFIX}binary`,
+    resolve: (value: string, onError: (message: string) => void) => {
+      const compact = value.replace(/\s+/g, '')
+      if (!BASE64_PATTERN.test(compact)) onError('!!binary 的值不是合法的 Base64')
+      return compact
+    },
+  },
+  {
+    tag: `${YAML_TAG_PREFIX}timestamp`,
+    resolve: (value: string, onError: (message: string) => void) => {
+      if (!TIMESTAMP_PATTERN.test(value.trim())) onError('!!timestamp 的值不是合法的时间戳')
+      return value
+    },
+  },
+  {
+    tag: `${YAML_TAG_PREFIX}set`,
+    collection: 'map',
+    resolve: (map: YAML.YAMLMap | YAML.YAMLSeq, onError: (message: string) => void) => {
+      if ((map as YAML.YAMLMap).items.some(pair => pair.value !== null && !(YAML.isScalar(pair.value) && pair.value.value === null))) {
+        onError('!!set 中的键不应有值')
+      }
+      return map
+    },
+  },
+]
+
+export const CUSTOM_TAGS: YAML.Tags = [
+  ...TAG_REGISTRY.filter(definition => definition.group === 'CloudFormation').flatMap(createPassThroughTags),
+  ...yamlTypeTags,
+]
+
+// 解析时统一使用的选项，保证解析与序列化识别同一组标签
+export const YAML_PARSE_OPTIONS = { customTags: CUSTOM_TAGS }
+
+// 完整标签名转换为文档中的短格式：tag:yaml.org,2002:binary → !!binary
+export function formatTag(tag: string): string {
+  return tag.startsWith(YAML_TAG_PREFIX) ? `!!${tag.slice(YAML_TAG_PREFIX.length)}` : tag
+}
+
+// 短格式转换为完整标签名：!!binary → tag:yaml.org,2002:binary
+export function normalizeTag(tag: string): string {
+  const trimmed = tag.trim()
+  if (trimmed.startsWith('!!')) return `${YAML_TAG_PREFIX}${trimmed.slice(2)}`
+  if (!trimmed.startsWith('!') && !trimmed.startsWith('tag:')) return `!${trimmed}`
+  return trimmed
+}
+
+export function getTagDefinition(tag: string): TagDefinition | undefined {
+  return TAG_REGISTRY.find(definition => definition.tag === tag)
+}
+
+// 可用于某类节点的注册标签
+export function getTagOptions(kind: TagNodeKind): TagDefinition[] {
+  return TAG_REGISTRY.filter(definition => definition.kinds.includes(kind))
+}
+
+function getNodeKind(node: YAML.Node): TagNodeKind {
+  if (YAML.isMap(node)) return 'map'
+  if (YAML.isSeq(node)) return 'seq'
+  return 'scalar'
+}
+
+// 遍历文档，收集带显式标签的节点，路径与表单路径一致
+export function collectTagInfo(doc: YAML.Document | null): Map<string, TagInfo> {
+  const tags = new Map<string, TagInfo>()
+  if (!doc || !doc.contents) return tags
+
+  const walk = (node: unknown, segments: PathSegment[]) => {
+    if (!YAML.isNode(node) || YAML.isAlias(node)) return
+    if (node.tag) {
+      tags.set(formatPath(segments), { tag: node.tag, kind: getNodeKind(node) })
+    }
+    if (YAML.isMap(node)) {
+      (node as YAML.YAMLMap).items.forEach(pair => {
+        if (YAML.isScalar(pair.key)) {
+          walk(pair.value, [...segments, String((pair.key as YAML.Scalar).value)])
+        }
+      })
+    } else if (YAML.isSeq(node)) {
+      (node as YAML.YAMLSeq).items.forEach((item, index) => walk(item, [...segments, index]))
+    }
+  }
+
+  walk(doc.contents, [])
+  return tags
+}